@@ -0,0 +1,184 @@
+import { OpenAICreateSessionParams, Tool } from '../../types';
+import { SessionEndpointLimits } from '../../utils/constants';
+import serverTools from '../../utils/openAITools';
+
+type SessionParamField = keyof OpenAICreateSessionParams;
+
+/**
+ * What browsers may choose when creating a session, and what the server sets
+ */
+export interface SessionEndpointPolicy {
+  /**
+   * Model of every session, clients cannot choose it.
+   */
+  model: string;
+
+  /**
+   * Fields clients may set. The other fields they send are ignored.
+   */
+  overridableFields: SessionParamField[];
+
+  /**
+   * Values sent upstream unless clients override them.
+   */
+  defaults: Partial<OpenAICreateSessionParams>;
+
+  /**
+   * Tools clients may enable by name. Their definitions always come from the
+   * server, and all of them are enabled when clients send no tools.
+   */
+  tools: Tool[];
+
+  /**
+   * Upper bound of `max_response_output_tokens`, also its default.
+   */
+  maxResponseOutputTokens: number;
+
+  /**
+   * Origins allowed to create sessions, only the endpoint's own origin when
+   * null.
+   */
+  allowedOrigins: string[] | null;
+
+  /**
+   * Whether the endpoint runs behind a proxy setting `X-Forwarded-Host`,
+   * which is then taken as its host. Any caller can send that header
+   * otherwise.
+   */
+  trustProxy: boolean;
+}
+
+export type SessionPolicyResult =
+  | {
+      status: 'valid';
+      params: Partial<OpenAICreateSessionParams> & { model: string };
+    }
+  | { status: 'invalid'; errors: string[] };
+
+/**
+ * Fields clients may set unless `OPEN_AI_SESSION_OVERRIDABLE_FIELDS` lists
+ * others. Instructions are left to the server.
+ */
+export const DEFAULT_OVERRIDABLE_FIELDS: SessionParamField[] = [
+  'modalities',
+  'tools',
+  'turn_detection',
+  'input_audio_transcription',
+  'voice',
+  'output_audio_format',
+  'temperature',
+  'max_response_output_tokens',
+];
+
+// Splits a comma separated variable, undefined when unset
+const parseList = (value: string | undefined): string[] | undefined =>
+  value
+    ?.split(',')
+    .map((item) => item.trim())
+    .filter(Boolean);
+
+/**
+ * Reads the policy from the environment.
+ * @returns null when the model is not configured.
+ */
+export const getSessionEndpointPolicy = (
+  env: NodeJS.ProcessEnv = process.env
+): SessionEndpointPolicy | null => {
+  const model = env.OPEN_AI_MODEL_ID;
+  if (!model) {
+    return null;
+  }
+
+  const deniedFields = parseList(env.OPEN_AI_SESSION_DENIED_FIELDS) ?? [];
+  const overridableFields = (
+    (parseList(env.OPEN_AI_SESSION_OVERRIDABLE_FIELDS) as
+      | SessionParamField[]
+      | undefined) ?? DEFAULT_OVERRIDABLE_FIELDS
+  ).filter((field) => !deniedFields.includes(field));
+
+  const maxTokens = Number(env.OPEN_AI_SESSION_MAX_RESPONSE_OUTPUT_TOKENS);
+  const maxResponseOutputTokens =
+    Number.isInteger(maxTokens) &&
+    maxTokens >= 1 &&
+    maxTokens <= SessionEndpointLimits.MAX_RESPONSE_OUTPUT_TOKENS
+      ? maxTokens
+      : SessionEndpointLimits.MAX_RESPONSE_OUTPUT_TOKENS;
+
+  return {
+    model,
+    overridableFields,
+    defaults: {
+      instructions: env.OPEN_AI_SESSION_INSTRUCTIONS?.trim() || undefined,
+    },
+    tools: serverTools,
+    maxResponseOutputTokens,
+    allowedOrigins: parseList(env.OPEN_AI_SESSION_ALLOWED_ORIGINS) ?? null,
+    trustProxy: env.OPEN_AI_SESSION_TRUST_PROXY === 'true',
+  };
+};
+
+/**
+ * Builds the upstream session parameters from validated client parameters:
+ * the server defaults, overridden by the fields clients may set, with the
+ * tools replaced by their server definitions and the output tokens capped.
+ */
+export const applySessionEndpointPolicy = (
+  clientParams: Partial<OpenAICreateSessionParams>,
+  policy: SessionEndpointPolicy
+): SessionPolicyResult => {
+  const overrides = Object.fromEntries(
+    Object.entries(clientParams).filter(([field]) =>
+      policy.overridableFields.includes(field as SessionParamField)
+    )
+  ) as Partial<OpenAICreateSessionParams>;
+
+  const errors: string[] = [];
+  const tools = overrides.tools?.map((tool) => {
+    const serverTool = policy.tools.find(({ name }) => name === tool.name);
+    if (!serverTool) {
+      errors.push(`Tool '${tool.name}' is not available`);
+    }
+    return serverTool;
+  });
+  if (errors.length > 0) {
+    return { status: 'invalid', errors };
+  }
+
+  const maxTokens = overrides.max_response_output_tokens;
+  return {
+    status: 'valid',
+    params: {
+      ...policy.defaults,
+      ...overrides,
+      model: policy.model,
+      tools: (tools as Tool[] | undefined) ?? policy.tools,
+      max_response_output_tokens:
+        typeof maxTokens === 'number'
+          ? Math.min(maxTokens, policy.maxResponseOutputTokens)
+          : policy.maxResponseOutputTokens,
+    },
+  };
+};
+
+/**
+ * Checks the `Origin` header of a request. Requests without one, which
+ * browsers always send with POST requests, are refused.
+ * @param host - Host the endpoint is served from, used when no origins are configured.
+ */
+export const isOriginAllowed = (
+  origin: string | null,
+  host: string | null,
+  policy: SessionEndpointPolicy
+): boolean => {
+  if (!origin) {
+    return false;
+  }
+  if (policy.allowedOrigins) {
+    return policy.allowedOrigins.includes(origin);
+  }
+  try {
+    return new URL(origin).host === host;
+  } catch {
+    return false;
+  }
+};
@@ -1,39 +1,101 @@
 import { NextRequest, NextResponse } from 'next/server';
+import { validateSessionParams } from '../../utils/sessionParamsValidation';
+import {
+  applySessionEndpointPolicy,
+  getSessionEndpointPolicy,
+  isOriginAllowed,
+} from './policy';
+
+/**
+ * Error response of the endpoint, the same shape for every failure so no
+ * upstream details reach the browser
+ */
+const errorResponse = (
+  status: number,
+  code: string,
+  message: string,
+  details?: string[]
+) =>
+  NextResponse.json(
+    { error: { code, message, ...(details && { details }) } },
+    { status }
+  );
 
 export async function POST(req: NextRequest) {
   const OPENAI_API_KEY = process.env.OPEN_AI_API_KEY;
   const OPENAI_REALTIME_SESSION_URL = process.env.OPEN_AI_REALTIME_SESSION_URL;
-  const OPENAI_MODEL_ID = process.env.OPEN_AI_MODEL_ID;
-  const body = await req.json();
-  if (!OPENAI_API_KEY || !OPENAI_REALTIME_SESSION_URL || !OPENAI_MODEL_ID) {
-    return NextResponse.json(
-      { error: 'Missing environment variables' },
-      { status: 500 }
+  const policy = getSessionEndpointPolicy();
+  if (!OPENAI_API_KEY || !OPENAI_REALTIME_SESSION_URL || !policy) {
+    return errorResponse(
+      500,
+      'server_error',
+      'The session endpoint is not configured'
     );
   }
 
-  const response = await fetch(OPENAI_REALTIME_SESSION_URL, {
-    method: 'POST',
-    headers: {
-      Authorization: `Bearer ${OPENAI_API_KEY}`,
-      'Content-Type': 'application/json',
-    },
-    body: JSON.stringify({
-      model: OPENAI_MODEL_ID,
-      ...body,
-    }),
-  });
+  const host =
+    (policy.trustProxy && req.headers.get('x-forwarded-host')) ||
+    req.headers.get('host');
+  if (!isOriginAllowed(req.headers.get('origin'), host, policy)) {
+    return errorResponse(
+      403,
+      'origin_not_allowed',
+      'Sessions cannot be created from this origin'
+    );
+  }
 
-  if (!response.ok) {
-    return NextResponse.json(
-      {
-        error: 'Failed to create session',
-        errorFromOpenAI: await response.json(),
-      },
-      { status: response.status }
+  let body: unknown;
+  try {
+    body = await req.json();
+  } catch {
+    return errorResponse(400, 'invalid_json', 'The body is not valid JSON');
+  }
+
+  const validation = validateSessionParams(body);
+  if (validation.status === 'invalid') {
+    return errorResponse(
+      400,
+      'invalid_params',
+      'Invalid session parameters',
+      validation.errors
+    );
+  }
+  const result = applySessionEndpointPolicy(validation.params, policy);
+  if (result.status === 'invalid') {
+    return errorResponse(
+      400,
+      'invalid_params',
+      'Invalid session parameters',
+      result.errors
     );
   }
 
-  const data = await response.json();
+  let response: Response;
+  try {
+    response = await fetch(OPENAI_REALTIME_SESSION_URL, {
+      method: 'POST',
+      headers: {
+        Authorization: `Bearer ${OPENAI_API_KEY}`,
+        'Content-Type': 'application/json',
+      },
+      body: JSON.stringify(result.params),
+    });
+  } catch {
+    return errorResponse(502, 'upstream_error', 'Failed to create session');
+  }
+
+  if (!response.ok) {
+    // Upstream error details are not forwarded
+    return response.status === 429
+      ? errorResponse(429, 'rate_limited', 'Too many sessions, retry later')
+      : errorResponse(502, 'upstream_error', 'Failed to create session');
+  }
+
+  let data: unknown;
+  try {
+    data = await response.json();
+  } catch {
+    return errorResponse(502, 'upstream_error', 'Failed to create session');
+  }
   return NextResponse.json(data);
 }
@@ -1,6 +1,6 @@
 'use client';
 
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import WebRTCPlayer from './WebRTCPlayer';
 import TextMessageInput from './TextMessageInput';
 import PushToTalk from './PushToTalk';
@@ -10,17 +10,28 @@ import {
   Modality,
   TurnDetectionConfig,
   TurnDetectionType,
-  RealtimeEventType,
   Voice,
   OpenAICreateSessionParams,
   ConnectionStatus,
 } from '../types';
-import tools from './openAITools';
+import tools, {
+  changeBackgroundTool,
+  zoomContentTool,
+} from '../utils/openAITools';
 import Transcripts from './Transcripts';
 import TokenUsage from './TokenUsage';
 import SessionInfo from './SessionInfo';
+import NetworkStats from './NetworkStats';
+import LatencyPanel from './LatencyPanel';
 import SessionsDebugger from './SessionsDebugger';
 import { EventLogger } from './EventLogger';
+import MicrophoneControls from './MicrophoneControls';
+import OutputControls from './OutputControls';
+import RecordingControls from './RecordingControls';
+import RateLimitNotice from './RateLimitNotice';
+import SessionHistory from './SessionHistory';
+import TranscriptExportMenu from './TranscriptExportMenu';
+import EventJournalPanel from './EventJournalPanel';
 
 // Add voice options based on OpenAI's available voices
 const VOICE_OPTIONS = {
@@ -49,9 +60,6 @@ const openAICreateSessionParams: OpenAICreateSessionParams = {
     model: 'whisper-1',
   },
   voice: Voice.ALLOY,
-  instructions: `
-    You are a fortune teller. You can see the future.
-  `,
   turn_detection: defaultTurnDetection,
   tools,
 };
@@ -63,34 +71,93 @@ const Chat: React.FC = () => {
     ...openAICreateSessionParams,
     connection_timeout: 10000,
   });
+  // Last failure to show, cleared when a session starts
+  const [error, setError] = useState<string | null>(null);
 
   const {
     connect,
-    sendClientEvent,
     disconnect,
     session,
     sendAudioChunk,
     commitAudioBuffer,
     sendTextMessage,
+    updateSession,
     createResponse,
+    interrupt,
+    setAudioElement,
+    registerTool,
+    unregisterTool,
+    conversationItems,
   } = useSession();
 
+  /**
+   * Reports a request the server rejected or did not answer.
+   * @param error - The `RealtimeRequestError`, timeout or abort reason.
+   */
+  const handleRequestError = (error: unknown) => {
+    setError(
+      `Realtime request failed: ${error instanceof Error ? error.message : String(error)}`
+    );
+  };
+
+  /**
+   * Changes the background color of the application.
+   * @param color - The color to set as the background.
+   */
+  const handleChangeBackground = (color: string) => {
+    document.body.style.backgroundColor = color;
+    console.log(`Background color changed to: ${color}`);
+  };
+
+  /**
+   * Zooms in or out of the application content.
+   * @param zoomLevel - The zoom level to apply.
+   */
+  const handleZoomContent = (zoomLevel: number) => {
+    document.body.style.transform = `scale(${zoomLevel})`;
+    console.log(`Content zoomed to level: ${zoomLevel}`);
+  };
+
+  // Register the handlers of the tools advertised to the model
+  useEffect(() => {
+    registerTool(changeBackgroundTool, ({ color }) => {
+      handleChangeBackground(color as string);
+      return { success: true };
+    });
+    registerTool(zoomContentTool, ({ zoomLevel }) => {
+      handleZoomContent(zoomLevel as number);
+      return { success: true };
+    });
+
+    return () => {
+      unregisterTool(changeBackgroundTool.name);
+      unregisterTool(zoomContentTool.name);
+    };
+  }, [registerTool, unregisterTool]);
+
   async function createNewOpenAISession(
     updatedConfig: OpenAICreateSessionParams
   ) {
-    const session = await (
-      await fetch('/api/session', {
-        method: 'POST',
-        body: JSON.stringify(updatedConfig),
-      })
-    ).json();
-    return session;
+    const response = await fetch('/api/session', {
+      method: 'POST',
+      body: JSON.stringify(updatedConfig),
+    });
+    const body = await response.json().catch(() => null);
+    if (!response.ok) {
+      throw new Error(body?.error?.message ?? 'Failed to create session');
+    }
+    return body;
   }
 
   async function onSessionStart() {
     const { connection_timeout, ...rest } = config;
-    const newSession = await createNewOpenAISession(rest);
-    connect({ ...newSession, connection_timeout }, handleFunctionCall);
+    setError(null);
+    try {
+      const newSession = await createNewOpenAISession(rest);
+      await connect({ ...newSession, connection_timeout });
+    } catch (error) {
+      setError(error instanceof Error ? error.message : String(error));
+    }
   }
 
   const handleModeChange = (newMode: 'vad' | 'push-to-talk') => {
@@ -103,12 +170,9 @@ const Chat: React.FC = () => {
     setConfig(updatedConfig);
 
     if (session?.connectionStatus === ConnectionStatus.CONNECTED) {
-      sendClientEvent({
-        type: RealtimeEventType.SESSION_UPDATE,
-        session: {
-          turn_detection: updatedConfig.turn_detection,
-        },
-      });
+      updateSession({
+        turn_detection: updatedConfig.turn_detection,
+      }).catch(handleRequestError);
     }
   };
 
@@ -122,62 +186,26 @@ const Chat: React.FC = () => {
 
     // If session is active, update it
     if (session?.connectionStatus === ConnectionStatus.CONNECTED) {
-      sendClientEvent({
-        type: RealtimeEventType.SESSION_UPDATE,
-        session: {
-          voice: newVoice as Voice,
-        },
-      });
-    }
-  };
-
-  /**
-   * Function call handler for handling model-triggered functions.
-   * @param name - The name of the function being called.
-   * @param args - The arguments passed to the function.
-   */
-  const handleFunctionCall = (name: string, args: Record<string, unknown>) => {
-    console.log(`Function call received: ${name}`, args);
-
-    switch (name) {
-      case 'change_background':
-        handleChangeBackground(args.color as string);
-        break;
-
-      case 'zoom_content':
-        handleZoomContent(args.zoomLevel as number);
-        break;
-
-      default:
-        console.warn(`Unhandled function call: ${name}`);
+      updateSession({
+        voice: newVoice as Voice,
+      }).catch(handleRequestError);
     }
   };
 
-  /**
-   * Changes the background color of the application.
-   * @param color - The color to set as the background.
-   */
-  const handleChangeBackground = (color: string) => {
-    document.body.style.backgroundColor = color;
-    console.log(`Background color changed to: ${color}`);
-  };
-
-  /**
-   * Zooms in or out of the application content.
-   * @param zoomLevel - The zoom level to apply.
-   */
-  const handleZoomContent = (zoomLevel: number) => {
-    document.body.style.transform = `scale(${zoomLevel})`;
-    console.log(`Content zoomed to level: ${zoomLevel}`);
-  };
-
   return (
     <div className="w-full max-w-2xl mx-auto p-4 bg-white rounded-lg shadow-lg space-y-6">
       <EventLogger />
       {/* Header Section */}
       <div className="space-y-4">
         <div className="flex justify-between items-center">
-          <h1 className="text-xl font-bold text-gray-800">AI Chat</h1>
+          <h1 className="text-xl font-bold text-gray-800">
+            AI Chat
+            {session?.isReplay && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                (replay)
+              </span>
+            )}
+          </h1>
 
           {/* Session Control */}
           {session?.connectionStatus === ConnectionStatus.CONNECTED ? (
@@ -221,8 +249,25 @@ const Chat: React.FC = () => {
             <option value="vad">VAD</option>
             <option value="push-to-talk">Push-to-Talk</option>
           </select>
+
+          {session?.connectionStatus === ConnectionStatus.CONNECTED && (
+            <MicrophoneControls />
+          )}
         </div>
 
+        {error && (
+          <div className="bg-red-50 border border-red-300 text-red-800 rounded-md px-4 py-2 text-sm">
+            {error}
+          </div>
+        )}
+
+        {(session?.isRateLimited || !!session?.rateLimitWaiting) && (
+          <RateLimitNotice
+            waiting={session.rateLimitWaiting ?? 0}
+            resumeTime={session.rateLimitResumeTime}
+          />
+        )}
+
         {/* Stats Panel */}
         {session && (
           <div className="grid grid-cols-2 gap-4">
@@ -230,30 +275,57 @@ const Chat: React.FC = () => {
               startTime={session.startTime}
               endTime={session.endTime}
               duration={session.duration}
+              clientSecretExpiresIn={
+                session.connectionStatus === ConnectionStatus.CLOSED
+                  ? undefined
+                  : session.clientSecretExpiresIn
+              }
+              disconnectReason={session.disconnectReason}
+              exceededBudget={session.exceededBudget}
             />
+            {session.networkStats && (
+              <NetworkStats
+                stats={session.networkStats}
+                history={session.networkStatsHistory}
+              />
+            )}
             {session.tokenUsage && (
               <TokenUsage
-                inputTokens={session.tokenUsage.inputTokens}
-                outputTokens={session.tokenUsage.outputTokens}
-                totalTokens={session.tokenUsage.totalTokens}
+                usage={session.tokenUsage}
+                history={session.tokenUsageHistory}
+                estimatedCost={session.estimatedCost}
+                exportName={session.id}
               />
             )}
           </div>
         )}
+        {session?.turnLatencies && session.turnLatencies.length > 0 && (
+          <LatencyPanel turns={session.turnLatencies} exportName={session.id} />
+        )}
       </div>
 
       {/* Main Chat Section */}
       <div className="space-y-4">
         {/* WebRTC Player */}
         {session?.mediaStream && (
-          <div className="border-t pt-4">
-            <WebRTCPlayer remoteStream={session.mediaStream} />
+          <div className="border-t pt-4 space-y-2">
+            <WebRTCPlayer
+              remoteStream={session.mediaStream}
+              onAudioElement={setAudioElement}
+              volume={session.outputVolume}
+              paused={session.isOutputPaused}
+            />
+            <OutputControls />
+            <RecordingControls />
           </div>
         )}
 
         {/* Transcripts */}
-        {session?.transcripts && session.transcripts.length > 0 && (
-          <Transcripts transcripts={session.transcripts} />
+        {conversationItems.length > 0 && (
+          <Transcripts items={conversationItems} />
+        )}
+        {session && session.transcripts.length > 0 && (
+          <TranscriptExportMenu session={session} />
         )}
 
         {/* Input Section */}
@@ -263,10 +335,11 @@ const Chat: React.FC = () => {
             <div className="mb-4">
               {mode === 'push-to-talk' ? (
                 <PushToTalk
+                  onRecordingStarted={interrupt}
                   onRecording={sendAudioChunk}
                   onRecordingStopped={() => {
                     commitAudioBuffer();
-                    createResponse();
+                    createResponse().catch(handleRequestError);
                   }}
                 />
               ) : (
@@ -281,11 +354,17 @@ const Chat: React.FC = () => {
           {/* Text Input */}
           {session?.modalities?.includes(Modality.TEXT) && (
             <TextMessageInput
-              onNewMessage={sendTextMessage}
-              onGenerateResponse={createResponse}
+              onNewMessage={(message) =>
+                sendTextMessage(message).catch(handleRequestError)
+              }
+              onGenerateResponse={() =>
+                createResponse().catch(handleRequestError)
+              }
             />
           )}
         </div>
+        <SessionHistory />
+        <EventJournalPanel />
         <SessionsDebugger />
       </div>
     </div>
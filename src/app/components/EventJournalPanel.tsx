@@ -0,0 +1,100 @@
+'use client';
+
+import React, { useState } from 'react';
+import { useSession } from '../context/OpenAIRealtimeWebRTC';
+import { downloadFile } from '../utils/download';
+import { eventJournalToNdjson, parseEventJournal } from '../utils/eventJournal';
+
+const SPEED_OPTIONS = {
+  '1': '1x',
+  '2': '2x',
+  '5': '5x',
+  '10': '10x',
+  Infinity: 'Instant',
+} as const;
+
+const EventJournalPanel: React.FC = () => {
+  const { session, getEventJournal, clearEventJournal, replayEventJournal } =
+    useSession();
+  const [speed, setSpeed] = useState<keyof typeof SPEED_OPTIONS>('1');
+  const [error, setError] = useState<string | null>(null);
+
+  const handleDownload = () => {
+    const entries = getEventJournal();
+    if (entries.length === 0) {
+      setError('The event journal is empty');
+      return;
+    }
+    setError(null);
+    downloadFile(
+      eventJournalToNdjson(entries),
+      `${session?.id ?? 'sessions'}-journal.ndjson`,
+      'application/x-ndjson'
+    );
+  };
+
+  const handleReplay = async (file: File) => {
+    setError(null);
+    try {
+      const entries = parseEventJournal(await file.text());
+      await replayEventJournal(entries, { speed: Number(speed) });
+    } catch (error) {
+      setError(
+        `Failed to replay the journal: ${error instanceof Error ? error.message : String(error)}`
+      );
+    }
+  };
+
+  return (
+    <div className="border-t pt-4">
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">
+        Event Journal
+      </h3>
+      <div className="flex items-center space-x-2 text-sm">
+        <button
+          onClick={handleDownload}
+          className="bg-gray-500 text-white px-3 py-1 rounded hover:bg-gray-600"
+        >
+          Download NDJSON
+        </button>
+        <button
+          onClick={clearEventJournal}
+          className="text-blue-600 hover:underline"
+        >
+          Clear
+        </button>
+        <select
+          value={speed}
+          onChange={(e) =>
+            setSpeed(e.target.value as keyof typeof SPEED_OPTIONS)
+          }
+          className="border border-gray-300 rounded px-2 py-1 bg-white text-gray-700"
+        >
+          {Object.entries(SPEED_OPTIONS).map(([value, label]) => (
+            <option key={value} value={value}>
+              {label}
+            </option>
+          ))}
+        </select>
+        <label className="text-blue-600 hover:underline cursor-pointer">
+          Replay file…
+          <input
+            type="file"
+            accept=".ndjson,.jsonl,application/x-ndjson"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = '';
+              if (file) {
+                handleReplay(file);
+              }
+            }}
+          />
+        </label>
+      </div>
+      {error && <p className="text-sm text-red-600 mt-2">{error}</p>}
+    </div>
+  );
+};
+
+export default EventJournalPanel;
@@ -1,23 +1,29 @@
 import React, { useEffect } from 'react';
 import { useSession } from '../context/OpenAIRealtimeWebRTC';
-import { RealtimeEventType, RealtimeEvent } from '../types';
+import { EventCallback, RealtimeEventType } from '../types';
 
 export const EventLogger: React.FC = () => {
   const { on, off } = useSession();
 
   useEffect(() => {
     // Define event handlers
-    const handleTranscriptionCompleted = (event: RealtimeEvent) => {
+    const handleTranscriptionCompleted: EventCallback<
+      RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_COMPLETED
+    > = (event) => {
       console.log('🎤 Transcription completed', {
         timestamp: new Date().toISOString(),
         eventId: event.event_id,
+        transcript: event.transcript,
       });
     };
 
-    const handleInputAudioCompleted = (event: RealtimeEvent) => {
-      console.log('🛑 Output audio stopped', {
+    const handleInputAudioCompleted: EventCallback<
+      RealtimeEventType.INPUT_AUDIO_COMMITTED
+    > = (event) => {
+      console.log('🛑 Input audio committed', {
         timestamp: new Date().toISOString(),
         eventId: event.event_id,
+        itemId: event.item_id,
       });
     };
 
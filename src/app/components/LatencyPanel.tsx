@@ -0,0 +1,86 @@
+import React from 'react';
+import { TurnLatency } from '../types';
+import {
+  LatencyPercentiles,
+  summarizeTurnLatencies,
+  turnLatenciesToCsv,
+} from '../utils/latencyTracker';
+import { downloadFile } from '../utils/download';
+
+interface LatencyPanelProps {
+  turns: TurnLatency[];
+  /**
+   * Prefix of the exported file name, e.g. the session id.
+   */
+  exportName?: string;
+}
+
+const metrics: {
+  key: 'timeToFirstAudioMs' | 'timeToFirstTokenMs' | 'totalResponseMs';
+  label: string;
+}[] = [
+  { key: 'timeToFirstAudioMs', label: 'First audio' },
+  { key: 'timeToFirstTokenMs', label: 'First token' },
+  { key: 'totalResponseMs', label: 'Total response' },
+];
+
+const formatMs = (value: number | null) =>
+  value === null ? '–' : `${Math.round(value)} ms`;
+
+const LatencyPanel: React.FC<LatencyPanelProps> = ({
+  turns,
+  exportName = 'session',
+}) => {
+  const summaries: [string, LatencyPercentiles][] = metrics.map(
+    ({ key, label }) => [label, summarizeTurnLatencies(turns, key)]
+  );
+
+  const handleExport = () => {
+    downloadFile(
+      turnLatenciesToCsv(turns),
+      `${exportName}-latency.csv`,
+      'text/csv'
+    );
+  };
+
+  return (
+    <div className="bg-gray-100 border border-gray-200 rounded-md p-4 w-full shadow-sm">
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">
+          Latency ({turns.length} turns)
+        </h3>
+        <button
+          onClick={handleExport}
+          disabled={turns.length === 0}
+          className="text-sm text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          Export CSV
+        </button>
+      </div>
+      <table className="w-full text-sm text-gray-600">
+        <thead>
+          <tr className="text-left">
+            <th className="font-medium">From end of speech</th>
+            <th className="font-medium">p50</th>
+            <th className="font-medium">p90</th>
+            <th className="font-medium">p95</th>
+            <th className="font-medium">Max</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summaries.map(([label, summary]) => (
+            <tr key={label}>
+              <td>{label}</td>
+              <td>{formatMs(summary.p50)}</td>
+              <td>{formatMs(summary.p90)}</td>
+              <td>{formatMs(summary.p95)}</td>
+              <td>{formatMs(summary.max)}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default LatencyPanel;
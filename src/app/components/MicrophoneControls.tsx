@@ -0,0 +1,75 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '../context/OpenAIRealtimeWebRTC';
+
+const MicrophoneControls: React.FC = () => {
+  const {
+    session,
+    muteMicrophone,
+    unmuteMicrophone,
+    listInputDevices,
+    setInputDevice,
+  } = useSession();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+  const hasMicrophone = session?.inputDeviceId !== undefined;
+
+  // Refresh the device list once labels are available and whenever devices change
+  useEffect(() => {
+    if (!hasMicrophone) {
+      return;
+    }
+    const refreshDevices = () => {
+      listInputDevices()
+        .then(setDevices)
+        .catch(() => setError('Failed to list microphones'));
+    };
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener(
+        'devicechange',
+        refreshDevices
+      );
+    };
+  }, [hasMicrophone, listInputDevices]);
+
+  if (!hasMicrophone) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={session?.isMuted ? unmuteMicrophone : muteMicrophone}
+        className={`px-3 py-1 rounded text-white ${
+          session?.isMuted
+            ? 'bg-red-500 hover:bg-red-600'
+            : 'bg-gray-500 hover:bg-gray-600'
+        }`}
+      >
+        {session?.isMuted ? 'Unmute' : 'Mute'}
+      </button>
+      <select
+        value={session?.inputDeviceId ?? ''}
+        onChange={(e) => {
+          setError(null);
+          setInputDevice(e.target.value || null).catch(() =>
+            setError('Failed to switch microphone')
+          );
+        }}
+        className="border border-gray-300 rounded px-2 py-1 bg-white text-gray-700"
+      >
+        {devices.map((device) => (
+          <option key={device.deviceId} value={device.deviceId}>
+            {device.label || 'Microphone'}
+          </option>
+        ))}
+      </select>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default MicrophoneControls;
@@ -0,0 +1,107 @@
+import React from 'react';
+import { NetworkQuality, NetworkStats as NetworkStatsSample } from '../types';
+
+interface NetworkStatsProps {
+  stats: NetworkStatsSample;
+  history?: NetworkStatsSample[];
+}
+
+const qualityClassNames: Record<NetworkQuality, string> = {
+  [NetworkQuality.EXCELLENT]: 'text-green-700',
+  [NetworkQuality.GOOD]: 'text-green-600',
+  [NetworkQuality.FAIR]: 'text-yellow-600',
+  [NetworkQuality.POOR]: 'text-red-600',
+};
+
+const GRAPH_WIDTH = 200;
+const GRAPH_HEIGHT = 40;
+
+// Points of a line graph of the values, scaled to the graph height
+const getGraphPoints = (values: (number | null)[], max: number): string =>
+  values
+    .map((value, index) => {
+      const x = (index / Math.max(1, values.length - 1)) * GRAPH_WIDTH;
+      const y = GRAPH_HEIGHT - (Math.min(value ?? 0, max) / max) * GRAPH_HEIGHT;
+      return `${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+const NetworkStats: React.FC<NetworkStatsProps> = ({ stats, history = [] }) => {
+  const formatValue = (value: number | null, unit: string, digits = 0) =>
+    value === null ? '–' : `${value.toFixed(digits)} ${unit}`;
+
+  const maxRoundTripTime = Math.max(
+    100,
+    ...history.map((sample) => sample.roundTripTimeMs ?? 0)
+  );
+  const pair = stats.candidatePair;
+
+  return (
+    <div className="bg-gray-100 border border-gray-200 rounded-md p-4 w-full max-w-sm shadow-sm">
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">Network</h3>
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>Round trip:</span>
+        <span className="font-medium">
+          {formatValue(stats.roundTripTimeMs, 'ms')}
+        </span>
+      </div>
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>Jitter:</span>
+        <span className="font-medium">{formatValue(stats.jitterMs, 'ms')}</span>
+      </div>
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>Packet loss:</span>
+        <span className="font-medium">
+          {formatValue(
+            stats.packetLoss === null ? null : stats.packetLoss * 100,
+            '%',
+            1
+          )}
+        </span>
+      </div>
+      <div className="flex justify-between text-sm text-gray-600 mb-1">
+        <span>Bitrate in / out:</span>
+        <span className="font-medium">
+          {formatValue(stats.inboundBitrateKbps, 'kbps')} /{' '}
+          {formatValue(stats.outboundBitrateKbps, 'kbps')}
+        </span>
+      </div>
+      {pair && (
+        <div className="flex justify-between text-sm text-gray-600 mb-1">
+          <span>Route:</span>
+          <span className="font-medium">
+            {pair.localCandidateType ?? '?'} → {pair.remoteCandidateType ?? '?'}{' '}
+            ({pair.protocol ?? '?'})
+          </span>
+        </div>
+      )}
+      {history.length > 1 && (
+        <svg
+          viewBox={`0 0 ${GRAPH_WIDTH} ${GRAPH_HEIGHT}`}
+          className="w-full h-10 my-2"
+          preserveAspectRatio="none"
+        >
+          <title>Round-trip time history</title>
+          <polyline
+            points={getGraphPoints(
+              history.map((sample) => sample.roundTripTimeMs),
+              maxRoundTripTime
+            )}
+            fill="none"
+            stroke="#2563eb"
+            strokeWidth={1.5}
+          />
+        </svg>
+      )}
+      <div className="flex justify-between text-sm text-gray-800 font-bold border-t border-gray-300 pt-2">
+        <span>Quality:</span>
+        <span className={stats.quality ? qualityClassNames[stats.quality] : ''}>
+          {stats.quality ?? 'Measuring…'}
+          {stats.qualityScore !== null && ` (${stats.qualityScore.toFixed(1)})`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default NetworkStats;
@@ -0,0 +1,83 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '../context/OpenAIRealtimeWebRTC';
+
+const OutputControls: React.FC = () => {
+  const {
+    session,
+    listOutputDevices,
+    setOutputDevice,
+    setOutputVolume,
+    pauseOutput,
+    resumeOutput,
+  } = useSession();
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Refresh the device list whenever devices change
+  useEffect(() => {
+    const refreshDevices = () => {
+      listOutputDevices()
+        .then(setDevices)
+        .catch(() => setError('Failed to list speakers'));
+    };
+    refreshDevices();
+    navigator.mediaDevices.addEventListener('devicechange', refreshDevices);
+    return () => {
+      navigator.mediaDevices.removeEventListener(
+        'devicechange',
+        refreshDevices
+      );
+    };
+  }, [listOutputDevices]);
+
+  if (!session) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={session.isOutputPaused ? resumeOutput : pauseOutput}
+        className="px-3 py-1 rounded text-white bg-gray-500 hover:bg-gray-600"
+      >
+        {session.isOutputPaused ? 'Resume' : 'Pause'}
+      </button>
+      <input
+        type="range"
+        min={0}
+        max={1}
+        step={0.05}
+        value={session.outputVolume ?? 1}
+        onChange={(e) => setOutputVolume(Number(e.target.value))}
+        aria-label="Output volume"
+      />
+      {/* Browsers without setSinkId only list the default device */}
+      {devices.length > 1 && (
+        <select
+          value={session.outputDeviceId ?? ''}
+          onChange={(e) => {
+            setError(null);
+            setOutputDevice(e.target.value || null).catch(() =>
+              setError('Failed to switch speaker')
+            );
+          }}
+          className="border border-gray-300 rounded px-2 py-1 bg-white text-gray-700"
+        >
+          <option value="">Default speaker</option>
+          {devices
+            .filter((device) => device.deviceId !== 'default')
+            .map((device) => (
+              <option key={device.deviceId} value={device.deviceId}>
+                {device.label || 'Speaker'}
+              </option>
+            ))}
+        </select>
+      )}
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default OutputControls;
@@ -1,13 +1,19 @@
 'use client';
 
 import React, { useState, useRef } from 'react';
+import { floatToBase64PCM16, PCM16_SAMPLE_RATE } from '../utils/audio';
 
 interface Props {
+  onRecordingStarted?: () => void;
   onRecording: (base64Audio: string) => void;
   onRecordingStopped: () => void;
 }
 
-const PushToTalk: React.FC<Props> = ({ onRecording, onRecordingStopped }) => {
+const PushToTalk: React.FC<Props> = ({
+  onRecordingStarted,
+  onRecording,
+  onRecordingStopped,
+}) => {
   const [isRecording, setIsRecording] = useState(false);
   const audioContextRef = useRef<AudioContext | null>(null);
   const processorRef = useRef<ScriptProcessorNode | null>(null);
@@ -15,10 +21,11 @@ const PushToTalk: React.FC<Props> = ({ onRecording, onRecordingStopped }) => {
 
   const handleStartRecording = async () => {
     setIsRecording(true);
+    onRecordingStarted?.();
 
     // Create an AudioContext
     const audioContext = new AudioContext({
-      sampleRate: 24000, // Set sample rate to 24kHz
+      sampleRate: PCM16_SAMPLE_RATE, // Set sample rate to 24kHz
     });
     audioContextRef.current = audioContext;
 
@@ -39,17 +46,9 @@ const PushToTalk: React.FC<Props> = ({ onRecording, onRecordingStopped }) => {
     processor.onaudioprocess = (event) => {
       const inputBuffer = event.inputBuffer;
       const rawData = inputBuffer.getChannelData(0); // Get mono audio data
-      const pcm16Data = new Int16Array(rawData.length);
-
-      // Convert Float32Array to Int16Array (PCM16)
-      for (let i = 0; i < rawData.length; i++) {
-        pcm16Data[i] = Math.max(-1, Math.min(1, rawData[i])) * 0x7fff; // Scale to Int16 range
-      }
 
       // Encode PCM16 as Base64
-      const base64Audio = btoa(
-        String.fromCharCode(...new Uint8Array(pcm16Data.buffer))
-      );
+      const base64Audio = floatToBase64PCM16(rawData);
 
       // Send the audio chunk to the session
       onRecording(base64Audio);
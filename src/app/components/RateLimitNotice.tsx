@@ -0,0 +1,24 @@
+import React from 'react';
+
+interface RateLimitNoticeProps {
+  /**
+   * Number of events held until the rate limits reset.
+   */
+  waiting: number;
+  resumeTime?: string | null;
+}
+
+const RateLimitNotice: React.FC<RateLimitNoticeProps> = ({
+  waiting,
+  resumeTime,
+}) => (
+  <div className="bg-yellow-50 border border-yellow-300 text-yellow-800 rounded-md px-4 py-2 text-sm">
+    Rate limit reached.{' '}
+    {waiting > 0
+      ? `${waiting} ${waiting === 1 ? 'request' : 'requests'} waiting`
+      : 'New responses will wait'}
+    {resumeTime && ` until ${new Date(resumeTime).toLocaleTimeString()}`}.
+  </div>
+);
+
+export default RateLimitNotice;
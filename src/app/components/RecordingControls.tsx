@@ -0,0 +1,85 @@
+'use client';
+
+import React, { useEffect, useState } from 'react';
+import { useSession } from '../context/OpenAIRealtimeWebRTC';
+import {
+  EventCallback,
+  RealtimeEventType,
+  RecordingFormat,
+  RecordingMode,
+} from '../types';
+import { downloadFile } from '../utils/download';
+
+const RecordingControls: React.FC = () => {
+  const { session, startRecording, stopRecording, on, off } = useSession();
+  const [mode, setMode] = useState(RecordingMode.STEREO);
+  const [format, setFormat] = useState(RecordingFormat.WEBM);
+  const [error, setError] = useState<string | null>(null);
+
+  // Download every recording, including those stopped by a disconnect
+  useEffect(() => {
+    const handleRecordingStopped: EventCallback<
+      RealtimeEventType.RECORDING_STOPPED
+    > = ({ recording }) => {
+      const extension = recording.mimeType === 'audio/wav' ? 'wav' : 'webm';
+      downloadFile(
+        recording.blob,
+        `${recording.sessionId}-recording.${extension}`,
+        recording.mimeType
+      );
+    };
+    on(RealtimeEventType.RECORDING_STOPPED, handleRecordingStopped);
+    return () => {
+      off(RealtimeEventType.RECORDING_STOPPED, handleRecordingStopped);
+    };
+  }, [on, off]);
+
+  if (!session?.mediaStream) {
+    return null;
+  }
+
+  return (
+    <div className="flex items-center space-x-2">
+      <button
+        onClick={() => {
+          setError(null);
+          if (session.isRecording) {
+            stopRecording().catch(() => setError('Failed to stop recording'));
+          } else {
+            startRecording({ mode, format }).catch(() =>
+              setError('Failed to start recording')
+            );
+          }
+        }}
+        className={`px-3 py-1 rounded text-white ${
+          session.isRecording
+            ? 'bg-red-500 hover:bg-red-600'
+            : 'bg-gray-500 hover:bg-gray-600'
+        }`}
+      >
+        {session.isRecording ? 'Stop Recording' : 'Record'}
+      </button>
+      <select
+        value={mode}
+        onChange={(e) => setMode(e.target.value as RecordingMode)}
+        disabled={session.isRecording}
+        className="border border-gray-300 rounded px-2 py-1 bg-white text-gray-700"
+      >
+        <option value={RecordingMode.STEREO}>Stereo</option>
+        <option value={RecordingMode.MIXED}>Mixed</option>
+      </select>
+      <select
+        value={format}
+        onChange={(e) => setFormat(e.target.value as RecordingFormat)}
+        disabled={session.isRecording}
+        className="border border-gray-300 rounded px-2 py-1 bg-white text-gray-700"
+      >
+        <option value={RecordingFormat.WEBM}>WebM</option>
+        <option value={RecordingFormat.WAV}>WAV</option>
+      </select>
+      {error && <span className="text-sm text-red-600">{error}</span>}
+    </div>
+  );
+};
+
+export default RecordingControls;
@@ -0,0 +1,108 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { useSession } from '../context/OpenAIRealtimeWebRTC';
+import { getConversationItems } from '../core/conversation';
+import { StoredSession, StoredSessionSummary } from '../types';
+import Transcripts from './Transcripts';
+import TranscriptExportMenu from './TranscriptExportMenu';
+
+const SessionHistory: React.FC = () => {
+  const {
+    session,
+    listStoredSessions,
+    loadStoredSession,
+    deleteStoredSession,
+  } = useSession();
+  const [sessions, setSessions] = useState<StoredSessionSummary[]>([]);
+  const [selected, setSelected] = useState<StoredSession | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const refreshSessions = useCallback(() => {
+    listStoredSessions()
+      .then(setSessions)
+      .catch(() => setError('Failed to list past sessions'));
+  }, [listStoredSessions]);
+
+  // Refresh once the current session is saved as closed
+  useEffect(() => {
+    refreshSessions();
+  }, [refreshSessions, session?.endTime]);
+
+  const handleView = (sessionId: string) => {
+    if (selected?.id === sessionId) {
+      setSelected(null);
+      return;
+    }
+    setError(null);
+    loadStoredSession(sessionId)
+      .then(setSelected)
+      .catch(() => setError('Failed to load the session'));
+  };
+
+  const handleDelete = (sessionId: string) => {
+    setError(null);
+    deleteStoredSession(sessionId)
+      .then(() => {
+        if (selected?.id === sessionId) {
+          setSelected(null);
+        }
+        refreshSessions();
+      })
+      .catch(() => setError('Failed to delete the session'));
+  };
+
+  if (sessions.length === 0 && !error) {
+    return null;
+  }
+
+  return (
+    <div className="border-t pt-4">
+      <h3 className="text-lg font-semibold text-gray-800 mb-2">
+        Past Sessions
+      </h3>
+      {error && <p className="text-sm text-red-600 mb-2">{error}</p>}
+      <ul className="space-y-2">
+        {sessions.map((stored) => (
+          <li key={stored.id} className="text-sm text-gray-600">
+            <div className="flex justify-between items-center">
+              <span>
+                {stored.startTime
+                  ? new Date(stored.startTime).toLocaleString()
+                  : stored.id}{' '}
+                · {Math.round(stored.duration ?? 0)}s · {stored.totalTokens}{' '}
+                tokens
+                {typeof stored.estimatedCost === 'number' &&
+                  ` · $${stored.estimatedCost.toFixed(4)}`}
+              </span>
+              <span className="space-x-2">
+                <button
+                  onClick={() => handleView(stored.id)}
+                  className="text-blue-600 hover:underline"
+                >
+                  {selected?.id === stored.id ? 'Hide' : 'View'}
+                </button>
+                <button
+                  onClick={() => handleDelete(stored.id)}
+                  className="text-red-600 hover:underline"
+                >
+                  Delete
+                </button>
+              </span>
+            </div>
+            {selected?.id === stored.id && (
+              <div className="mt-2 space-y-2">
+                <TranscriptExportMenu session={selected} />
+                <Transcripts
+                  items={getConversationItems(selected.conversation)}
+                />
+              </div>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+};
+
+export default SessionHistory;
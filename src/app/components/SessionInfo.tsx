@@ -1,15 +1,22 @@
 import React from 'react';
+import { DisconnectReason, SessionBudgetType } from '../types';
 
 interface SessionInfoProps {
   startTime?: string;
   endTime?: string;
   duration?: number;
+  clientSecretExpiresIn?: number;
+  disconnectReason?: DisconnectReason;
+  exceededBudget?: SessionBudgetType;
 }
 
 const SessionInfo: React.FC<SessionInfoProps> = ({
   startTime,
   endTime,
   duration,
+  clientSecretExpiresIn,
+  disconnectReason,
+  exceededBudget,
 }) => {
   const formatDateTime = (isoString?: string) => {
     if (!isoString) return 'Not set';
@@ -36,6 +43,30 @@ const SessionInfo: React.FC<SessionInfoProps> = ({
         <span>End:</span>
         <span className="font-medium">{formatDateTime(endTime)}</span>
       </div>
+      {clientSecretExpiresIn !== undefined && (
+        <div className="flex justify-between text-sm text-gray-600 mb-1">
+          <span>Key expires in:</span>
+          <span
+            className={`font-medium ${
+              clientSecretExpiresIn < 30 ? 'text-red-600' : ''
+            }`}
+          >
+            {formatDuration(clientSecretExpiresIn)}
+          </span>
+        </div>
+      )}
+      {disconnectReason && (
+        <div className="flex justify-between text-sm text-gray-600 mb-1">
+          <span>Closed:</span>
+          <span
+            className={`font-medium ${exceededBudget ? 'text-red-600' : ''}`}
+          >
+            {exceededBudget
+              ? `${exceededBudget} budget exceeded`
+              : disconnectReason.replace(/_/g, ' ')}
+          </span>
+        </div>
+      )}
       <div className="flex justify-between text-sm text-gray-800 font-bold border-t border-gray-300 pt-2">
         <span>Duration:</span>
         <span>{formatDuration(duration)}</span>
@@ -35,6 +35,30 @@ const SessionsDebugger: React.FC = () => {
                 : 'Disconnected'}
             </span>
           </div>
+          {session.eventStats && (
+            <div className="flex space-x-4 text-sm mb-2">
+              <span>Events received: {session.eventStats.received}</span>
+              <span
+                className={
+                  session.eventStats.unknown > 0 ? 'text-red-600' : undefined
+                }
+              >
+                Unknown: {session.eventStats.unknown}
+              </span>
+              <span
+                className={
+                  session.eventStats.invalid > 0 ? 'text-red-600' : undefined
+                }
+              >
+                Invalid: {session.eventStats.invalid}
+              </span>
+            </div>
+          )}
+          {Boolean(session.outgoingQueueDepth) && (
+            <p className="text-sm mb-2 text-yellow-700">
+              Queued events: {session.outgoingQueueDepth}
+            </p>
+          )}
           <div className="mt-2 overflow-auto max-h-96">
             <JsonViewer
               value={session}
@@ -1,30 +1,88 @@
 import React from 'react';
+import { ResponseTokenUsage, TokenUsage as TokenUsageTotals } from '../types';
+import { tokenUsageToCsv } from '../utils/tokenUsage';
+import { downloadFile } from '../utils/download';
 
 interface TokenUsageProps {
-  inputTokens: number;
-  outputTokens: number;
-  totalTokens: number;
+  usage: TokenUsageTotals;
+  history?: ResponseTokenUsage[];
+  /**
+   * Estimated cost in USD, null when the model has no price.
+   */
+  estimatedCost?: number | null;
+  /**
+   * Prefix of the exported file name, e.g. the session id.
+   */
+  exportName?: string;
 }
 
+const formatCost = (cost?: number | null) =>
+  cost === undefined || cost === null
+    ? '–'
+    : `$${cost.toFixed(cost < 1 ? 4 : 2)}`;
+
 const TokenUsage: React.FC<TokenUsageProps> = ({
-  inputTokens,
-  outputTokens,
-  totalTokens,
+  usage,
+  history = [],
+  estimatedCost,
+  exportName = 'session',
 }) => {
+  const handleExport = () => {
+    downloadFile(
+      tokenUsageToCsv(history),
+      `${exportName}-token-usage.csv`,
+      'text/csv'
+    );
+  };
+
   return (
     <div className="bg-gray-100 border border-gray-200 rounded-md p-4 w-full max-w-sm shadow-sm">
-      <h3 className="text-lg font-semibold text-gray-800 mb-2">Token Usage</h3>
+      <div className="flex justify-between items-center mb-2">
+        <h3 className="text-lg font-semibold text-gray-800">Token Usage</h3>
+        <button
+          onClick={handleExport}
+          disabled={history.length === 0}
+          className="text-sm text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          Export CSV
+        </button>
+      </div>
       <div className="flex justify-between text-sm text-gray-600 mb-1">
         <span>Input Tokens:</span>
-        <span className="font-medium">{inputTokens}</span>
+        <span className="font-medium">{usage.inputTokens}</span>
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1 pl-2">
+        <span>Text / audio:</span>
+        <span>
+          {usage.inputTextTokens} / {usage.inputAudioTokens}
+        </span>
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1 pl-2">
+        <span>Cached text / audio:</span>
+        <span>
+          {usage.cachedTextTokens} / {usage.cachedAudioTokens}
+        </span>
       </div>
       <div className="flex justify-between text-sm text-gray-600 mb-1">
         <span>Output Tokens:</span>
-        <span className="font-medium">{outputTokens}</span>
+        <span className="font-medium">{usage.outputTokens}</span>
+      </div>
+      <div className="flex justify-between text-xs text-gray-500 mb-1 pl-2">
+        <span>Text / audio:</span>
+        <span>
+          {usage.outputTextTokens} / {usage.outputAudioTokens}
+        </span>
       </div>
       <div className="flex justify-between text-sm text-gray-800 font-bold border-t border-gray-300 pt-2">
         <span>Total Tokens:</span>
-        <span>{totalTokens}</span>
+        <span>{usage.totalTokens}</span>
+      </div>
+      <div className="flex justify-between text-sm text-gray-600 mt-1">
+        <span>
+          Estimated cost ({history.length}{' '}
+          {history.length === 1 ? 'response' : 'responses'}):
+        </span>
+        <span className="font-medium">{formatCost(estimatedCost)}</span>
       </div>
     </div>
   );
@@ -0,0 +1,52 @@
+import React from 'react';
+import { TranscriptExportFormat } from '../types';
+import {
+  exportTranscripts,
+  TranscriptExportSource,
+} from '../utils/transcriptExport';
+import { downloadFile } from '../utils/download';
+
+interface TranscriptExportMenuProps {
+  session: TranscriptExportSource;
+}
+
+const formatLabels: Record<TranscriptExportFormat, string> = {
+  [TranscriptExportFormat.MARKDOWN]: 'Markdown',
+  [TranscriptExportFormat.JSON]: 'JSON',
+  [TranscriptExportFormat.WEBVTT]: 'WebVTT',
+  [TranscriptExportFormat.SRT]: 'SRT',
+};
+
+const TranscriptExportMenu: React.FC<TranscriptExportMenuProps> = ({
+  session,
+}) => {
+  const handleExport = (format: TranscriptExportFormat) => {
+    const { content, mimeType, fileExtension } = exportTranscripts(
+      session,
+      format
+    );
+    downloadFile(
+      content,
+      `${session.id}-transcript.${fileExtension}`,
+      mimeType
+    );
+  };
+
+  return (
+    <div className="flex items-center space-x-2 text-sm">
+      <span className="text-gray-600">Export transcript:</span>
+      {Object.values(TranscriptExportFormat).map((format) => (
+        <button
+          key={format}
+          onClick={() => handleExport(format)}
+          disabled={session.transcripts.length === 0}
+          className="text-blue-600 hover:underline disabled:text-gray-400"
+        >
+          {formatLabels[format]}
+        </button>
+      ))}
+    </div>
+  );
+};
+
+export default TranscriptExportMenu;
@@ -1,32 +1,121 @@
 import React from 'react';
-import { Transcript } from '../types';
+import {
+  ConversationItemStatus,
+  ConversationItemType,
+  ConversationRole,
+  ConversationStoreItem,
+  Transcript,
+  TranscriptStatus,
+} from '../types';
 
 interface TranscriptsProps {
-  transcripts: Transcript[];
+  transcripts?: Transcript[];
+  /**
+   * Conversation items to render instead of the flat transcripts.
+   */
+  items?: ConversationStoreItem[];
 }
 
-const Transcripts: React.FC<TranscriptsProps> = ({ transcripts }) => {
+interface TranscriptEntry {
+  key: string;
+  role: ConversationRole | 'tool';
+  label: string;
+  timestamp: number;
+  content: string;
+  truncated?: boolean;
+  partial?: boolean;
+}
+
+// Flattens an item into the text shown for it
+const getItemEntry = (item: ConversationStoreItem): TranscriptEntry | null => {
+  switch (item.type) {
+    case ConversationItemType.MESSAGE: {
+      const content = (item.content ?? [])
+        .map((part) => part.text ?? part.transcript ?? '')
+        .join(' ')
+        .trim();
+      if (!content) {
+        return null;
+      }
+      return {
+        key: item.id,
+        role: item.role ?? ConversationRole.ASSISTANT,
+        label: item.role === ConversationRole.USER ? 'You' : 'Bot',
+        timestamp: item.createdAt,
+        content,
+        truncated: item.truncatedAtMs !== undefined,
+        partial: item.status === ConversationItemStatus.IN_PROGRESS,
+      };
+    }
+    case ConversationItemType.FUNCTION_CALL:
+      return {
+        key: item.id,
+        role: 'tool',
+        label: 'Function call',
+        timestamp: item.createdAt,
+        content: `${item.name ?? ''}(${item.arguments ?? ''})`,
+      };
+    case ConversationItemType.FUNCTION_CALL_OUTPUT:
+      return {
+        key: item.id,
+        role: 'tool',
+        label: 'Function output',
+        timestamp: item.createdAt,
+        content: item.output ?? '',
+      };
+    default:
+      return null;
+  }
+};
+
+const roleClassNames: Record<TranscriptEntry['role'], string> = {
+  [ConversationRole.USER]: 'bg-blue-100 text-blue-900',
+  [ConversationRole.ASSISTANT]: 'bg-green-100 text-green-900',
+  [ConversationRole.SYSTEM]: 'bg-gray-100 text-gray-900',
+  tool: 'bg-yellow-100 text-yellow-900',
+};
+
+const Transcripts: React.FC<TranscriptsProps> = ({
+  transcripts = [],
+  items,
+}) => {
+  const entries: TranscriptEntry[] = items
+    ? items
+        .map(getItemEntry)
+        .filter((entry): entry is TranscriptEntry => entry !== null)
+    : transcripts.map((transcript, index) => ({
+        key: String(index),
+        role: transcript.role,
+        label: transcript.role === ConversationRole.USER ? 'You' : 'Bot',
+        timestamp: transcript.timestamp,
+        content: transcript.content,
+        truncated: transcript.truncated,
+        partial: transcript.status === TranscriptStatus.PARTIAL,
+      }));
+
   return (
     <div className="overflow-y-auto h-64 border rounded p-4 bg-gray-50">
-      {transcripts
+      {entries
         .slice()
         .reverse()
-        .map((transcript, index) => (
+        .map((entry) => (
           <div
-            key={index}
-            className={`mb-2 p-2 rounded ${
-              transcript.role === 'user'
-                ? 'bg-blue-100 text-blue-900'
-                : 'bg-green-100 text-green-900'
-            }`}
+            key={entry.key}
+            className={`mb-2 p-2 rounded ${roleClassNames[entry.role]}`}
           >
             <p className="text-sm">
-              <strong>{transcript.role === 'user' ? 'You' : 'Bot'}</strong>{' '}
+              <strong>{entry.label}</strong>{' '}
               <span className="text-gray-500 text-xs">
-                {new Date(transcript.timestamp).toLocaleTimeString()}
+                {new Date(entry.timestamp).toLocaleTimeString()}
               </span>
+              {entry.truncated && (
+                <span className="text-gray-500 text-xs"> (interrupted)</span>
+              )}
+            </p>
+            <p className="text-base">
+              {entry.content}
+              {entry.partial && <span className="text-gray-400"> …</span>}
             </p>
-            <p className="text-base">{transcript.content}</p>
           </div>
         ))}
     </div>
@@ -4,12 +4,51 @@ import React, { useEffect, useRef } from 'react';
 
 interface WebRTCPlayerProps {
   remoteStream: MediaStream | null;
+  /**
+   * Receives the audio element playing the stream, e.g. to measure the playback position.
+   */
+  onAudioElement?: (element: HTMLAudioElement | null) => void;
+  /**
+   * Volume of the output, from 0 to 1.
+   */
+  volume?: number;
+  /**
+   * Whether the output is paused.
+   */
+  paused?: boolean;
 }
 
-const WebRTCPlayer: React.FC<WebRTCPlayerProps> = ({ remoteStream }) => {
+const WebRTCPlayer: React.FC<WebRTCPlayerProps> = ({
+  remoteStream,
+  onAudioElement,
+  volume = 1,
+  paused = false,
+}) => {
   const audioRef = useRef<HTMLAudioElement | null>(null);
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
+  useEffect(() => {
+    if (!onAudioElement || !remoteStream) {
+      return;
+    }
+    onAudioElement(audioRef.current);
+    return () => {
+      onAudioElement(null);
+    };
+  }, [onAudioElement, remoteStream]);
+
+  // Reflect the output settings, also on elements attached to a new stream
+  useEffect(() => {
+    const audio = audioRef.current;
+    if (!audio || !remoteStream) {
+      return;
+    }
+    audio.volume = volume;
+    if (paused) {
+      audio.pause();
+    }
+  }, [remoteStream, volume, paused]);
+
   useEffect(() => {
     if (audioRef.current && remoteStream) {
       // Attach the stream to the audio element
@@ -79,8 +118,14 @@ const WebRTCPlayer: React.FC<WebRTCPlayerProps> = ({ remoteStream }) => {
 
   return (
     <div>
-      <audio ref={audioRef} autoPlay controls={false} />
-      <canvas ref={canvasRef} className="w-full h-64 border rounded shadow" />
+      <audio ref={audioRef} autoPlay={!paused} controls={false} />
+      <canvas
+        ref={canvasRef}
+        className={`w-full h-64 border rounded shadow ${paused ? 'opacity-50' : ''}`}
+      />
+      {paused && (
+        <p className="text-gray-500 text-sm italic">Audio output paused</p>
+      )}
     </div>
   );
 };
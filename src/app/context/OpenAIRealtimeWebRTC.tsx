@@ -3,38 +3,37 @@
 import React, {
   createContext,
   useContext,
-  useReducer,
   useEffect,
-  useCallback,
+  useMemo,
   useRef,
+  useSyncExternalStore,
 } from 'react';
 import {
-  Transcript,
   RealtimeSession,
   RealtimeEventType,
-  TranscriptType,
-  ConversationRole,
-  RealtimeEvent,
-  InputAudioBufferAppendEvent,
-  InputAudioBufferCommitEvent,
-  ResponseCreateEvent,
+  RealtimeClientEvent,
   ResponseCreateBody,
-  ConversationItemCreateEvent,
-  ConversationItemType,
-  ContentType,
-  TokenUsage,
-  ResponseDoneEvent,
-  Modality,
-  SessionCloseOptions,
-  ConnectionStatus,
-  RateLimit,
-  RateLimitsUpdatedEvent,
   OpenAIRealtimeWebRTCProviderProps,
   Connect,
   EventCallback,
+  OpenAIFunction,
+  ToolHandler,
+  ConversationStoreItem,
+  ConversationItemCreatedEvent,
+  RequestOptions,
+  ResponseDoneEvent,
+  SessionUpdatedEvent,
+  StoredSession,
+  StoredSessionSummary,
+  Recording,
+  RecordingOptions,
+  JournalEntry,
+  ReplayOptions,
 } from '../types';
-import { createNoopLogger } from '../utils/logger';
-import { EventEmitter } from '../utils/eventEmitter';
+import { RealtimeClient } from '../core/RealtimeClient';
+import { getConversationItems } from '../core/conversation';
+
+export { SessionActionType, sessionReducer } from '../core/sessionReducer';
 
 /**
  * Context type definition for managing OpenAI Realtime WebRTC sessions.
@@ -64,15 +63,37 @@ interface OpenAIRealtimeWebRTCContextType {
    * Sends a text message to a specific session.
    *
    * @param message - The text message content.
+   * @param options - Timeout and abort signal of the request.
+   * @returns The `conversation.item.created` event of the message.
+   */
+  sendTextMessage: (
+    message: string,
+    options?: RequestOptions
+  ) => Promise<ConversationItemCreatedEvent>;
+
+  /**
+   * Updates the configuration of the active session.
+   *
+   * @param session - The configuration fields to change.
+   * @param options - Timeout and abort signal of the request.
+   * @returns The `session.updated` event, or rejects with a `RealtimeRequestError`
+   * for the `error` event related to the update.
    */
-  sendTextMessage: (message: string) => void;
+  updateSession: (
+    session: Partial<RealtimeSession>,
+    options?: RequestOptions
+  ) => Promise<SessionUpdatedEvent>;
 
   /**
    * Sends a custom client event to a specific session.
    *
    * @param event - The custom event payload.
+   * @param options - What to do with the event while rate limited.
    */
-  sendClientEvent: (event: RealtimeEvent) => void;
+  sendClientEvent: (
+    event: RealtimeClientEvent,
+    options?: Pick<RequestOptions, 'rateLimitPolicy'>
+  ) => void;
 
   /**
    * Sends an audio chunk to a specific session for processing.
@@ -90,22 +111,179 @@ interface OpenAIRealtimeWebRTCContextType {
   /**
    * Creates a new response for a specific session.
    * @param response - The response object to be sent.
+   * @param options - Timeout and abort signal of the request.
+   * @returns The `response.done` event of the response.
+   */
+  createResponse: (
+    response?: ResponseCreateBody,
+    options?: RequestOptions
+  ) => Promise<ResponseDoneEvent>;
+
+  /**
+   * Interrupts the assistant: cancels the in-progress response and truncates
+   * its audio at the position the user heard. Called automatically when the
+   * user starts speaking, unless `interruptOnSpeechStart` is disabled.
+   */
+  interrupt: () => void;
+
+  /**
+   * Sets the element playing the session audio, used to measure the playback
+   * position when interrupting.
+   */
+  setAudioElement: (element: HTMLMediaElement | null) => void;
+
+  /**
+   * Mutes the microphone by disabling the outgoing track.
+   */
+  muteMicrophone: () => void;
+
+  /**
+   * Unmutes the microphone.
    */
-  createResponse: (response?: ResponseCreateBody) => void;
+  unmuteMicrophone: () => void;
+
+  /**
+   * Lists the available microphones.
+   */
+  listInputDevices: () => Promise<MediaDeviceInfo[]>;
+
+  /**
+   * Switches the microphone without renegotiating the session.
+   * @param deviceId - The device to capture, null for the system default.
+   */
+  setInputDevice: (deviceId: string | null) => Promise<void>;
+
+  /**
+   * Lists the available speakers.
+   */
+  listOutputDevices: () => Promise<MediaDeviceInfo[]>;
+
+  /**
+   * Routes the assistant audio to a speaker.
+   * @param deviceId - The device to play on, null for the system default.
+   * @returns Whether the device could be selected, false where `setSinkId` is unavailable.
+   */
+  setOutputDevice: (deviceId: string | null) => Promise<boolean>;
+
+  /**
+   * Sets the volume of the assistant audio, from 0 to 1.
+   */
+  setOutputVolume: (volume: number) => void;
+
+  /**
+   * Pauses the assistant audio.
+   */
+  pauseOutput: () => void;
+
+  /**
+   * Resumes the assistant audio.
+   */
+  resumeOutput: () => void;
 
   /**
    * Adds an event listener for a specific event type.
    * @param eventType - The type of event to listen for.
-   * @param callback - The callback function to be called when the event occurs.
+   * @param callback - The callback function to be called when the event occurs,
+   * receiving the event narrowed to its type.
    */
-  on: (eventType: RealtimeEventType, callback: EventCallback) => void;
+  on: <T extends RealtimeEventType>(
+    eventType: T,
+    callback: EventCallback<T>
+  ) => void;
 
   /**
    * Removes an event listener for a specific event type.
    * @param eventType - The type of event to remove the listener for.
    * @param callback - The callback function to be removed.
    */
-  off: (eventType: RealtimeEventType, callback?: EventCallback) => void;
+  off: <T extends RealtimeEventType>(
+    eventType: T,
+    callback?: EventCallback<T>
+  ) => void;
+
+  /**
+   * Registers a tool the model can call. When the model calls it, the handler
+   * result is sent back as a `function_call_output` and a follow-up response is created.
+   * @param definition - The function schema of the tool.
+   * @param handler - The (sync or async) handler executing the tool.
+   */
+  registerTool: (definition: OpenAIFunction, handler: ToolHandler) => void;
+
+  /**
+   * Removes a registered tool.
+   * @param name - The name of the tool to remove.
+   */
+  unregisterTool: (name: string) => void;
+
+  /**
+   * Gets the definitions of all registered tools.
+   */
+  getToolDefinitions: () => OpenAIFunction[];
+
+  /**
+   * Starts recording the microphone and the assistant audio of the session.
+   * The recording stops by itself when the session closes, emitting
+   * `local.recording.stopped`.
+   * @param options - Channel layout (stereo or mixed) and file format.
+   */
+  startRecording: (options?: RecordingOptions) => Promise<void>;
+
+  /**
+   * Stops the recording of the session.
+   * @returns The recorded audio with its duration.
+   */
+  stopRecording: () => Promise<Recording>;
+
+  /**
+   * Lists the sessions persisted by the configured `storage`, most recent first.
+   * Rejects when no storage is configured.
+   */
+  listStoredSessions: () => Promise<StoredSessionSummary[]>;
+
+  /**
+   * Loads a persisted session, or resolves with null if it is not stored.
+   * @param sessionId - The ID of the session to load.
+   */
+  loadStoredSession: (sessionId: string) => Promise<StoredSession | null>;
+
+  /**
+   * Deletes a persisted session.
+   * @param sessionId - The ID of the session to delete.
+   */
+  deleteStoredSession: (sessionId: string) => Promise<void>;
+
+  /**
+   * Gets the events recorded by the configured `eventJournal`, oldest first.
+   * @param sessionId - Only get the events of this session.
+   */
+  getEventJournal: (sessionId?: string) => JournalEntry[];
+
+  /**
+   * Forgets the events recorded by the event journal.
+   */
+  clearEventJournal: () => void;
+
+  /**
+   * Rebuilds a session from the incoming events of a journal instead of
+   * connecting to the server, at real speed or accelerated.
+   * @param entries - The journal, e.g. read with `parseEventJournal`.
+   * @param options - Speed of the replay and session to replay.
+   */
+  replayEventJournal: (
+    entries: JournalEntry[],
+    options?: ReplayOptions
+  ) => Promise<void>;
+
+  /**
+   * Conversation items of the session in conversation order, mirrored from
+   * server events (messages, function calls and their outputs).
+   */
+  conversationItems: ConversationStoreItem[];
+
+  /**
+   * The underlying framework-agnostic client, for use outside of React.
+   */
+  client: RealtimeClient;
 }
 
 // Create the OpenAI Realtime WebRTC context
@@ -124,845 +302,96 @@ export const useSession = (): OpenAIRealtimeWebRTCContextType => {
   return context;
 };
 
-// Enum for action types to avoid hardcoding strings
-export enum SessionActionType {
-  INIT_SESSION = 'INIT_SESSION',
-  UPDATE_SESSION = 'UPDATE_SESSION',
-  ADD_TRANSCRIPT = 'ADD_TRANSCRIPT',
-  UPDATE_TOKEN_USAGE = 'UPDATE_TOKEN_USAGE',
-  MUTE_SESSION_AUDIO = 'MUTE_SESSION_AUDIO',
-  UNMUTE_SESSION_AUDIO = 'UNMUTE_SESSION_AUDIO',
-  UPDATE_RATE_LIMITS = 'UPDATE_RATE_LIMITS',
-}
-
-interface InitSessionAction {
-  type: SessionActionType.INIT_SESSION;
-  payload: RealtimeSession;
-}
-
-interface UpdateSessionAction {
-  type: SessionActionType.UPDATE_SESSION;
-  payload: Partial<RealtimeSession>;
-}
-
-interface AddTranscriptAction {
-  type: SessionActionType.ADD_TRANSCRIPT;
-  payload: { transcript: Transcript };
-}
-
-interface UpdateTokenUsageAction {
-  type: SessionActionType.UPDATE_TOKEN_USAGE;
-  payload: { tokenUsage: TokenUsage };
-}
-
-interface MuteSessionAudioAction {
-  type: SessionActionType.MUTE_SESSION_AUDIO;
-}
-
-interface UnmuteSessionAudioAction {
-  type: SessionActionType.UNMUTE_SESSION_AUDIO;
-}
-
-interface UpdateRateLimitsAction {
-  type: SessionActionType.UPDATE_RATE_LIMITS;
-  payload: {
-    rateLimits: RateLimit[];
-    rateLimitResetTime: string;
-    isRateLimited: boolean;
-  };
-}
-
-// Union type for all actions
-type SessionAction =
-  | InitSessionAction
-  | UpdateSessionAction
-  | AddTranscriptAction
-  | UpdateTokenUsageAction
-  | MuteSessionAudioAction
-  | UnmuteSessionAudioAction
-  | UpdateRateLimitsAction;
-
-// Reducer function
-export const sessionReducer = (
-  state: RealtimeSession | null,
-  action: SessionAction
-): RealtimeSession | null => {
-  switch (action.type) {
-    case SessionActionType.INIT_SESSION:
-      return action.payload;
-    case SessionActionType.UPDATE_SESSION:
-      if (!state) {
-        return null;
-      }
-      return { ...state, ...action.payload };
-    case SessionActionType.ADD_TRANSCRIPT:
-      if (!state) {
-        return null;
-      }
-      return {
-        ...state,
-        transcripts: [...(state?.transcripts || []), action.payload.transcript],
-      };
-    case SessionActionType.UPDATE_TOKEN_USAGE:
-      if (!state) {
-        return null;
-      }
-      return { ...state, tokenUsage: action.payload.tokenUsage };
-    case SessionActionType.MUTE_SESSION_AUDIO:
-      if (!state) {
-        return null;
-      }
-      return { ...state, isMuted: true };
-    case SessionActionType.UNMUTE_SESSION_AUDIO:
-      if (!state) {
-        return null;
-      }
-      return { ...state, isMuted: false };
-    case SessionActionType.UPDATE_RATE_LIMITS:
-      if (!state) {
-        return null;
-      }
-      return {
-        ...state,
-        rateLimits: action.payload.rateLimits,
-        rateLimitResetTime: action.payload.rateLimitResetTime,
-        isRateLimited: action.payload.isRateLimited,
-      };
-    default:
-      // Ensure exhaustive checks in TypeScript
-      throw new Error(`Unhandled action type: ${action}`);
-  }
-};
-
 export const OpenAIRealtimeWebRTCProvider: React.FC<
   OpenAIRealtimeWebRTCProviderProps
 > = ({ config, children }) => {
-  // Validate required config
-  if (!config.realtimeApiUrl) {
-    throw new Error(
-      'realtimeApiUrl is required in OpenAIRealtimeContextConfig'
-    );
-  }
-  if (!config.modelId) {
-    throw new Error('modelId is required in OpenAIRealtimeContextConfig');
+  // The client is created once and validates the config on construction
+  const clientRef = useRef<RealtimeClient | null>(null);
+  if (!clientRef.current) {
+    clientRef.current = new RealtimeClient(config);
   }
+  const client = clientRef.current;
 
-  // Initialize with defaults
-  const defaultConfig = {
-    defaultIceTimeout: 30000, // 30 seconds
-    defaultAudioSettings: {
-      echoCancellation: true,
-      noiseSuppression: true,
-      autoGainControl: true,
-      sampleRate: 48000,
-    },
-    logger: createNoopLogger(),
-  };
-
-  // Merge with provided config, keeping defaults if not provided
-  const mergedConfig = {
-    ...defaultConfig,
-    ...config,
-    // Only merge audio settings if provided
-    defaultAudioSettings:
-      config.defaultAudioSettings ?? defaultConfig.defaultAudioSettings,
-  };
-
-  const [session, dispatch] = useReducer(sessionReducer, null);
-  const eventEmitter = useRef(new EventEmitter());
-  const logger = mergedConfig.logger;
+  const session = useSyncExternalStore(
+    client.subscribe,
+    client.getSnapshot,
+    client.getSnapshot
+  );
+  const conversationItems = useMemo(
+    () => getConversationItems(session?.conversation),
+    [session?.conversation]
+  );
+  const logger = config.logger;
 
   useEffect(() => {
-    logger.info('OpenAIRealtimeWebRTCProvider initialized', {
+    logger?.info('OpenAIRealtimeWebRTCProvider initialized', {
       config,
     });
 
     return () => {
-      logger.info('OpenAIRealtimeWebRTCProvider unmounted', {
+      logger?.info('OpenAIRealtimeWebRTCProvider unmounted', {
         config,
       });
     };
   }, [config, logger]);
 
-  const connect: Connect = async (
-    realtimeSession: RealtimeSession
-    // functionCallHandler?: (name: string, args: Record<string, unknown>) => void
-  ): Promise<void> => {
-    const sessionId = realtimeSession.id;
-    let iceTimeoutId: NodeJS.Timeout | null = null;
-    dispatch({
-      type: SessionActionType.INIT_SESSION,
-      payload: realtimeSession,
-    });
-    try {
-      const pc = new RTCPeerConnection({
-        iceServers: [], // OpenAI handles this
-      });
-
-      // Use session audio settings if provided, otherwise use config default
-      const audioSettings =
-        realtimeSession.audioSettings ?? mergedConfig.defaultAudioSettings;
-
-      // Get user media if audio modality is required and we have audio settings
-      let localStream: MediaStream | undefined;
-      if (
-        realtimeSession.modalities?.includes(Modality.AUDIO) &&
-        audioSettings
-      ) {
-        try {
-          localStream = await navigator.mediaDevices.getUserMedia({
-            audio: audioSettings,
-          });
-          logger.info('Local stream created', { sessionId });
-          localStream.getAudioTracks().forEach((track) => {
-            if (localStream) {
-              pc.addTrack(track, localStream);
-              logger.info('Audio track added', { sessionId });
-              dispatch({
-                type: SessionActionType.UPDATE_SESSION,
-                payload: {
-                  id: sessionId,
-                  hasAudio: true,
-                },
-              });
-            }
-            // Monitor track status
-            track.onended = () => {
-              logger.info('Audio track ended', { sessionId });
-              dispatch({
-                type: SessionActionType.UPDATE_SESSION,
-                payload: {
-                  id: sessionId,
-                  hasAudio: false,
-                },
-              });
-            };
-          });
-        } catch (error: unknown) {
-          logger.error('Failed to get user media:', { sessionId, error });
-          throw new Error('Microphone access failed');
-        }
-      }
-
-      const attemptReconnection = async (
-        pc: RTCPeerConnection
-      ): Promise<void> => {
-        logger.info(`Attempting reconnection for session '${sessionId}'`);
-        try {
-          const offer = await pc.createOffer({
-            iceRestart: true,
-            offerToReceiveAudio: true,
-          });
-          await pc.setLocalDescription(offer);
-          logger.info('Offer created and set local description', {
-            sessionId,
-            offer,
-          });
-          const response = await fetch(
-            `${mergedConfig.realtimeApiUrl}?model=${mergedConfig.modelId}`,
-            {
-              method: 'POST',
-              body: offer.sdp,
-              headers: {
-                Authorization: `Bearer ${realtimeSession.client_secret?.value}`,
-                'Content-Type': 'application/sdp',
-              },
-            }
-          );
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            logger.error('Reconnection failed, error from OpenAI API:', {
-              sessionId,
-              errorText,
-            });
-            throw new Error(errorText);
-          }
-          logger.info('Reconnection successful, received answer SDP', {
-            sessionId,
-            response,
-          });
-
-          const answerSdp = await response.text();
-          await pc.setRemoteDescription(
-            new RTCSessionDescription({
-              type: 'answer',
-              sdp: answerSdp,
-            })
-          );
-          logger.info(`Reconnection successful for session '${sessionId}'`, {
-            sessionId,
-            answerSdp,
-          });
-          // Update session state to "CONNECTED" after successful reconnection
-          dispatch({
-            type: SessionActionType.UPDATE_SESSION,
-            payload: {
-              id: sessionId,
-              connectionStatus: ConnectionStatus.CONNECTED,
-              lastStateChange: new Date().toISOString(),
-            },
-          });
-        } catch (error: unknown) {
-          logger.error(`Failed to reconnect session '${sessionId}':`, {
-            sessionId,
-            error,
-          });
-        }
-      };
-
-      // Set ICE timeout from config
-      const iceTimeout = mergedConfig.defaultIceTimeout || 30000;
-      iceTimeoutId = setTimeout(() => {
-        if (pc.iceConnectionState !== 'connected') {
-          logger.error(`ICE connection timeout for session '${sessionId}'`);
-          // handle timeout
-          cleanupWebRTCResources();
-        }
-      }, iceTimeout);
-
-      // Enhance ICE connection monitoring with reconnection logic
-      const monitorConnectionState = (pc: RTCPeerConnection) => {
-        pc.oniceconnectionstatechange = () => {
-          const state = pc.iceConnectionState;
-          logger.info(`ICE Connection State for session '${sessionId}':`, {
-            sessionId,
-            state,
-          });
-
-          switch (state) {
-            case 'checking':
-              dispatch({
-                type: SessionActionType.UPDATE_SESSION,
-                payload: {
-                  connectionStatus: ConnectionStatus.CONNECTING,
-                  lastStateChange: new Date().toISOString(),
-                },
-              });
-              break;
-
-            case 'connected':
-            case 'completed':
-              if (iceTimeoutId) {
-                clearTimeout(iceTimeoutId);
-                iceTimeoutId = null;
-              }
-              dispatch({
-                type: SessionActionType.UPDATE_SESSION,
-                payload: {
-                  connectionStatus: ConnectionStatus.CONNECTED,
-                  lastStateChange: new Date().toISOString(),
-                },
-              });
-              break;
-
-            case 'disconnected':
-              dispatch({
-                type: SessionActionType.UPDATE_SESSION,
-                payload: {
-                  connectionStatus: ConnectionStatus.DISCONNECTED,
-                  lastStateChange: new Date().toISOString(),
-                },
-              });
-              logger.warn(
-                `Session '${sessionId}' disconnected. Attempting reconnection...`
-              );
-              // Delay before starting the reconnection to avoid immediate retry
-              setTimeout(() => {
-                dispatch({
-                  type: SessionActionType.UPDATE_SESSION,
-                  payload: {
-                    connectionStatus: ConnectionStatus.RECONNECTING, // using enum value here
-                    lastStateChange: new Date().toISOString(),
-                  },
-                });
-                attemptReconnection(pc);
-              }, 2000);
-              break;
-
-            case 'failed':
-              if (iceTimeoutId) {
-                clearTimeout(iceTimeoutId);
-                iceTimeoutId = null;
-              }
-              dispatch({
-                type: SessionActionType.UPDATE_SESSION,
-                payload: {
-                  connectionStatus: ConnectionStatus.FAILED,
-                  lastStateChange: new Date().toISOString(),
-                },
-              });
-              cleanupWebRTCResources();
-              break;
-
-            case 'closed':
-              if (iceTimeoutId) {
-                clearTimeout(iceTimeoutId);
-                iceTimeoutId = null;
-              }
-              dispatch({
-                type: SessionActionType.UPDATE_SESSION,
-                payload: {
-                  connectionStatus: ConnectionStatus.CLOSED,
-                  lastStateChange: new Date().toISOString(),
-                },
-              });
-              cleanupWebRTCResources();
-              break;
-
-            default:
-              // Ensure exhaustive check using enums where possible
-              throw new Error(`Unhandled ICE connection state: ${state}`);
-          }
-        };
-
-        // Set ICE connection timeout remains as before
-        iceTimeoutId = setTimeout(() => {
-          logger.error(`ICE connection timeout for session '${sessionId}'`);
-          cleanupWebRTCResources();
-        }, 30000); // 30 second timeout
-      };
-
-      // Initialize peer connection with monitoring
-      monitorConnectionState(pc);
-
-      // Create data channel
-      const dc = pc.createDataChannel(sessionId);
-
-      pc.onnegotiationneeded = async () => {
-        try {
-          logger.info(`Negotiation needed for session '${sessionId}'`);
-
-          const offer = await pc.createOffer({
-            offerToReceiveAudio: true,
-          });
-
-          logger.info('Generated offer SDP:', { sessionId, offer: offer.sdp }); // Debug log
-
-          await pc.setLocalDescription(offer);
-
-          const response = await fetch(
-            `${mergedConfig.realtimeApiUrl}?model=${mergedConfig.modelId}`,
-            {
-              method: 'POST',
-              body: offer.sdp,
-              headers: {
-                Authorization: `Bearer ${realtimeSession.client_secret?.value}`,
-                'Content-Type': 'application/sdp',
-              },
-            }
-          );
-
-          if (!response.ok) {
-            const errorText = await response.text();
-            logger.error('OpenAI API error:', { sessionId, errorText });
-            throw new Error(errorText);
-          }
-
-          const answerSdp = await response.text();
-          logger.info('Received answer SDP:', { sessionId, answerSdp }); // Debug log
-
-          await pc.setRemoteDescription(
-            new RTCSessionDescription({
-              type: 'answer',
-              sdp: answerSdp,
-            })
-          );
-
-          logger.info(`Negotiation completed for session '${sessionId}'`, {
-            sessionId,
-            answerSdp,
-          });
-        } catch (error: unknown) {
-          logger.error(`Failed to negotiate session '${sessionId}':`, {
-            sessionId,
-            error,
-          });
-          throw error;
-        }
-      };
-
-      // Handle tracks with cleanup
-      pc.ontrack = (event) => {
-        logger.info(`Remote stream received for session '${sessionId}'.`);
-        event.track.onended = () => {
-          if (session) {
-            cleanupWebRTCResources();
-          }
-        };
-
-        dispatch({
-          type: SessionActionType.UPDATE_SESSION,
-          payload: {
-            mediaStream: event.streams[0],
-          },
-        });
-      };
-
-      // Add event listeners to handle data channel lifecycle
-      dc.addEventListener('open', () => {
-        dispatch({
-          type: SessionActionType.UPDATE_SESSION,
-          payload: {
-            connectionStatus: ConnectionStatus.CONNECTED,
-          },
-        });
-
-        logger.info(`Data channel for session '${sessionId}' is open.`);
-      });
-
-      dc.addEventListener('message', handleDataChannelMessage);
-
-      dc.addEventListener('close', () => {
-        logger.info(`Session '${sessionId}' closed.`);
-        disconnect();
-      });
-    } catch (error: unknown) {
-      logger.error(`Failed to start session '${sessionId}':`, {
-        sessionId,
-        error,
-      });
-      if (iceTimeoutId) {
-        clearTimeout(iceTimeoutId);
-      }
-      throw error;
-    }
-  };
-
-  /**
-   * Closes an existing WebRTC session.
-   * Cleans up the peer connection, data channel, and removes the session from the state.
-   *
-   * @param sessionId - The unique identifier of the session to close.
-   */
-  const disconnect = (
-    options: SessionCloseOptions = { removeAfterConnectionClose: true }
-  ): void => {
-    if (!session) {
-      return;
-    }
-
-    cleanupWebRTCResources();
-    const sessionId = session.id;
-    const endTime = new Date().toISOString();
-    const startTimeMs = session.startTime
-      ? new Date(session.startTime).getTime()
-      : 0;
-    const endTimeMs = new Date(endTime).getTime();
-    const duration = startTimeMs ? (endTimeMs - startTimeMs) / 1000 : 0;
-
-    // Update session state
-    dispatch({
-      type: SessionActionType.UPDATE_SESSION,
-      payload: {
-        connectionStatus: ConnectionStatus.CLOSED,
-        endTime,
-        duration,
-      },
-    });
-
-    logger.info(
-      `Session '${sessionId}' connection closed. Duration: ${duration}s. Session ${
-        options.removeAfterConnectionClose ? 'removed from' : 'kept in'
-      } state.`
-    );
-  };
-
-  /**
-   * Sends a client event to a specific WebRTC session.
-   *
-   * @param sessionId - The unique identifier of the session to send the event to.
-   * @param event - The event object to be sent.
-   */
-  const sendClientEvent = (event: RealtimeEvent): void => {
-    if (!session) {
-      return;
-    }
-
-    const { dataChannel } = session;
-    const sessionId = session.id;
-
-    // Ensure the data channel is open before sending the event
-    if (!dataChannel || dataChannel.readyState !== 'open') {
-      logger.error(
-        `Data channel for session '${sessionId}' is not open. Cannot send event.`
-      );
-      return;
-    }
-
-    // Attach a unique event ID if not already provided
-    event.event_id = event.event_id || crypto.randomUUID();
-
-    // Send the event over the session's data channel
-    try {
-      dataChannel.send(JSON.stringify(event));
-      logger.info(`Event sent to session '${sessionId}':`, {
-        sessionId,
-        event,
-      });
-    } catch (error: unknown) {
-      logger.error(`Failed to send event to session '${sessionId}':`, {
-        sessionId,
-        error,
-      });
-    }
-  };
-
-  /**
-   * Sends a text message to a specific WebRTC session.
-   * @param message - The text message to be sent.
-   */
-  const sendTextMessage = (message: string): void => {
-    // Create the conversation item creation event
-    const userEvent: ConversationItemCreateEvent = {
-      type: RealtimeEventType.CONVERSATION_ITEM_CREATE,
-      event_id: crypto.randomUUID(), // Generate a unique event ID
-      item: {
-        type: ConversationItemType.MESSAGE,
-        role: ConversationRole.USER, // Role is 'user' as it's input
-        content: [
-          {
-            type: ContentType.INPUT_TEXT,
-            text: message,
-          },
-        ],
-      },
-    };
-
-    // Send the user message event
-    sendClientEvent(userEvent);
-  };
-
-  /**
-   * Creates a new response - Typically used for non VAD sessions.
-   * @param response - The response object to be sent.
-   */
-  const createResponse = (response: ResponseCreateBody = {}): void => {
-    // Create the response creation event
-    const responseEvent: ResponseCreateEvent = {
-      type: RealtimeEventType.RESPONSE_CREATE,
-      event_id: crypto.randomUUID(),
-      response,
-    };
-
-    // Send the response creation event
-    sendClientEvent(responseEvent);
-  };
-
-  /**
-   * Sends a chunk of audio to a specific WebRTC session.
-   *
-   * @param sessionId - The unique identifier of the session to send the audio to.
-   * @param audioData - The Base64-encoded audio chunk to be sent.
-   */
-  const sendAudioChunk = (audioData: string): void => {
-    const audioChunkEvent: InputAudioBufferAppendEvent = {
-      type: RealtimeEventType.INPUT_AUDIO_BUFFER_APPEND,
-      event_id: crypto.randomUUID(), // Generate a unique event ID
-      audio: audioData,
-    };
-
-    sendClientEvent(audioChunkEvent);
-  };
-
-  /**
-   * Commits the audio buffer for processing in a specific WebRTC session.
-   *
-   */
-  const commitAudioBuffer = (): void => {
-    const commitEvent: InputAudioBufferCommitEvent = {
-      type: RealtimeEventType.INPUT_AUDIO_BUFFER_COMMIT,
-      event_id: crypto.randomUUID(), // Generate a unique event ID
-    };
-
-    sendClientEvent(commitEvent);
-  };
-
-  /**
-   * Utility function to properly cleanup WebRTC resources
-   */
-  const cleanupWebRTCResources = useCallback(() => {
-    if (!session) return;
-
-    // Cleanup media tracks
-    if (session.mediaStream) {
-      session.mediaStream.getTracks().forEach((track) => {
-        track.stop();
-        track.dispatchEvent(new Event('ended'));
-      });
-    }
-
-    // Cleanup data channel
-    if (session.dataChannel) {
-      session.dataChannel.onmessage = null;
-      session.dataChannel.onopen = null;
-      session.dataChannel.onclose = null;
-      session.dataChannel.onerror = null;
-      if (session.dataChannel.readyState !== 'closed') {
-        session.dataChannel.close();
-      }
-    }
-
-    // Cleanup peer connection
-    if (session.peer_connection) {
-      // Remove all event listeners
-      session.peer_connection.onicecandidate = null;
-      session.peer_connection.ontrack = null;
-      session.peer_connection.oniceconnectionstatechange = null;
-      session.peer_connection.onsignalingstatechange = null;
-      session.peer_connection.ondatachannel = null;
-
-      // Close the connection if not already closed
-      if (session.peer_connection.signalingState !== 'closed') {
-        session.peer_connection.close();
-      }
-    }
-
-    // Clear references
-    session.mediaStream = null;
-    session.dataChannel = null;
-    session.peer_connection = null;
-  }, [session]);
-
   // Handle cleanup on page unload
   useEffect(() => {
     const handleBeforeUnload = () => {
-      cleanupWebRTCResources();
+      client.destroy();
     };
 
     window.addEventListener('beforeunload', handleBeforeUnload);
     return () => {
       window.removeEventListener('beforeunload', handleBeforeUnload);
     };
-  }, [session, cleanupWebRTCResources]);
-
-  // Add event handling methods
-  const on = (eventType: RealtimeEventType, callback: EventCallback) => {
-    eventEmitter.current.on(eventType, callback);
-  };
-
-  const off = (eventType: RealtimeEventType, callback?: EventCallback) => {
-    eventEmitter.current.off(eventType, callback);
-  };
-
-  // Update the data channel message handler to emit events
-  const handleDataChannelMessage = (e: MessageEvent<string>) => {
-    try {
-      const event = JSON.parse(e.data) as RealtimeEvent;
-      // Emit the event before processing
-      eventEmitter.current.emit(event);
-
-      // Process the event for internal state management
-      switch (event.type) {
-        case RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_COMPLETED:
-          dispatch({
-            type: SessionActionType.ADD_TRANSCRIPT,
-            payload: {
-              transcript: {
-                content: event.transcript,
-                timestamp: Date.now(),
-                type: TranscriptType.INPUT,
-                role: ConversationRole.USER,
-              },
-            },
-          });
-          break;
-        case RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DONE:
-          dispatch({
-            type: SessionActionType.ADD_TRANSCRIPT,
-            payload: {
-              transcript: {
-                content: event.transcript,
-                timestamp: Date.now(),
-                type: TranscriptType.OUTPUT,
-                role: ConversationRole.ASSISTANT,
-              },
-            },
-          });
-          break;
-        case RealtimeEventType.RESPONSE_OUTPUT_ITEM_DONE:
-          // Check if it's a function call
-          if (event.item.type === ConversationItemType.FUNCTION_CALL) {
-            // TODO: Fix function call handler
-            // config.functionCallHandler(
-            //   event.item.name as string,
-            //   JSON.parse(event.item?.arguments || '{}')
-            // );
-          }
-          break;
-        case RealtimeEventType.RESPONSE_DONE: {
-          const responseEvent = event as ResponseDoneEvent;
-          const usage = responseEvent.response?.usage;
-          if (usage) {
-            // Dispatch token usage to the reducer
-            dispatch({
-              type: SessionActionType.UPDATE_TOKEN_USAGE,
-              payload: {
-                tokenUsage: {
-                  inputTokens: usage.input_tokens,
-                  outputTokens: usage.output_tokens,
-                  totalTokens: usage.total_tokens,
-                },
-              },
-            });
-          }
-          break;
-        }
-        case RealtimeEventType.RATE_LIMITS_UPDATED: {
-          const rateLimitsEvent = event as RateLimitsUpdatedEvent;
-          const maxResetSeconds = Math.max(
-            ...rateLimitsEvent.rate_limits.map((limit) => limit.reset_seconds)
-          );
-          const resetTime = new Date(
-            Date.now() + maxResetSeconds * 1000
-          ).toISOString();
-          const isRateLimited = rateLimitsEvent.rate_limits.some(
-            (limit) => limit.remaining <= 0
-          );
-
-          dispatch({
-            type: SessionActionType.UPDATE_RATE_LIMITS,
-            payload: {
-              rateLimits: rateLimitsEvent.rate_limits,
-              rateLimitResetTime: resetTime,
-              isRateLimited,
-            },
-          });
-
-          // If rate limited, add an error
-          if (isRateLimited && session?.id) {
-            logger.error(`Rate limit exceeded for session '${session.id}'`);
-          }
-          break;
-        }
-        default:
-          break;
-      }
-    } catch (error) {
-      logger.error('Error processing WebRTC message', { error });
-    }
-  };
-
-  // Cleanup listeners when unmounting
+  }, [client]);
+
+  // Release resources and listeners when unmounting
   useEffect(() => {
     return () => {
-      eventEmitter.current.removeAll();
+      client.destroy();
     };
-  }, []);
+  }, [client]);
 
   return (
     <OpenAIRealtimeWebRTCContext.Provider
       value={{
         session,
-        connect,
-        disconnect,
-        sendTextMessage,
-        sendClientEvent,
-        sendAudioChunk,
-        commitAudioBuffer,
-        createResponse,
-        on,
-        off,
+        connect: client.connect,
+        disconnect: client.disconnect,
+        sendTextMessage: client.sendTextMessage,
+        updateSession: client.updateSession,
+        sendClientEvent: client.sendClientEvent,
+        sendAudioChunk: client.sendAudioChunk,
+        commitAudioBuffer: client.commitAudioBuffer,
+        createResponse: client.createResponse,
+        interrupt: client.interrupt,
+        setAudioElement: client.setAudioElement,
+        muteMicrophone: client.muteMicrophone,
+        unmuteMicrophone: client.unmuteMicrophone,
+        listInputDevices: client.listInputDevices,
+        setInputDevice: client.setInputDevice,
+        listOutputDevices: client.listOutputDevices,
+        setOutputDevice: client.setOutputDevice,
+        setOutputVolume: client.setOutputVolume,
+        pauseOutput: client.pauseOutput,
+        resumeOutput: client.resumeOutput,
+        on: client.on,
+        off: client.off,
+        registerTool: client.registerTool,
+        unregisterTool: client.unregisterTool,
+        getToolDefinitions: client.getToolDefinitions,
+        startRecording: client.startRecording,
+        stopRecording: client.stopRecording,
+        listStoredSessions: client.listStoredSessions,
+        loadStoredSession: client.loadStoredSession,
+        deleteStoredSession: client.deleteStoredSession,
+        getEventJournal: client.getEventJournal,
+        clearEventJournal: client.clearEventJournal,
+        replayEventJournal: client.replayEventJournal,
+        conversationItems,
+        client,
       }}
     >
       {children}
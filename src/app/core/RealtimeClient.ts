@@ -0,0 +1,2488 @@
+import {
+  RealtimeSession,
+  RealtimeEventType,
+  TranscriptType,
+  ConversationRole,
+  RealtimeClientEvent,
+  RealtimeServerEvent,
+  RealtimeLocalEvent,
+  InputAudioBufferAppendEvent,
+  InputAudioBufferCommitEvent,
+  ResponseCreateEvent,
+  ResponseCreateBody,
+  ConversationItemCreateEvent,
+  ConversationItemType,
+  ContentType,
+  ResponseDoneEvent,
+  SessionCloseOptions,
+  ConnectionStatus,
+  OpenAIRealtimeContextConfig,
+  EventCallback,
+  FunctionCallDetails,
+  FunctionCallHandler,
+  OpenAIFunction,
+  ToolHandler,
+  AudioSettings,
+  Logger,
+  RealtimeTransport,
+  RealtimeTransportOptions,
+  TransportType,
+  ReconnectionPolicy,
+  ReconnectionGiveUpBehavior,
+  Transcript,
+  ClientSecret,
+  ConversationStoreItem,
+  ResponseCancelEvent,
+  ConversationItemTruncateEvent,
+  ConversationItemCreatedEvent,
+  RequestOptions,
+  SessionUpdatedEvent,
+  EventStats,
+  InputDeviceChangedEvent,
+  NetworkQuality,
+  ModelPricing,
+  DisconnectReason,
+  SessionBudgetType,
+  RateLimitPolicy,
+  SessionStorageAdapter,
+  StoredSession,
+  StoredSessionSummary,
+  Recording,
+  RecordingFormat,
+  RecordingMode,
+  RecordingOptions,
+  RecordingStoppedEvent,
+  JournalDirection,
+  JournalEntry,
+  ReplayOptions,
+  Modality,
+} from '../types';
+import {
+  ClientSecretLifecycle,
+  DEFAULT_MODEL_PRICING,
+  EventValidation,
+  Reconnection,
+  NetworkStatsCollection,
+  Requests,
+  SessionBudgets,
+  SessionPersistence,
+} from '../utils/constants';
+import {
+  fetchClientSecretFromSessionEndpoint,
+  getClientSecretRemainingMs,
+} from '../utils/clientSecret';
+import { computeBackoffDelay } from '../utils/backoff';
+import { getBase64PCM16DurationMs } from '../utils/audio';
+import { NetworkCounters, readNetworkStats } from '../utils/networkStats';
+import { getConversationItems } from './conversation';
+import { toStoredSession } from '../utils/storedSession';
+import { createNoopLogger } from '../utils/logger';
+import { EventEmitter } from '../utils/eventEmitter';
+import { ToolRegistry } from '../utils/toolRegistry';
+import { RequestTracker } from '../utils/requestTracker';
+import { OutgoingEventQueue } from '../utils/outgoingEventQueue';
+import {
+  RateLimitError,
+  RateLimitScheduler,
+} from '../utils/rateLimitScheduler';
+import { LatencyTracker } from '../utils/latencyTracker';
+import { ItemTimingTracker } from '../utils/itemTimingTracker';
+import { ConversationRecorder } from '../utils/conversationRecorder';
+import { EventJournal } from '../utils/eventJournal';
+import {
+  estimateCost,
+  findModelPricing,
+  getResponseTokenUsage,
+} from '../utils/tokenUsage';
+import {
+  EventValidationResult,
+  validateServerEvent,
+} from '../utils/eventValidation';
+import { WebRTCTransport } from './transports/WebRTCTransport';
+import { WebSocketTransport } from './transports/WebSocketTransport';
+import { ReplayTransport } from './transports/ReplayTransport';
+import {
+  SessionAction,
+  SessionActionType,
+  sessionReducer,
+} from './sessionReducer';
+
+/**
+ * Listener notified whenever the session snapshot changes.
+ */
+export type SessionListener = () => void;
+
+/**
+ * Assistant audio content part currently being played back.
+ */
+interface AudioPlayback {
+  itemId: string;
+  contentIndex: number;
+  // performance.now() when playback started
+  startedAt: number;
+  // Audio element playing the output and its time when playback started
+  element: HTMLMediaElement | null;
+  mediaStartTime: number | null;
+  // Duration of the audio received so far, when the transport receives it as deltas
+  receivedAudioMs: number | null;
+}
+
+// Network quality levels, best first
+const networkQualityOrder = [
+  NetworkQuality.EXCELLENT,
+  NetworkQuality.GOOD,
+  NetworkQuality.FAIR,
+  NetworkQuality.POOR,
+];
+
+// `setSinkId` is missing in some browsers, e.g. Safari before 18.4
+const supportsOutputDeviceSelection = (): boolean =>
+  typeof HTMLMediaElement !== 'undefined' &&
+  'setSinkId' in HTMLMediaElement.prototype;
+
+// Server events showing the session is in use, for the idle timeout
+const activityEventTypes = new Set<string>([
+  RealtimeEventType.INPUT_AUDIO_SPEECH_STARTED,
+  RealtimeEventType.INPUT_AUDIO_SPEECH_STOPPED,
+  RealtimeEventType.CONVERSATION_ITEM_CREATED,
+  RealtimeEventType.RESPONSE_CREATED,
+  RealtimeEventType.RESPONSE_DONE,
+]);
+
+const createEventStats = (): EventStats => ({
+  received: 0,
+  unknown: 0,
+  invalid: 0,
+  byType: {},
+});
+
+/**
+ * Framework-agnostic client for the OpenAI Realtime API.
+ * Owns the connection lifecycle and exposes the session as a subscribable snapshot,
+ * so it can be used from plain scripts as well as through the React provider.
+ */
+export class RealtimeClient {
+  private state: RealtimeSession | null = null;
+  private stateListeners: Set<SessionListener> = new Set();
+  private eventEmitter = new EventEmitter();
+  private toolRegistry: ToolRegistry;
+  private config: OpenAIRealtimeContextConfig & {
+    defaultIceTimeout: number;
+    defaultAudioSettings: AudioSettings | null;
+    logger: Logger;
+    fetchClientSecret: (session: RealtimeSession) => Promise<ClientSecret>;
+    clientSecretRefreshMargin: number;
+    interruptOnSpeechStart: boolean;
+    networkStatsInterval: number;
+    pricing: Record<string, ModelPricing>;
+    rateLimitPolicy: RateLimitPolicy;
+  };
+  private logger: Logger;
+  private functionCallHandler?: FunctionCallHandler;
+  // Pending tool executions, keyed by the response that requested them
+  private pendingToolCalls = new Map<string, Promise<void>[]>();
+  private transport: RealtimeTransport | null = null;
+  private reconnectionPolicy: Required<
+    Omit<ReconnectionPolicy, 'createFallbackSession'>
+  > &
+    Pick<ReconnectionPolicy, 'createFallbackSession'>;
+  private isReconnecting = false;
+  private reconnectTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  // Transcripts to replay into a fallback session once it is created
+  private pendingReseed: Transcript[] | null = null;
+  // In-flight client secret refresh, shared by concurrent callers
+  private secretRefresh: Promise<string> | null = null;
+  private secretTimerId: ReturnType<typeof setInterval> | null = null;
+  private nextSecretRefreshAt = 0;
+  private statsTimerId: ReturnType<typeof setInterval> | null = null;
+  // Counters of the previous stats collection, to compute rates
+  private networkCounters: NetworkCounters | null = null;
+  private isCollectingStats = false;
+  private budgetTimerId: ReturnType<typeof setInterval> | null = null;
+  // Budgets already warned about in this session
+  private budgetWarnings = new Set<SessionBudgetType>();
+  private lastActivityAt = 0;
+  private persistTimeoutId: ReturnType<typeof setTimeout> | null = null;
+  private recorder: ConversationRecorder | null = null;
+  private journal: EventJournal | null;
+  private recording: Pick<
+    Recording,
+    'mode' | 'startedAt' | 'sessionId'
+  > | null = null;
+  // Response being generated, cancelled on interruption
+  private activeResponseId: string | null = null;
+  private playback: AudioPlayback | null = null;
+  private audioElement: HTMLMediaElement | null = null;
+  // Microphone chosen through `setInputDevice`, null for the system default
+  private inputDeviceId: string | null = null;
+  // Output settings, applied to the audio element of every session
+  private outputDeviceId: string | null = null;
+  private outputVolume = 1;
+  private isOutputPaused = false;
+  // Client events awaiting a server reply
+  private requests = new RequestTracker();
+  private latency = new LatencyTracker();
+  private itemTimings: ItemTimingTracker;
+  private outgoing = new OutgoingEventQueue({
+    getTransport: () => this.transport,
+    onSent: (event) => {
+      if (this.state && !this.state.isReplay) {
+        this.journal?.recordOutgoing(this.state.id, event);
+      }
+      this.logger.info(`Event sent to session '${this.state?.id}':`, {
+        sessionId: this.state?.id,
+        event,
+      });
+    },
+    onSendFailed: (event, error) => {
+      this.logger.error(
+        `Failed to send event to session '${this.state?.id}':`,
+        {
+          sessionId: this.state?.id,
+          error,
+        }
+      );
+      this.requests.reject(event.event_id as string, error);
+    },
+    onDepthChange: (outgoingQueueDepth) => {
+      if (this.state) {
+        this.dispatch({
+          type: SessionActionType.UPDATE_SESSION,
+          payload: { outgoingQueueDepth },
+        });
+      }
+    },
+  });
+  // Responses and large items held while the rate limits are exhausted
+  private scheduler = new RateLimitScheduler({
+    onRelease: (event) => {
+      this.outgoing.enqueue(event);
+    },
+    onWaitingChange: (rateLimitWaiting, resumeAt) => {
+      if (this.state) {
+        this.dispatch({
+          type: SessionActionType.UPDATE_SESSION,
+          payload: {
+            rateLimitWaiting,
+            rateLimitResumeTime:
+              resumeAt === null ? null : new Date(resumeAt).toISOString(),
+          },
+        });
+      }
+    },
+  });
+
+  private eventStats: EventStats = createEventStats();
+  private eventStatsTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(config: OpenAIRealtimeContextConfig) {
+    // Validate required config
+    if (!config.realtimeApiUrl) {
+      throw new Error(
+        'realtimeApiUrl is required in OpenAIRealtimeContextConfig'
+      );
+    }
+    if (!config.modelId) {
+      throw new Error('modelId is required in OpenAIRealtimeContextConfig');
+    }
+
+    // Initialize with defaults
+    const defaultConfig = {
+      defaultIceTimeout: 30000, // 30 seconds
+      defaultAudioSettings: {
+        echoCancellation: true,
+        noiseSuppression: true,
+        autoGainControl: true,
+        sampleRate: 48000,
+      },
+      logger: createNoopLogger(),
+      fetchClientSecret: fetchClientSecretFromSessionEndpoint,
+      clientSecretRefreshMargin: ClientSecretLifecycle.DEFAULT_REFRESH_MARGIN,
+      interruptOnSpeechStart: true,
+      networkStatsInterval: NetworkStatsCollection.DEFAULT_INTERVAL,
+      rateLimitPolicy: RateLimitPolicy.QUEUE,
+    };
+
+    // Merge with provided config, keeping defaults if not provided
+    this.config = {
+      ...defaultConfig,
+      ...config,
+      defaultIceTimeout:
+        config.defaultIceTimeout ?? defaultConfig.defaultIceTimeout,
+      // Only merge audio settings if provided
+      defaultAudioSettings:
+        config.defaultAudioSettings ?? defaultConfig.defaultAudioSettings,
+      logger: config.logger ?? defaultConfig.logger,
+      fetchClientSecret:
+        config.fetchClientSecret ?? defaultConfig.fetchClientSecret,
+      clientSecretRefreshMargin:
+        config.clientSecretRefreshMargin ??
+        defaultConfig.clientSecretRefreshMargin,
+      interruptOnSpeechStart:
+        config.interruptOnSpeechStart ?? defaultConfig.interruptOnSpeechStart,
+      networkStatsInterval:
+        config.networkStatsInterval ?? defaultConfig.networkStatsInterval,
+      pricing: { ...DEFAULT_MODEL_PRICING, ...config.pricing },
+      rateLimitPolicy: config.rateLimitPolicy ?? defaultConfig.rateLimitPolicy,
+    };
+    this.logger = this.config.logger;
+    this.toolRegistry = new ToolRegistry(config.tools);
+    this.itemTimings = new ItemTimingTracker(
+      this.config.transport ?? TransportType.WEBRTC
+    );
+    this.journal = config.eventJournal
+      ? new EventJournal(config.eventJournal)
+      : null;
+    this.reconnectionPolicy = {
+      enabled: true,
+      maxAttempts: Reconnection.DEFAULT_MAX_ATTEMPTS,
+      initialDelayMs: Reconnection.DEFAULT_INITIAL_DELAY,
+      maxDelayMs: Reconnection.DEFAULT_MAX_DELAY,
+      backoffMultiplier: Reconnection.DEFAULT_BACKOFF_MULTIPLIER,
+      jitter: Reconnection.DEFAULT_JITTER,
+      giveUpBehavior: ReconnectionGiveUpBehavior.DISCONNECT,
+      ...config.reconnection,
+    };
+  }
+
+  /**
+   * Gets the current session snapshot.
+   * The snapshot is immutable and replaced on every change.
+   */
+  getSnapshot = (): RealtimeSession | null => this.state;
+
+  /**
+   * Subscribes to session snapshot changes.
+   * @param listener - Called after every change to the session.
+   * @returns A function removing the listener.
+   */
+  subscribe = (listener: SessionListener): (() => void) => {
+    this.stateListeners.add(listener);
+    return () => {
+      this.stateListeners.delete(listener);
+    };
+  };
+
+  /**
+   * Gets the mirrored conversation items of the session in conversation order.
+   */
+  getConversationItems = (): ConversationStoreItem[] =>
+    getConversationItems(this.state?.conversation);
+
+  /**
+   * Starts recording the microphone and the assistant audio of the active
+   * session. The recording stops by itself when the session closes.
+   * @param options - Channel layout and file format of the recording.
+   */
+  startRecording = async (options: RecordingOptions = {}): Promise<void> => {
+    const session = this.state;
+    if (!session || !this.isSessionActive()) {
+      throw new Error('No active session');
+    }
+    if (this.recorder) {
+      throw new Error('Already recording');
+    }
+    if (!session.mediaStream) {
+      throw new Error('No assistant audio to record');
+    }
+
+    const mode = options.mode ?? RecordingMode.STEREO;
+    const recorder = new ConversationRecorder(
+      this.transport?.getInputStream?.() ?? null,
+      session.mediaStream,
+      mode,
+      options.format ?? RecordingFormat.WEBM
+    );
+    this.recorder = recorder;
+    this.recording = {
+      mode,
+      startedAt: new Date().toISOString(),
+      sessionId: session.id,
+    };
+    try {
+      await recorder.start();
+    } catch (error: unknown) {
+      if (this.recorder === recorder) {
+        this.recorder = null;
+        this.recording = null;
+      }
+      throw error;
+    }
+    this.dispatch({
+      type: SessionActionType.UPDATE_SESSION,
+      payload: { isRecording: true },
+    });
+  };
+
+  /**
+   * Stops the recording of the session.
+   * @returns The recorded audio, with its duration.
+   */
+  stopRecording = (): Promise<Recording> => this.finishRecording('requested');
+
+  /**
+   * Lists the sessions persisted by the configured `storage`, most recent first.
+   */
+  listStoredSessions = async (): Promise<StoredSessionSummary[]> =>
+    this.getStorage().list();
+
+  /**
+   * Loads a session persisted by the configured `storage`.
+   * @returns The session, or null if it is not stored.
+   */
+  loadStoredSession = async (
+    sessionId: string
+  ): Promise<StoredSession | null> => this.getStorage().load(sessionId);
+
+  /**
+   * Deletes a session persisted by the configured `storage`.
+   */
+  deleteStoredSession = async (sessionId: string): Promise<void> =>
+    this.getStorage().delete(sessionId);
+
+  /**
+   * Starts a new session with the OpenAI API over the configured transport.
+   * @param realtimeSession - The session object containing configuration.
+   * @param functionCallHandler - Fallback for function calls without a registered tool.
+   */
+  connect = async (
+    realtimeSession: RealtimeSession,
+    functionCallHandler?: FunctionCallHandler
+  ): Promise<void> => {
+    this.functionCallHandler = functionCallHandler;
+    await this.startSession(realtimeSession);
+  };
+
+  /**
+   * Rebuilds a session from the incoming events of an event journal instead
+   * of connecting to the server. Transcripts, token usage and rate limits are
+   * reduced into the session as they were live, but tools are not executed
+   * and client events are dropped. The session closes once the last event
+   * was replayed.
+   * @param entries - The journal, e.g. read with `parseEventJournal`.
+   * @param options - Speed of the replay and session to replay.
+   */
+  replayEventJournal = async (
+    entries: JournalEntry[],
+    options: ReplayOptions = {}
+  ): Promise<void> => {
+    const speed = options.speed ?? 1;
+    if (!(speed > 0)) {
+      throw new Error('The replay speed must be positive');
+    }
+    const sessionId = options.sessionId ?? entries[0]?.sessionId;
+    const incoming = entries.filter(
+      (entry) =>
+        entry.sessionId === sessionId &&
+        entry.direction === JournalDirection.INCOMING
+    );
+    if (incoming.length === 0) {
+      throw new Error('The journal has no events to replay');
+    }
+
+    // Configure the session as the server created it
+    let createdSession: Partial<RealtimeSession> = {};
+    for (const { event } of incoming) {
+      if (
+        typeof event !== 'string' &&
+        event.type === RealtimeEventType.SESSION_CREATED
+      ) {
+        createdSession = event.session;
+        break;
+      }
+    }
+    this.functionCallHandler = undefined;
+    await this.startSession(
+      {
+        ...createdSession,
+        id: sessionId,
+        object: 'realtime.session',
+        model: createdSession.model ?? this.config.modelId,
+        modalities: createdSession.modalities ?? [Modality.TEXT],
+        transcripts: [],
+        connection_timeout: this.config.defaultIceTimeout,
+        isReplay: true,
+      },
+      new ReplayTransport(incoming, speed, this.logger)
+    );
+  };
+
+  /**
+   * Gets the events recorded by the event journal, oldest first.
+   * Empty when `eventJournal` is not configured.
+   * @param sessionId - Only get the events of this session.
+   */
+  getEventJournal = (sessionId?: string): JournalEntry[] =>
+    this.journal?.getEntries(sessionId) ?? [];
+
+  /**
+   * Forgets the events recorded by the event journal.
+   */
+  clearEventJournal = (): void => {
+    this.journal?.clear();
+  };
+
+  /**
+   * Ends the active session and cleans up its resources.
+   *
+   * @param options - Configuration options for closing behavior.
+   */
+  disconnect = (
+    options: SessionCloseOptions = { removeAfterConnectionClose: true }
+  ): void => {
+    const session = this.state;
+    if (!session) {
+      return;
+    }
+
+    this.cancelReconnection();
+    this.stopClientSecretTimer();
+    this.stopNetworkStatsTimer();
+    this.stopBudgetTimer();
+    this.watchInputDevices(false);
+    this.outgoing.clear();
+    this.scheduler.clear();
+    this.cleanupTransport();
+    this.publishEventStats();
+    const sessionId = session.id;
+    const endTime = new Date().toISOString();
+    const startTimeMs = session.startTime
+      ? new Date(session.startTime).getTime()
+      : 0;
+    const endTimeMs = new Date(endTime).getTime();
+    const duration = startTimeMs ? (endTimeMs - startTimeMs) / 1000 : 0;
+
+    // Update session state
+    this.dispatch({
+      type: SessionActionType.UPDATE_SESSION,
+      payload: {
+        connectionStatus: ConnectionStatus.CLOSED,
+        reconnectAttempts: 0,
+        endTime,
+        duration,
+        disconnectReason: options.reason ?? DisconnectReason.REQUESTED,
+      },
+    });
+    this.persistSession();
+
+    this.logger.info(
+      `Session '${sessionId}' connection closed (${
+        options.reason ?? DisconnectReason.REQUESTED
+      }). Duration: ${duration}s. Session ${
+        options.removeAfterConnectionClose !== false
+          ? 'removed from'
+          : 'kept in'
+      } state.`
+    );
+  };
+
+  /**
+   * Sends a client event to the active session.
+   * Events sent before the transport is open, while it reconnects or while its
+   * send buffer is full are queued and sent in order once possible.
+   * Responses and large items wait while the rate limits are exhausted.
+   *
+   * @param event - The event object to be sent.
+   * @param options - What to do with the event while rate limited.
+   * @throws {RateLimitError} When rate limited and the policy is `FAIL`.
+   */
+  sendClientEvent = (
+    event: RealtimeClientEvent,
+    options: Pick<RequestOptions, 'rateLimitPolicy'> = {}
+  ): void => {
+    if (!this.isSessionActive()) {
+      this.logger.error('No active session. Cannot send event.');
+      return;
+    }
+
+    // Attach a unique event ID if not already provided
+    event.event_id = event.event_id || crypto.randomUUID();
+    const policy = options.rateLimitPolicy ?? this.config.rateLimitPolicy;
+    if (policy !== RateLimitPolicy.QUEUE && this.scheduler.mustWait(event)) {
+      const error = new RateLimitError(this.scheduler.getRetryAfterMs());
+      if (policy === RateLimitPolicy.FAIL) {
+        throw error;
+      }
+      this.logger.warn(`Dropped ${event.type} event: ${error.message}`);
+      return;
+    }
+    this.enqueueEvent(event);
+  };
+
+  /**
+   * Updates the configuration of the active session.
+   * @param session - The configuration fields to change.
+   * @param options - Timeout and abort signal of the request.
+   * @returns The `session.updated` event, or rejects with the `error` event
+   * related to the update.
+   */
+  updateSession = (
+    session: Partial<RealtimeSession>,
+    options?: RequestOptions
+  ): Promise<SessionUpdatedEvent> =>
+    this.sendRequest(
+      { type: RealtimeEventType.SESSION_UPDATE, session },
+      (event): event is SessionUpdatedEvent =>
+        event.type === RealtimeEventType.SESSION_UPDATED,
+      options
+    );
+
+  /**
+   * Sends a text message to the active session.
+   * @param message - The text message to be sent.
+   * @param options - Timeout and abort signal of the request.
+   * @returns The `conversation.item.created` event of the message.
+   */
+  sendTextMessage = (
+    message: string,
+    options?: RequestOptions
+  ): Promise<ConversationItemCreatedEvent> => {
+    // Set the item id so the server reply can be matched to it
+    const itemId = `msg_${crypto.randomUUID().replace(/-/g, '').slice(0, 28)}`;
+
+    // Create the conversation item creation event
+    const userEvent: ConversationItemCreateEvent = {
+      type: RealtimeEventType.CONVERSATION_ITEM_CREATE,
+      event_id: crypto.randomUUID(), // Generate a unique event ID
+      item: {
+        id: itemId,
+        type: ConversationItemType.MESSAGE,
+        role: ConversationRole.USER, // Role is 'user' as it's input
+        content: [
+          {
+            type: ContentType.INPUT_TEXT,
+            text: message,
+          },
+        ],
+      },
+    };
+
+    // Send the user message event
+    return this.sendRequest(
+      userEvent,
+      (event): event is ConversationItemCreatedEvent =>
+        event.type === RealtimeEventType.CONVERSATION_ITEM_CREATED &&
+        event.item.id === itemId,
+      options
+    );
+  };
+
+  /**
+   * Creates a new response - Typically used for non VAD sessions.
+   * @param response - The response object to be sent.
+   * @param options - Timeout and abort signal of the request.
+   * @returns The `response.done` event of the response.
+   */
+  createResponse = (
+    response: ResponseCreateBody = {},
+    options?: RequestOptions
+  ): Promise<ResponseDoneEvent> => {
+    const eventId = crypto.randomUUID();
+    // Bound once `response.created` echoes the event id in the metadata
+    let responseId: string | null = null;
+
+    // Create the response creation event
+    const responseEvent: ResponseCreateEvent = {
+      type: RealtimeEventType.RESPONSE_CREATE,
+      event_id: eventId,
+      response: {
+        ...response,
+        metadata: {
+          ...response.metadata,
+          [Requests.RESPONSE_METADATA_KEY]: eventId,
+        },
+      },
+    };
+
+    // Send the response creation event
+    return this.sendRequest(
+      responseEvent,
+      (event): event is ResponseDoneEvent => {
+        if (
+          event.type === RealtimeEventType.RESPONSE_CREATED &&
+          event.response.metadata?.[Requests.RESPONSE_METADATA_KEY] === eventId
+        ) {
+          responseId = event.response.id;
+        }
+        return (
+          event.type === RealtimeEventType.RESPONSE_DONE &&
+          responseId !== null &&
+          event.response.id === responseId
+        );
+      },
+      options,
+      () => {
+        if (responseId) {
+          const cancelEvent: ResponseCancelEvent = {
+            type: RealtimeEventType.RESPONSE_CANCEL,
+            response_id: responseId,
+          };
+          this.sendClientEvent(cancelEvent);
+        }
+      }
+    );
+  };
+
+  /**
+   * Sends a chunk of audio to the active session.
+   *
+   * @param audioData - The Base64-encoded audio chunk to be sent.
+   */
+  sendAudioChunk = (audioData: string): void => {
+    const audioChunkEvent: InputAudioBufferAppendEvent = {
+      type: RealtimeEventType.INPUT_AUDIO_BUFFER_APPEND,
+      event_id: crypto.randomUUID(), // Generate a unique event ID
+      audio: audioData,
+    };
+
+    this.sendClientEvent(audioChunkEvent);
+  };
+
+  /**
+   * Commits the audio buffer for processing in the active session.
+   */
+  commitAudioBuffer = (): void => {
+    const commitEvent: InputAudioBufferCommitEvent = {
+      type: RealtimeEventType.INPUT_AUDIO_BUFFER_COMMIT,
+      event_id: crypto.randomUUID(), // Generate a unique event ID
+    };
+
+    this.sendClientEvent(commitEvent);
+  };
+
+  /**
+   * Mutes the microphone by disabling the outgoing track, which stays captured.
+   */
+  muteMicrophone = (): void => {
+    if (!this.state) {
+      return;
+    }
+    this.transport?.setMicrophoneEnabled?.(false);
+    this.dispatch({ type: SessionActionType.MUTE_SESSION_AUDIO });
+  };
+
+  /**
+   * Unmutes the microphone muted with `muteMicrophone`.
+   */
+  unmuteMicrophone = (): void => {
+    if (!this.state) {
+      return;
+    }
+    this.transport?.setMicrophoneEnabled?.(true);
+    this.dispatch({ type: SessionActionType.UNMUTE_SESSION_AUDIO });
+  };
+
+  /**
+   * Lists the available microphones. Device labels are only filled in once
+   * microphone access has been granted.
+   */
+  listInputDevices = async (): Promise<MediaDeviceInfo[]> => {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === 'audioinput');
+  };
+
+  /**
+   * Switches the microphone of the active session without renegotiating,
+   * and captures it in later sessions too.
+   * @param deviceId - The device to capture, null for the system default.
+   */
+  setInputDevice = async (deviceId: string | null): Promise<void> => {
+    this.inputDeviceId = deviceId;
+    await this.switchInputDevice(deviceId, 'requested');
+  };
+
+  /**
+   * Interrupts the assistant: cancels the in-progress response, stops its
+   * playback and truncates its audio item at the position the user heard,
+   * so the conversation only contains what was actually played.
+   */
+  interrupt = (): void => {
+    if (this.activeResponseId) {
+      const cancelEvent: ResponseCancelEvent = {
+        type: RealtimeEventType.RESPONSE_CANCEL,
+        response_id: this.activeResponseId,
+      };
+      this.sendClientEvent(cancelEvent);
+      this.activeResponseId = null;
+    }
+    this.transport?.stopPlayback?.();
+
+    const playback = this.playback;
+    this.playback = null;
+    if (!playback) {
+      return;
+    }
+
+    const playedMs = this.getPlayedAudioMs(playback);
+    // Audio that finished playing was heard in full
+    if (
+      playback.receivedAudioMs !== null &&
+      playedMs >= playback.receivedAudioMs
+    ) {
+      return;
+    }
+
+    const truncateEvent: ConversationItemTruncateEvent = {
+      type: RealtimeEventType.CONVERSATION_ITEM_TRUNCATE,
+      item_id: playback.itemId,
+      content_index: playback.contentIndex,
+      audio_end_ms: playedMs,
+    };
+    this.sendClientEvent(truncateEvent);
+    this.dispatch({
+      type: SessionActionType.TRUNCATE_TRANSCRIPT,
+      payload: { itemId: playback.itemId },
+    });
+    this.logger.info(`Interrupted item '${playback.itemId}' at ${playedMs}ms`);
+  };
+
+  /**
+   * Sets the element playing the session audio, used to measure the playback
+   * position on interruption. Without it, the wall clock is used.
+   * @param element - The playing element, or null when it is removed.
+   */
+  setAudioElement = (element: HTMLMediaElement | null): void => {
+    this.audioElement = element;
+    if (element) {
+      this.applyOutputSettings(element);
+    }
+  };
+
+  /**
+   * Lists the available speakers.
+   */
+  listOutputDevices = async (): Promise<MediaDeviceInfo[]> => {
+    const devices = await navigator.mediaDevices.enumerateDevices();
+    return devices.filter((device) => device.kind === 'audiooutput');
+  };
+
+  /**
+   * Routes the assistant audio to a speaker, for this and later sessions.
+   * Browsers without `HTMLMediaElement.setSinkId` keep the system default.
+   * @param deviceId - The device to play on, null for the system default.
+   * @returns Whether the device could be selected.
+   */
+  setOutputDevice = async (deviceId: string | null): Promise<boolean> => {
+    if (!supportsOutputDeviceSelection()) {
+      this.logger.warn('Output device selection is not supported');
+      return false;
+    }
+
+    // Fails when the device does not exist or access to it is denied
+    await this.audioElement?.setSinkId(deviceId ?? '');
+    this.outputDeviceId = deviceId;
+    this.updateOutputState();
+    return true;
+  };
+
+  /**
+   * Sets the volume of the assistant audio, independently of the system volume.
+   * @param volume - The volume, from 0 (silent) to 1 (full).
+   */
+  setOutputVolume = (volume: number): void => {
+    this.outputVolume = Math.min(1, Math.max(0, volume));
+    if (this.audioElement) {
+      this.audioElement.volume = this.outputVolume;
+    }
+    this.updateOutputState();
+  };
+
+  /**
+   * Pauses the assistant audio. Audio received while paused is not replayed.
+   */
+  pauseOutput = (): void => {
+    this.isOutputPaused = true;
+    this.audioElement?.pause();
+    this.updateOutputState();
+  };
+
+  /**
+   * Resumes the assistant audio paused with `pauseOutput`.
+   */
+  resumeOutput = (): void => {
+    this.isOutputPaused = false;
+    this.audioElement?.play().catch((error: unknown) => {
+      this.logger.error('Failed to resume audio output:', { error });
+    });
+    this.updateOutputState();
+  };
+
+  /**
+   * Adds an event listener for a specific event type.
+   * The callback receives the event narrowed to that type.
+   */
+  on = <T extends RealtimeEventType>(
+    eventType: T,
+    callback: EventCallback<T>
+  ): void => {
+    this.eventEmitter.on(eventType, callback);
+  };
+
+  /**
+   * Removes an event listener for a specific event type.
+   */
+  off = <T extends RealtimeEventType>(
+    eventType: T,
+    callback?: EventCallback<T>
+  ): void => {
+    this.eventEmitter.off(eventType, callback);
+  };
+
+  /**
+   * Registers a tool the model can call.
+   */
+  registerTool = (definition: OpenAIFunction, handler: ToolHandler): void => {
+    this.toolRegistry.register(definition, handler);
+  };
+
+  /**
+   * Removes a registered tool.
+   */
+  unregisterTool = (name: string): void => {
+    this.toolRegistry.unregister(name);
+  };
+
+  /**
+   * Gets the definitions of all registered tools.
+   */
+  getToolDefinitions = (): OpenAIFunction[] =>
+    this.toolRegistry.getDefinitions();
+
+  /**
+   * Releases transport resources and removes all event listeners.
+   */
+  destroy = (): void => {
+    // Save pending changes before the page goes away
+    if (this.persistTimeoutId) {
+      this.persistSession();
+    }
+    this.cancelReconnection();
+    this.stopClientSecretTimer();
+    this.stopNetworkStatsTimer();
+    this.stopBudgetTimer();
+    this.watchInputDevices(false);
+    this.outgoing.clear();
+    this.scheduler.clear();
+    this.cleanupTransport();
+    this.resetEventStats();
+    this.eventEmitter.removeAll();
+  };
+
+  /**
+   * Sends a client event and waits for the server event replying to it.
+   * @param event - The client event to send.
+   * @param matches - Whether a server event is the reply.
+   * @param options - Timeout and abort signal of the request.
+   * @param onAbort - Called when the request is aborted.
+   */
+  private sendRequest<T extends RealtimeServerEvent>(
+    event: RealtimeClientEvent,
+    matches: (event: RealtimeServerEvent) => event is T,
+    options: RequestOptions = {},
+    onAbort?: () => void
+  ): Promise<T> {
+    if (!this.isSessionActive()) {
+      return Promise.reject(new Error('No active session'));
+    }
+
+    const policy = options.rateLimitPolicy ?? this.config.rateLimitPolicy;
+    if (policy !== RateLimitPolicy.QUEUE && this.scheduler.mustWait(event)) {
+      const error = new RateLimitError(this.scheduler.getRetryAfterMs());
+      if (policy === RateLimitPolicy.DROP) {
+        this.logger.warn(`Dropped ${event.type} event: ${error.message}`);
+      }
+      return Promise.reject(error);
+    }
+
+    const eventId = event.event_id || crypto.randomUUID();
+    event.event_id = eventId;
+    const reply = this.requests.track(eventId, matches, {
+      timeoutMs: options.timeoutMs ?? Requests.DEFAULT_TIMEOUT,
+      signal: options.signal,
+      onAbort: () => {
+        // An event aborted before it was sent needs no further handling
+        if (!this.outgoing.remove(eventId) && !this.scheduler.remove(eventId)) {
+          onAbort?.();
+        }
+      },
+      // The caller was told the request failed, so it must not be sent late
+      onTimeout: () => {
+        if (!this.outgoing.remove(eventId)) {
+          this.scheduler.remove(eventId);
+        }
+      },
+    });
+    if (options.signal?.aborted) {
+      return reply;
+    }
+
+    this.enqueueEvent(event);
+    return reply;
+  }
+
+  /**
+   * Queues an event for sending, or holds it until the rate limits reset.
+   */
+  private enqueueEvent(event: RealtimeClientEvent): void {
+    if (this.scheduler.mustWait(event)) {
+      this.logger.info(
+        `Holding ${event.type} event until the rate limits reset`
+      );
+      this.scheduler.hold(event);
+    } else {
+      this.outgoing.enqueue(event);
+    }
+  }
+
+  /**
+   * Whether client events can be sent or queued: the session has a transport
+   * or is getting a new one.
+   */
+  private isSessionActive(): boolean {
+    return Boolean(this.state && (this.transport || this.isReconnecting));
+  }
+
+  /**
+   * Applies an action to the session and notifies subscribers.
+   */
+  private dispatch(action: SessionAction): void {
+    const previousSession = this.state;
+    this.state = sessionReducer(this.state, action);
+    // A replaced session is saved as it was before its replacement
+    if (previousSession && previousSession.id !== this.state?.id) {
+      this.persistSession(previousSession);
+    }
+    this.schedulePersist();
+    this.stateListeners.forEach((listener) => listener());
+  }
+
+  /**
+   * Stops the recorder and reports the recording.
+   */
+  private async finishRecording(
+    reason: RecordingStoppedEvent['reason']
+  ): Promise<Recording> {
+    const recorder = this.recorder;
+    const recording = this.recording;
+    if (!recorder || !recording) {
+      throw new Error('Not recording');
+    }
+    this.recorder = null;
+    this.recording = null;
+    if (this.state?.isRecording) {
+      this.dispatch({
+        type: SessionActionType.UPDATE_SESSION,
+        payload: { isRecording: false },
+      });
+    }
+
+    const audio = await recorder.stop();
+    const result: Recording = { ...audio, ...recording };
+    this.logger.info(
+      `Recording of session '${recording.sessionId}' stopped after ${Math.round(
+        audio.durationMs / 1000
+      )}s`
+    );
+    this.emitLocalEvent({
+      type: RealtimeEventType.RECORDING_STOPPED,
+      recording: result,
+      reason,
+    });
+    return result;
+  }
+
+  private getStorage(): SessionStorageAdapter {
+    if (!this.config.storage) {
+      throw new Error('No session storage configured');
+    }
+    return this.config.storage;
+  }
+
+  /**
+   * Saves the session after a short delay, batching the state changes made
+   * in the meantime.
+   */
+  private schedulePersist(): void {
+    if (
+      !this.config.storage ||
+      !this.state ||
+      this.state.isReplay ||
+      this.persistTimeoutId
+    ) {
+      return;
+    }
+    this.persistTimeoutId = setTimeout(() => {
+      this.persistTimeoutId = null;
+      this.persistSession();
+    }, SessionPersistence.SAVE_DELAY);
+  }
+
+  /**
+   * Saves a session to the configured storage right away.
+   * @param session - The session to save, the current one by default.
+   */
+  private persistSession(session: RealtimeSession | null = this.state): void {
+    const storage = this.config.storage;
+    // Replays rebuild a session that was persisted when it ran
+    if (!storage || !session || session.isReplay) {
+      return;
+    }
+    if (session === this.state && this.persistTimeoutId) {
+      clearTimeout(this.persistTimeoutId);
+      this.persistTimeoutId = null;
+    }
+    storage.save(toStoredSession(session)).catch((error: unknown) => {
+      this.logger.error(`Failed to save session '${session.id}':`, {
+        sessionId: session.id,
+        error,
+      });
+    });
+  }
+
+  /**
+   * Emits an event generated by the client itself.
+   */
+  private emitLocalEvent(event: RealtimeLocalEvent): void {
+    this.eventEmitter.emit({ ...event, timestamp: Date.now() });
+  }
+
+  /**
+   * Replaces the current session with a new one and connects it.
+   * @param realtimeSession - The session to start.
+   * @param transport - The transport to connect, the configured one by default.
+   */
+  private async startSession(
+    realtimeSession: RealtimeSession,
+    transport?: RealtimeTransport
+  ): Promise<void> {
+    this.cancelReconnection();
+    this.outgoing.clear();
+    this.scheduler.clear();
+    this.cleanupTransport();
+    this.resetEventStats();
+    this.isOutputPaused = false;
+    this.dispatch({
+      type: SessionActionType.INIT_SESSION,
+      payload: {
+        ...realtimeSession,
+        ...this.getOutputState(),
+        startTime: new Date().toISOString(),
+      },
+    });
+    this.startClientSecretTimer();
+    this.startNetworkStatsTimer();
+    this.startBudgetTimer();
+    this.watchInputDevices(true);
+    await this.openTransport(realtimeSession, transport);
+  }
+
+  /**
+   * Creates and connects the transport for a session.
+   * @param realtimeSession - The session to connect.
+   * @param customTransport - The transport to connect, the configured one by default.
+   */
+  private async openTransport(
+    realtimeSession: RealtimeSession,
+    customTransport?: RealtimeTransport
+  ): Promise<void> {
+    const sessionId = realtimeSession.id;
+    try {
+      const transport =
+        customTransport ?? this.createTransport(realtimeSession);
+      this.transport = transport;
+      await transport.connect(realtimeSession, {
+        onMessage: this.handleMessage,
+        onSessionUpdate: (update) => {
+          // Ignore updates from a transport that has been replaced
+          if (this.transport !== transport) {
+            return;
+          }
+          if (this.isReconnecting) {
+            // The connection recovered by itself or through a restart
+            if (update.connectionStatus === ConnectionStatus.CONNECTED) {
+              this.completeReconnection();
+              return;
+            }
+            // Keep reporting RECONNECTING until the policy settles
+            update = { ...update };
+            delete update.connectionStatus;
+            delete update.lastStateChange;
+          }
+          this.dispatch({
+            type: SessionActionType.UPDATE_SESSION,
+            payload: update,
+          });
+        },
+        onClose: () => {
+          if (this.transport === transport) {
+            this.disconnect({
+              reason: this.state?.isReplay
+                ? DisconnectReason.REPLAY_FINISHED
+                : DisconnectReason.CONNECTION_CLOSED,
+            });
+          }
+        },
+        onConnectionLost: () => {
+          if (this.transport === transport) {
+            this.handleConnectionLost(transport);
+          }
+        },
+        onDrain: () => {
+          if (this.transport === transport) {
+            this.outgoing.flush();
+          }
+        },
+        onInputAudio: (audio) => {
+          if (this.transport === transport) {
+            this.sendAudioChunk(audio);
+          }
+        },
+      });
+    } catch (error: unknown) {
+      this.logger.error(`Failed to start session '${sessionId}':`, {
+        sessionId,
+        error,
+      });
+      this.cleanupTransport();
+      throw error;
+    }
+  }
+
+  /**
+   * Starts recovering a lost connection according to the reconnection policy.
+   */
+  private handleConnectionLost(transport: RealtimeTransport): void {
+    if (this.isReconnecting) {
+      return;
+    }
+    this.isReconnecting = true;
+
+    if (!this.reconnectionPolicy.enabled || !transport.restart) {
+      this.exhaustReconnection(0);
+      return;
+    }
+    this.scheduleReconnection(transport, 1);
+  }
+
+  /**
+   * Schedules an in-place reconnection attempt after the backoff delay.
+   * @param transport - The transport to restart.
+   * @param attempt - The 1-based number of the attempt.
+   */
+  private scheduleReconnection(
+    transport: RealtimeTransport,
+    attempt: number
+  ): void {
+    const { maxAttempts } = this.reconnectionPolicy;
+    if (attempt > maxAttempts) {
+      this.exhaustReconnection(maxAttempts);
+      return;
+    }
+
+    const sessionId = this.state?.id;
+    const delayMs = computeBackoffDelay(this.reconnectionPolicy, attempt);
+    this.dispatch({
+      type: SessionActionType.UPDATE_SESSION,
+      payload: {
+        connectionStatus: ConnectionStatus.RECONNECTING,
+        reconnectAttempts: attempt,
+        lastStateChange: new Date().toISOString(),
+      },
+    });
+    this.emitLocalEvent({
+      type: RealtimeEventType.RECONNECT_ATTEMPT,
+      attempt,
+      maxAttempts,
+      delayMs,
+    });
+    this.logger.warn(
+      `Reconnecting session '${sessionId}' in ${delayMs}ms (attempt ${attempt}/${maxAttempts})`
+    );
+
+    this.reconnectTimeoutId = setTimeout(async () => {
+      this.reconnectTimeoutId = null;
+      try {
+        await transport.restart?.();
+        if (this.transport === transport) {
+          this.completeReconnection();
+        }
+      } catch (error: unknown) {
+        if (this.transport !== transport || !this.isReconnecting) {
+          return;
+        }
+        this.logger.error(`Failed to reconnect session '${sessionId}':`, {
+          sessionId,
+          attempt,
+          error,
+        });
+        this.scheduleReconnection(transport, attempt + 1);
+      }
+    }, delayMs);
+  }
+
+  /**
+   * Marks the ongoing reconnection as successful.
+   */
+  private completeReconnection(): void {
+    if (!this.isReconnecting) {
+      return;
+    }
+    const attempt = this.state?.reconnectAttempts ?? 0;
+    this.cancelReconnection();
+    this.dispatch({
+      type: SessionActionType.UPDATE_SESSION,
+      payload: {
+        connectionStatus: ConnectionStatus.CONNECTED,
+        reconnectAttempts: 0,
+        lastStateChange: new Date().toISOString(),
+      },
+    });
+    this.emitLocalEvent({
+      type: RealtimeEventType.RECONNECT_SUCCEEDED,
+      attempt,
+    });
+    this.logger.info(`Reconnection successful for session '${this.state?.id}'`);
+  }
+
+  /**
+   * Falls back to a brand-new session if configured, otherwise gives up.
+   * @param attempts - Number of in-place attempts made.
+   */
+  private async exhaustReconnection(attempts: number): Promise<void> {
+    const previousSession = this.state;
+    const { enabled, createFallbackSession } = this.reconnectionPolicy;
+
+    if (enabled && createFallbackSession && previousSession) {
+      try {
+        this.logger.warn(
+          `Replacing session '${previousSession.id}' with a new session`
+        );
+        const newSession = await createFallbackSession(previousSession);
+        // Disconnected while the new session was being created
+        if (!this.isReconnecting) {
+          return;
+        }
+        await this.replaceSession(previousSession, newSession);
+        return;
+      } catch (error: unknown) {
+        this.logger.error(
+          `Failed to replace session '${previousSession.id}':`,
+          { sessionId: previousSession.id, error }
+        );
+        if (!this.isReconnecting) {
+          return;
+        }
+      }
+    }
+
+    this.giveUpReconnection(attempts);
+  }
+
+  /**
+   * Connects a new session in place of a lost one, keeping its conversation.
+   * The transcripts are replayed into the new session once it is created.
+   */
+  private async replaceSession(
+    previousSession: RealtimeSession,
+    newSession: RealtimeSession
+  ): Promise<void> {
+    this.cleanupTransport();
+    this.pendingReseed = previousSession.transcripts ?? [];
+    this.resetEventStats();
+    this.dispatch({
+      type: SessionActionType.INIT_SESSION,
+      payload: {
+        ...newSession,
+        transcripts: previousSession.transcripts ?? [],
+        tokenUsage: previousSession.tokenUsage,
+        tokenUsageHistory: previousSession.tokenUsageHistory,
+        itemTimings: previousSession.itemTimings,
+        estimatedCost: previousSession.estimatedCost,
+        startTime: previousSession.startTime,
+        audioSettings: previousSession.audioSettings,
+        isMuted: previousSession.isMuted,
+        ...this.getOutputState(),
+        connection_timeout: previousSession.connection_timeout,
+        connectionStatus: ConnectionStatus.RECONNECTING,
+        reconnectAttempts: 0,
+        lastStateChange: new Date().toISOString(),
+      },
+    });
+    this.startClientSecretTimer();
+    this.startNetworkStatsTimer();
+    // Still reconnecting until the transport opens, so a failure gives up
+    await this.openTransport(newSession);
+    this.isReconnecting = false;
+    this.emitLocalEvent({
+      type: RealtimeEventType.SESSION_REPLACED,
+      previousSessionId: previousSession.id,
+      sessionId: newSession.id,
+    });
+  }
+
+  /**
+   * Replays stored transcripts into a fallback session as conversation items.
+   */
+  private reseedConversation(): void {
+    const transcripts = this.pendingReseed;
+    this.pendingReseed = null;
+    if (!transcripts) {
+      return;
+    }
+
+    transcripts.forEach((transcript) => {
+      const isUser = transcript.role === ConversationRole.USER;
+      const itemEvent: ConversationItemCreateEvent = {
+        type: RealtimeEventType.CONVERSATION_ITEM_CREATE,
+        item: {
+          type: ConversationItemType.MESSAGE,
+          role: transcript.role,
+          content: [
+            {
+              type: isUser ? ContentType.INPUT_TEXT : ContentType.TEXT,
+              text: transcript.content,
+            },
+          ],
+        },
+      };
+      this.sendClientEvent(itemEvent, {
+        rateLimitPolicy: RateLimitPolicy.QUEUE,
+      });
+    });
+    this.logger.info(
+      `Reseeded session '${this.state?.id}' with ${transcripts.length} transcripts`
+    );
+  }
+
+  /**
+   * Stops reconnecting and applies the give-up behavior.
+   * @param attempts - Number of in-place attempts made.
+   */
+  private giveUpReconnection(attempts: number): void {
+    const behavior = this.reconnectionPolicy.giveUpBehavior;
+    this.cancelReconnection();
+    this.emitLocalEvent({
+      type: RealtimeEventType.RECONNECT_GAVE_UP,
+      attempts,
+      behavior,
+    });
+    this.logger.error(
+      `Giving up reconnecting session '${this.state?.id}' after ${attempts} attempts`
+    );
+
+    if (behavior === ReconnectionGiveUpBehavior.KEEP_FAILED) {
+      this.stopClientSecretTimer();
+      this.stopNetworkStatsTimer();
+      this.stopBudgetTimer();
+      this.outgoing.clear();
+      this.scheduler.clear();
+      this.cleanupTransport();
+      this.dispatch({
+        type: SessionActionType.UPDATE_SESSION,
+        payload: {
+          connectionStatus: ConnectionStatus.FAILED,
+          reconnectAttempts: 0,
+          lastStateChange: new Date().toISOString(),
+        },
+      });
+    } else {
+      this.disconnect({ reason: DisconnectReason.RECONNECT_GAVE_UP });
+    }
+  }
+
+  /**
+   * Stops any ongoing reconnection without changing the session.
+   */
+  private cancelReconnection(): void {
+    this.isReconnecting = false;
+    if (this.reconnectTimeoutId) {
+      clearTimeout(this.reconnectTimeoutId);
+      this.reconnectTimeoutId = null;
+    }
+  }
+
+  /**
+   * Returns a valid ephemeral key for the session, refreshing it when it is
+   * about to expire or when `forceRefresh` is set (e.g. after a 401).
+   */
+  private getClientSecret = async (forceRefresh = false): Promise<string> => {
+    const secret = this.state?.client_secret;
+    if (
+      !forceRefresh &&
+      secret &&
+      getClientSecretRemainingMs(secret) > this.config.clientSecretRefreshMargin
+    ) {
+      return secret.value;
+    }
+    return this.refreshClientSecret();
+  };
+
+  /**
+   * Fetches a new client secret and stores it on the session.
+   */
+  private refreshClientSecret(): Promise<string> {
+    if (this.secretRefresh) {
+      return this.secretRefresh;
+    }
+    const session = this.state;
+    if (!session) {
+      return Promise.reject(new Error('No active session'));
+    }
+
+    this.logger.info(`Refreshing client secret for session '${session.id}'`);
+    this.nextSecretRefreshAt =
+      Date.now() + ClientSecretLifecycle.MIN_REFRESH_INTERVAL;
+    this.secretRefresh = this.config
+      .fetchClientSecret(session)
+      .then((clientSecret) => {
+        this.dispatch({
+          type: SessionActionType.UPDATE_SESSION,
+          payload: {
+            client_secret: clientSecret,
+            clientSecretExpiresIn: Math.max(
+              0,
+              Math.floor(getClientSecretRemainingMs(clientSecret) / 1000)
+            ),
+          },
+        });
+        this.emitLocalEvent({
+          type: RealtimeEventType.CLIENT_SECRET_REFRESHED,
+          expiresAt: clientSecret.expires_at,
+        });
+        return clientSecret.value;
+      })
+      .catch((error: unknown) => {
+        this.logger.error(
+          `Failed to refresh client secret for session '${session.id}':`,
+          { sessionId: session.id, error }
+        );
+        throw error;
+      })
+      .finally(() => {
+        this.secretRefresh = null;
+      });
+    return this.secretRefresh;
+  }
+
+  private getOutputState(): Pick<
+    RealtimeSession,
+    'outputDeviceId' | 'outputVolume' | 'isOutputPaused'
+  > {
+    return {
+      outputDeviceId: this.outputDeviceId,
+      outputVolume: this.outputVolume,
+      isOutputPaused: this.isOutputPaused,
+    };
+  }
+
+  private updateOutputState(): void {
+    if (this.state) {
+      this.dispatch({
+        type: SessionActionType.UPDATE_SESSION,
+        payload: this.getOutputState(),
+      });
+    }
+  }
+
+  /**
+   * Applies the output settings to a newly registered audio element.
+   */
+  private applyOutputSettings(element: HTMLMediaElement): void {
+    element.volume = this.outputVolume;
+    if (this.isOutputPaused) {
+      element.pause();
+    }
+    if (this.outputDeviceId && supportsOutputDeviceSelection()) {
+      element.setSinkId(this.outputDeviceId).catch((error: unknown) => {
+        this.logger.error('Failed to select output device:', { error });
+      });
+    }
+  }
+
+  /**
+   * Captures another microphone for the active transport and reports the switch.
+   */
+  private async switchInputDevice(
+    deviceId: string | null,
+    reason: InputDeviceChangedEvent['reason']
+  ): Promise<void> {
+    const transport = this.transport;
+    // Sessions that never captured a microphone have no device to switch
+    const previousDeviceId = this.state?.inputDeviceId;
+    if (!transport?.setInputDevice || previousDeviceId === undefined) {
+      return;
+    }
+
+    await transport.setInputDevice(deviceId);
+    this.recorder?.setInputStream(transport.getInputStream?.() ?? null);
+    this.emitLocalEvent({
+      type: RealtimeEventType.INPUT_DEVICE_CHANGED,
+      deviceId,
+      previousDeviceId,
+      reason,
+    });
+  }
+
+  private watchInputDevices(enabled: boolean): void {
+    const mediaDevices = globalThis.navigator?.mediaDevices;
+    if (!mediaDevices) {
+      return;
+    }
+    mediaDevices.removeEventListener('devicechange', this.handleDeviceChange);
+    if (enabled) {
+      mediaDevices.addEventListener('devicechange', this.handleDeviceChange);
+    }
+  }
+
+  /**
+   * Moves the microphone to another device when the one in use was removed,
+   * and back to the chosen device once it is connected again.
+   */
+  private handleDeviceChange = async (): Promise<void> => {
+    const currentDeviceId = this.state?.inputDeviceId ?? null;
+    try {
+      const deviceIds = (await this.listInputDevices()).map(
+        (device) => device.deviceId
+      );
+      const targetDeviceId =
+        this.inputDeviceId && deviceIds.includes(this.inputDeviceId)
+          ? this.inputDeviceId
+          : null;
+      const currentAvailable =
+        currentDeviceId !== null && deviceIds.includes(currentDeviceId);
+      if (
+        currentAvailable &&
+        (targetDeviceId === null || targetDeviceId === currentDeviceId)
+      ) {
+        return;
+      }
+
+      this.logger.info(
+        `Input devices changed, switching session '${this.state?.id}' microphone`,
+        { sessionId: this.state?.id, deviceId: targetDeviceId }
+      );
+      await this.switchInputDevice(targetDeviceId, 'device_change');
+    } catch (error: unknown) {
+      this.logger.error('Failed to switch input device:', { error });
+    }
+  };
+
+  /**
+   * Starts tracking the client secret lifetime of the session.
+   */
+  private startClientSecretTimer(): void {
+    this.stopClientSecretTimer();
+    this.nextSecretRefreshAt = 0;
+    this.checkClientSecret();
+    this.secretTimerId = setInterval(
+      this.checkClientSecret,
+      ClientSecretLifecycle.TICK_INTERVAL
+    );
+  }
+
+  /**
+   * Counts an incoming server event and schedules publishing the counters.
+   */
+  private countEvent(result: EventValidationResult): void {
+    const stats = this.eventStats;
+    stats.received += 1;
+    if (result.status === 'unknown') {
+      stats.unknown += 1;
+    } else if (result.status === 'invalid') {
+      stats.invalid += 1;
+    }
+    const eventType =
+      result.status === 'valid' ? result.event.type : result.eventType;
+    if (eventType) {
+      stats.byType[eventType] = (stats.byType[eventType] ?? 0) + 1;
+    }
+
+    if (!this.eventStatsTimeoutId) {
+      this.eventStatsTimeoutId = setTimeout(
+        () => this.publishEventStats(),
+        EventValidation.STATS_INTERVAL
+      );
+    }
+  }
+
+  /**
+   * Copies the event counters into the session snapshot.
+   */
+  private publishEventStats(): void {
+    if (this.eventStatsTimeoutId) {
+      clearTimeout(this.eventStatsTimeoutId);
+      this.eventStatsTimeoutId = null;
+    }
+    if (!this.state) {
+      return;
+    }
+    this.dispatch({
+      type: SessionActionType.UPDATE_SESSION,
+      payload: {
+        eventStats: {
+          ...this.eventStats,
+          byType: { ...this.eventStats.byType },
+        },
+      },
+    });
+  }
+
+  private resetEventStats(): void {
+    if (this.eventStatsTimeoutId) {
+      clearTimeout(this.eventStatsTimeoutId);
+      this.eventStatsTimeoutId = null;
+    }
+    this.eventStats = createEventStats();
+  }
+
+  /**
+   * Reports a server event that is not processed because it is unknown or invalid.
+   * @param result - The validation result of the event.
+   * @param raw - The raw payload as received.
+   */
+  private reportRejectedEvent(
+    result: Exclude<EventValidationResult, { status: 'valid' }>,
+    raw: string
+  ): void {
+    const sessionId = this.state?.id;
+    if (result.status === 'unknown') {
+      this.logger.warn(
+        `Unknown event '${result.eventType}' received by session '${sessionId}'`,
+        { sessionId, raw }
+      );
+      this.emitLocalEvent({
+        type: RealtimeEventType.UNKNOWN_EVENT,
+        eventType: result.eventType,
+        raw,
+      });
+      return;
+    }
+
+    this.logger.warn(
+      `Invalid event '${result.eventType}' received by session '${sessionId}'`,
+      { sessionId, errors: result.errors, raw }
+    );
+    this.emitLocalEvent({
+      type: RealtimeEventType.INVALID_EVENT,
+      eventType: result.eventType,
+      raw,
+      errors: result.errors,
+    });
+  }
+
+  private stopClientSecretTimer(): void {
+    if (this.secretTimerId) {
+      clearInterval(this.secretTimerId);
+      this.secretTimerId = null;
+    }
+  }
+
+  /**
+   * Starts collecting the network statistics of the session periodically.
+   */
+  private startNetworkStatsTimer(): void {
+    this.stopNetworkStatsTimer();
+    if (this.config.networkStatsInterval > 0) {
+      this.statsTimerId = setInterval(
+        this.collectNetworkStats,
+        this.config.networkStatsInterval
+      );
+    }
+  }
+
+  private stopNetworkStatsTimer(): void {
+    if (this.statsTimerId) {
+      clearInterval(this.statsTimerId);
+      this.statsTimerId = null;
+    }
+    this.networkCounters = null;
+  }
+
+  /**
+   * Records the network statistics of the transport and reports quality changes.
+   */
+  private collectNetworkStats = async (): Promise<void> => {
+    const transport = this.transport;
+    if (!transport?.getStats || !transport.isOpen() || this.isCollectingStats) {
+      return;
+    }
+
+    this.isCollectingStats = true;
+    try {
+      const report = await transport.getStats();
+      // The transport may have been replaced while collecting
+      if (this.transport !== transport || !this.state) {
+        return;
+      }
+
+      const { stats, counters } = readNetworkStats(
+        report,
+        this.networkCounters
+      );
+      this.networkCounters = counters;
+      const previousQuality = this.state.networkStats?.quality ?? null;
+      this.dispatch({
+        type: SessionActionType.RECORD_NETWORK_STATS,
+        payload: {
+          networkStats: stats,
+          historySize: NetworkStatsCollection.HISTORY_SIZE,
+        },
+      });
+
+      const { quality } = stats;
+      if (!quality || !previousQuality || quality === previousQuality) {
+        return;
+      }
+      const degraded =
+        networkQualityOrder.indexOf(quality) >
+        networkQualityOrder.indexOf(previousQuality);
+      if (degraded) {
+        this.logger.warn(
+          `Network quality of session '${this.state.id}' degraded to ${quality}`,
+          { sessionId: this.state.id, stats }
+        );
+      }
+      this.emitLocalEvent({
+        type: degraded
+          ? RealtimeEventType.NETWORK_QUALITY_DEGRADED
+          : RealtimeEventType.NETWORK_QUALITY_RECOVERED,
+        quality,
+        previousQuality,
+        stats,
+      });
+    } catch (error: unknown) {
+      this.logger.error('Failed to collect network statistics:', { error });
+    } finally {
+      this.isCollectingStats = false;
+    }
+  };
+
+  /**
+   * Starts checking the duration and idle budgets of the session periodically.
+   */
+  private startBudgetTimer(): void {
+    this.stopBudgetTimer();
+    this.budgetWarnings.clear();
+    this.lastActivityAt = Date.now();
+    const budget = this.config.budget;
+    if (
+      budget?.maxDurationMs !== undefined ||
+      budget?.idleTimeoutMs !== undefined
+    ) {
+      this.budgetTimerId = setInterval(
+        this.checkBudgets,
+        SessionBudgets.CHECK_INTERVAL
+      );
+    }
+  }
+
+  private stopBudgetTimer(): void {
+    if (this.budgetTimerId) {
+      clearInterval(this.budgetTimerId);
+      this.budgetTimerId = null;
+    }
+  }
+
+  /**
+   * Warns when a budget of the session is nearly used and disconnects the
+   * session once one is exhausted.
+   */
+  private checkBudgets = (): void => {
+    const session = this.state;
+    const budget = this.config.budget;
+    if (!session || !budget || session.isReplay || !this.isSessionActive()) {
+      return;
+    }
+
+    const now = Date.now();
+    // A response being generated or played keeps the session in use
+    if (this.activeResponseId || this.playback) {
+      this.lastActivityAt = now;
+    }
+    const startTimeMs = session.startTime
+      ? new Date(session.startTime).getTime()
+      : now;
+    const usage: [SessionBudgetType, number, number | undefined][] = [
+      [
+        SessionBudgetType.TOKENS,
+        session.tokenUsage?.totalTokens ?? 0,
+        budget.maxTokens,
+      ],
+      [SessionBudgetType.COST, session.estimatedCost ?? 0, budget.maxCost],
+      [SessionBudgetType.DURATION, now - startTimeMs, budget.maxDurationMs],
+      [SessionBudgetType.IDLE, now - this.lastActivityAt, budget.idleTimeoutMs],
+    ];
+    const warningThreshold =
+      budget.warningThreshold ?? SessionBudgets.DEFAULT_WARNING_THRESHOLD;
+
+    for (const [type, used, limit] of usage) {
+      if (limit === undefined) {
+        continue;
+      }
+      if (used >= limit) {
+        this.exceedBudget(type, used, limit);
+        return;
+      }
+      if (used >= limit * warningThreshold && !this.budgetWarnings.has(type)) {
+        this.budgetWarnings.add(type);
+        this.logger.warn(
+          `Session '${session.id}' used ${used} of its ${type} budget of ${limit}`
+        );
+        this.emitLocalEvent({
+          type: RealtimeEventType.BUDGET_WARNING,
+          budget: type,
+          used,
+          limit,
+        });
+      }
+    }
+  };
+
+  /**
+   * Disconnects the session because a budget is exhausted.
+   */
+  private exceedBudget(
+    type: SessionBudgetType,
+    used: number,
+    limit: number
+  ): void {
+    this.logger.warn(
+      `Session '${this.state?.id}' exceeded its ${type} budget (${used} of ${limit}), disconnecting`
+    );
+    this.emitLocalEvent({
+      type: RealtimeEventType.BUDGET_EXCEEDED,
+      budget: type,
+      used,
+      limit,
+    });
+    this.dispatch({
+      type: SessionActionType.UPDATE_SESSION,
+      payload: { exceededBudget: type },
+    });
+    this.disconnect({ reason: DisconnectReason.BUDGET_EXCEEDED });
+  }
+
+  /**
+   * Updates the remaining lifetime and refreshes the secret before it expires.
+   */
+  private checkClientSecret = (): void => {
+    const secret = this.state?.client_secret;
+    if (!secret) {
+      return;
+    }
+
+    const remainingMs = getClientSecretRemainingMs(secret);
+    const expiresIn = Math.max(0, Math.floor(remainingMs / 1000));
+    if (expiresIn !== this.state?.clientSecretExpiresIn) {
+      this.dispatch({
+        type: SessionActionType.UPDATE_SESSION,
+        payload: { clientSecretExpiresIn: expiresIn },
+      });
+    }
+
+    if (
+      remainingMs <= this.config.clientSecretRefreshMargin &&
+      !this.secretRefresh &&
+      Date.now() >= this.nextSecretRefreshAt
+    ) {
+      // Failures are logged and retried on a later tick
+      this.refreshClientSecret().catch(() => {});
+    }
+  };
+
+  /**
+   * Tracks the assistant audio content part being played back.
+   * @param itemId - The item of the content part.
+   * @param contentIndex - The index of the content part.
+   * @param audioMs - Duration of a received audio chunk, if audio arrives as chunks.
+   */
+  private trackPlayback(
+    itemId: string,
+    contentIndex: number,
+    audioMs?: number
+  ): void {
+    if (
+      this.playback?.itemId !== itemId ||
+      this.playback.contentIndex !== contentIndex
+    ) {
+      const element = this.audioElement;
+      this.playback = {
+        itemId,
+        contentIndex,
+        startedAt: performance.now(),
+        element,
+        mediaStartTime: element ? element.currentTime : null,
+        receivedAudioMs: null,
+      };
+    }
+    if (audioMs !== undefined) {
+      this.playback.receivedAudioMs =
+        (this.playback.receivedAudioMs ?? 0) + audioMs;
+    }
+  }
+
+  /**
+   * Gets how much of the tracked audio has been played, in milliseconds.
+   */
+  private getPlayedAudioMs(playback: AudioPlayback): number {
+    const element = this.audioElement;
+    const playedMs =
+      element &&
+      element === playback.element &&
+      playback.mediaStartTime !== null
+        ? (element.currentTime - playback.mediaStartTime) * 1000
+        : performance.now() - playback.startedAt;
+    const clampedMs =
+      playback.receivedAudioMs !== null
+        ? Math.min(playedMs, playback.receivedAudioMs)
+        : playedMs;
+    return Math.max(0, Math.round(clampedMs));
+  }
+
+  /**
+   * Creates the transport configured for the session.
+   */
+  private createTransport(realtimeSession: RealtimeSession): RealtimeTransport {
+    const options: RealtimeTransportOptions = {
+      realtimeApiUrl: this.config.realtimeApiUrl,
+      modelId: this.config.modelId,
+      connectionTimeout: this.config.defaultIceTimeout,
+      // Use session audio settings if provided, otherwise use config default
+      audioSettings:
+        realtimeSession.audioSettings ?? this.config.defaultAudioSettings,
+      inputDeviceId: this.inputDeviceId,
+      microphoneMuted: Boolean(realtimeSession.isMuted),
+      getClientSecret: this.getClientSecret,
+      logger: this.logger,
+      webRTC: this.config.webRTC,
+    };
+
+    switch (this.config.transport) {
+      case TransportType.WEBSOCKET:
+        return new WebSocketTransport(options);
+      case TransportType.WEBRTC:
+      default:
+        return new WebRTCTransport(options);
+    }
+  }
+
+  /**
+   * Closes the transport and clears the live objects from the session.
+   */
+  private cleanupTransport(): void {
+    // Events still queued are sent over the next transport of the session
+    this.requests.rejectAll(
+      new Error('Session closed'),
+      (eventId) => this.outgoing.has(eventId) || this.scheduler.has(eventId)
+    );
+    this.activeResponseId = null;
+    this.playback = null;
+    this.latency.reset();
+    this.itemTimings.reset();
+    // The streams being recorded end with the transport
+    if (this.recorder) {
+      this.finishRecording('session_closed').catch((error: unknown) => {
+        this.logger.error('Failed to stop the recording:', { error });
+      });
+    }
+    if (this.transport) {
+      this.transport.close();
+      this.transport = null;
+    }
+
+    const session = this.state;
+    if (
+      session?.mediaStream ||
+      session?.dataChannel ||
+      session?.peer_connection
+    ) {
+      this.dispatch({
+        type: SessionActionType.UPDATE_SESSION,
+        payload: {
+          mediaStream: null,
+          dataChannel: null,
+          peer_connection: null,
+        },
+      });
+    }
+  }
+
+  /**
+   * Executes a function call requested by the model and sends its output back.
+   * The follow-up response is created once the whole response is done.
+   * @param responseId - The response that requested the call.
+   * @param item - The function call item.
+   */
+  private handleFunctionCall(
+    responseId: string,
+    item: FunctionCallDetails
+  ): void {
+    const name = item.name ?? '';
+    this.logger.info(`Function call received: ${name}`, {
+      callId: item.call_id,
+      arguments: item.arguments,
+    });
+
+    const execution = this.toolRegistry
+      .execute(name, item.arguments, this.functionCallHandler)
+      .then((output) => {
+        const outputEvent: ConversationItemCreateEvent = {
+          type: RealtimeEventType.CONVERSATION_ITEM_CREATE,
+          event_id: crypto.randomUUID(),
+          item: {
+            type: ConversationItemType.FUNCTION_CALL_OUTPUT,
+            call_id: item.call_id,
+            output,
+          },
+        };
+        this.sendClientEvent(outputEvent, {
+          rateLimitPolicy: RateLimitPolicy.QUEUE,
+        });
+      });
+
+    const pending = this.pendingToolCalls.get(responseId) ?? [];
+    this.pendingToolCalls.set(responseId, [...pending, execution]);
+  }
+
+  /**
+   * Creates the follow-up response once all function calls of a response are answered.
+   * @param responseId - The response that is done.
+   */
+  private async flushFunctionCalls(responseId: string): Promise<void> {
+    const pending = this.pendingToolCalls.get(responseId);
+    if (!pending) {
+      return;
+    }
+    this.pendingToolCalls.delete(responseId);
+    await Promise.all(pending);
+    this.createResponse({}, { rateLimitPolicy: RateLimitPolicy.QUEUE }).catch(
+      (error: unknown) => {
+        this.logger.error('Failed to create the follow-up response:', {
+          responseId,
+          error,
+        });
+      }
+    );
+  }
+
+  /**
+   * Grows the in-progress transcript of a content part with a streamed chunk.
+   * @param itemId - The item the content part belongs to.
+   * @param contentIndex - The index of the content part within the item.
+   * @param role - Who the transcript belongs to.
+   * @param contentType - The type of the content part.
+   * @param delta - The streamed chunk.
+   */
+  private appendTranscriptDelta(
+    itemId: string,
+    contentIndex: number,
+    role: ConversationRole,
+    contentType: ContentType,
+    delta: string
+  ): void {
+    this.dispatch({
+      type: SessionActionType.APPEND_CONVERSATION_CONTENT,
+      payload: {
+        itemId,
+        contentIndex,
+        contentType,
+        field: contentType === ContentType.TEXT ? 'text' : 'transcript',
+        delta,
+      },
+    });
+    this.dispatch({
+      type: SessionActionType.APPEND_TRANSCRIPT_DELTA,
+      payload: {
+        transcript: {
+          content: delta,
+          timestamp: Date.now(),
+          type:
+            role === ConversationRole.USER
+              ? TranscriptType.INPUT
+              : TranscriptType.OUTPUT,
+          role,
+          itemId,
+          contentIndex,
+        },
+      },
+    });
+  }
+
+  /**
+   * Replaces the transcript of a content part with its final content.
+   * @param itemId - The item the content part belongs to.
+   * @param contentIndex - The index of the content part within the item.
+   * @param role - Who the transcript belongs to.
+   * @param contentType - The type of the content part.
+   * @param content - The final text or transcript.
+   */
+  private finalizeTranscript(
+    itemId: string,
+    contentIndex: number,
+    role: ConversationRole,
+    contentType: ContentType,
+    content: string
+  ): void {
+    this.dispatch({
+      type: SessionActionType.UPDATE_CONVERSATION_CONTENT,
+      payload: {
+        itemId,
+        contentIndex,
+        content:
+          contentType === ContentType.TEXT
+            ? { type: contentType, text: content }
+            : { type: contentType, transcript: content },
+      },
+    });
+    this.dispatch({
+      type: SessionActionType.FINALIZE_TRANSCRIPT,
+      payload: {
+        transcript: {
+          content,
+          timestamp: Date.now(),
+          type:
+            role === ConversationRole.USER
+              ? TranscriptType.INPUT
+              : TranscriptType.OUTPUT,
+          role,
+          itemId,
+          contentIndex,
+        },
+      },
+    });
+  }
+
+  // Validate and emit incoming events and reduce them into the session state
+  private handleMessage = (data: string): void => {
+    if (this.state && !this.state.isReplay) {
+      this.journal?.recordIncoming(this.state.id, data);
+    }
+    try {
+      const result = validateServerEvent(data);
+      this.countEvent(result);
+      if (result.status !== 'valid') {
+        this.reportRejectedEvent(result, data);
+        return;
+      }
+
+      const event = result.event;
+      // Emit the event before processing
+      this.eventEmitter.emit(event);
+      this.requests.resolve(event);
+
+      if (activityEventTypes.has(event.type)) {
+        this.lastActivityAt = Date.now();
+        this.budgetWarnings.delete(SessionBudgetType.IDLE);
+      }
+
+      const turn = this.latency.record(event);
+      if (turn) {
+        this.dispatch({
+          type: SessionActionType.RECORD_TURN_LATENCY,
+          payload: { turn },
+        });
+      }
+      const timingUpdates = this.itemTimings.record(event);
+      if (timingUpdates.length > 0) {
+        this.dispatch({
+          type: SessionActionType.RECORD_ITEM_TIMINGS,
+          payload: { updates: timingUpdates },
+        });
+      }
+
+      // Process the event for internal state management
+      switch (event.type) {
+        case RealtimeEventType.ERROR:
+          this.requests.rejectRelated(event.error);
+          break;
+        case RealtimeEventType.SESSION_CREATED:
+          this.reseedConversation();
+          break;
+        case RealtimeEventType.CONVERSATION_ITEM_CREATED:
+          this.dispatch({
+            type: SessionActionType.UPSERT_CONVERSATION_ITEM,
+            payload: {
+              item: event.item,
+              previousItemId: event.previous_item_id,
+            },
+          });
+          break;
+        case RealtimeEventType.RESPONSE_OUTPUT_ITEM_ADDED:
+          this.dispatch({
+            type: SessionActionType.UPSERT_CONVERSATION_ITEM,
+            payload: { item: event.item },
+          });
+          break;
+        case RealtimeEventType.CONVERSATION_ITEM_DELETED:
+          this.dispatch({
+            type: SessionActionType.DELETE_CONVERSATION_ITEM,
+            payload: { itemId: event.item_id },
+          });
+          break;
+        case RealtimeEventType.CONVERSATION_ITEM_TRUNCATED:
+          this.dispatch({
+            type: SessionActionType.TRUNCATE_CONVERSATION_ITEM,
+            payload: { itemId: event.item_id, audioEndMs: event.audio_end_ms },
+          });
+          this.dispatch({
+            type: SessionActionType.TRUNCATE_TRANSCRIPT,
+            payload: { itemId: event.item_id },
+          });
+          break;
+        case RealtimeEventType.RESPONSE_CREATED:
+          this.activeResponseId = event.response.id;
+          break;
+        case RealtimeEventType.RESPONSE_AUDIO_DELTA:
+          this.transport?.playAudioDelta?.(event);
+          this.trackPlayback(
+            event.item_id,
+            event.content_index,
+            getBase64PCM16DurationMs(event.delta)
+          );
+          break;
+        case RealtimeEventType.OUTPUT_AUDIO_STOPPED:
+          this.playback = null;
+          break;
+        case RealtimeEventType.INPUT_AUDIO_SPEECH_STARTED:
+          if (this.config.interruptOnSpeechStart) {
+            this.interrupt();
+          }
+          break;
+        case RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_DELTA:
+          this.appendTranscriptDelta(
+            event.item_id,
+            event.content_index,
+            ConversationRole.USER,
+            ContentType.INPUT_AUDIO,
+            event.delta
+          );
+          break;
+        case RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_COMPLETED:
+          this.finalizeTranscript(
+            event.item_id,
+            event.content_index,
+            ConversationRole.USER,
+            ContentType.INPUT_AUDIO,
+            event.transcript
+          );
+          break;
+        case RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DELTA:
+          this.trackPlayback(event.item_id, event.content_index);
+          this.appendTranscriptDelta(
+            event.item_id,
+            event.content_index,
+            ConversationRole.ASSISTANT,
+            ContentType.AUDIO,
+            event.delta
+          );
+          break;
+        case RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DONE:
+          this.finalizeTranscript(
+            event.item_id,
+            event.content_index,
+            ConversationRole.ASSISTANT,
+            ContentType.AUDIO,
+            event.transcript
+          );
+          break;
+        case RealtimeEventType.RESPONSE_TEXT_DELTA:
+          this.appendTranscriptDelta(
+            event.item_id,
+            event.content_index,
+            ConversationRole.ASSISTANT,
+            ContentType.TEXT,
+            event.delta
+          );
+          break;
+        case RealtimeEventType.RESPONSE_TEXT_DONE:
+          this.finalizeTranscript(
+            event.item_id,
+            event.content_index,
+            ConversationRole.ASSISTANT,
+            ContentType.TEXT,
+            event.text
+          );
+          break;
+        case RealtimeEventType.RESPONSE_OUTPUT_ITEM_DONE:
+          this.dispatch({
+            type: SessionActionType.UPSERT_CONVERSATION_ITEM,
+            payload: { item: event.item },
+          });
+          // Check if it's a function call, tools already ran when replaying
+          if (
+            event.item.type === ConversationItemType.FUNCTION_CALL &&
+            !this.state?.isReplay
+          ) {
+            this.handleFunctionCall(event.response_id, event.item);
+          }
+          break;
+        case RealtimeEventType.RESPONSE_DONE: {
+          if (this.activeResponseId === event.response.id) {
+            this.activeResponseId = null;
+          }
+          // Only completed responses are followed up, not cancelled or failed ones
+          if (event.response.status === 'completed') {
+            this.flushFunctionCalls(event.response.id);
+          } else {
+            this.pendingToolCalls.delete(event.response.id);
+          }
+          const usage = event.response?.usage;
+          if (usage) {
+            const tokens = getResponseTokenUsage(usage);
+            const pricing = findModelPricing(
+              this.config.pricing,
+              this.state?.model ?? this.config.modelId
+            );
+            // Add the response to the session totals
+            this.dispatch({
+              type: SessionActionType.RECORD_TOKEN_USAGE,
+              payload: {
+                usage: {
+                  ...tokens,
+                  responseId: event.response.id,
+                  timestamp: Date.now(),
+                  cost: pricing ? estimateCost(tokens, pricing) : null,
+                },
+              },
+            });
+            this.checkBudgets();
+          }
+          break;
+        }
+        case RealtimeEventType.RATE_LIMITS_UPDATED: {
+          const maxResetSeconds = event.rate_limits.length
+            ? Math.max(...event.rate_limits.map((limit) => limit.reset_seconds))
+            : 0;
+          const resetTime = new Date(
+            Date.now() + maxResetSeconds * 1000
+          ).toISOString();
+          const isRateLimited = event.rate_limits.some(
+            (limit) => limit.remaining <= 0
+          );
+
+          this.dispatch({
+            type: SessionActionType.UPDATE_RATE_LIMITS,
+            payload: {
+              rateLimits: event.rate_limits,
+              rateLimitResetTime: resetTime,
+              isRateLimited,
+            },
+          });
+          this.scheduler.update(event.rate_limits);
+
+          // Responses are held until the limits reset
+          if (isRateLimited && this.state?.id) {
+            this.logger.warn(
+              `Rate limit exceeded for session '${this.state.id}', holding responses for ${maxResetSeconds}s`
+            );
+          }
+          break;
+        }
+        default:
+          break;
+      }
+    } catch (error) {
+      this.logger.error('Error processing Realtime message', { error });
+    }
+  };
+}
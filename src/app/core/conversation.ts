@@ -0,0 +1,189 @@
+import {
+  ContentType,
+  ConversationContent,
+  ConversationItem,
+  ConversationStore,
+  ConversationStoreItem,
+} from '../types';
+
+/**
+ * Creates an empty conversation store.
+ */
+export const createConversationStore = (): ConversationStore => ({
+  itemsById: {},
+  order: [],
+});
+
+/**
+ * Gets the items of a conversation store in conversation order.
+ */
+export const getConversationItems = (
+  store: ConversationStore | undefined
+): ConversationStoreItem[] =>
+  store ? store.order.map((id) => store.itemsById[id]) : [];
+
+/**
+ * Merges two content parts, keeping known values the update leaves empty
+ * (e.g. `transcript: null` on a later `conversation.item.created`).
+ */
+const mergeContentPart = (
+  existing: ConversationContent | undefined,
+  update: ConversationContent
+): ConversationContent => {
+  const merged: ConversationContent = { ...existing, ...update };
+  (Object.keys(update) as (keyof ConversationContent)[]).forEach((key) => {
+    if (update[key] === null || update[key] === undefined) {
+      Object.assign(merged, { [key]: existing?.[key] });
+    }
+  });
+  return merged;
+};
+
+const mergeContent = (
+  existing: ConversationContent[] | undefined,
+  update: ConversationContent[] | undefined
+): ConversationContent[] | undefined => {
+  if (!update) {
+    return existing;
+  }
+  const length = Math.max(existing?.length ?? 0, update.length);
+  return Array.from({ length }, (_, index) =>
+    update[index]
+      ? mergeContentPart(existing?.[index], update[index])
+      : (existing as ConversationContent[])[index]
+  );
+};
+
+/**
+ * Adds an item or merges it into the existing item with the same id.
+ *
+ * @param previousItemId - The preceding item; `undefined` appends the item,
+ * `null` places it first, an unknown id appends it.
+ */
+export const upsertConversationItem = (
+  store: ConversationStore,
+  item: ConversationItem,
+  previousItemId?: string | null
+): ConversationStore => {
+  if (!item.id) {
+    return store;
+  }
+
+  const existing = store.itemsById[item.id];
+  const storeItem: ConversationStoreItem = {
+    ...existing,
+    ...item,
+    id: item.id,
+    content: mergeContent(existing?.content, item.content),
+    previousItemId:
+      previousItemId !== undefined
+        ? previousItemId
+        : (existing?.previousItemId ??
+          store.order[store.order.length - 1] ??
+          null),
+    createdAt: existing?.createdAt ?? Date.now(),
+  };
+
+  let order = store.order;
+  if (!existing) {
+    const previousIndex =
+      previousItemId === null ? -1 : store.order.indexOf(previousItemId ?? '');
+    order = [...store.order];
+    if (previousItemId === null) {
+      order.unshift(item.id);
+    } else if (previousIndex >= 0) {
+      order.splice(previousIndex + 1, 0, item.id);
+    } else {
+      order.push(item.id);
+    }
+  }
+
+  return {
+    itemsById: { ...store.itemsById, [item.id]: storeItem },
+    order,
+  };
+};
+
+/**
+ * Removes an item from the store.
+ */
+export const deleteConversationItem = (
+  store: ConversationStore,
+  itemId: string
+): ConversationStore => {
+  if (!store.itemsById[itemId]) {
+    return store;
+  }
+  const itemsById = { ...store.itemsById };
+  delete itemsById[itemId];
+  return {
+    itemsById,
+    order: store.order.filter((id) => id !== itemId),
+  };
+};
+
+/**
+ * Updates a single content part of an item, creating the part if needed.
+ */
+export const updateConversationContent = (
+  store: ConversationStore,
+  itemId: string,
+  contentIndex: number,
+  update: Partial<ConversationContent>
+): ConversationStore => {
+  const existing = store.itemsById[itemId];
+  if (!existing) {
+    return store;
+  }
+  const content = [...(existing.content ?? [])];
+  content[contentIndex] = {
+    ...content[contentIndex],
+    ...update,
+  } as ConversationContent;
+  return {
+    ...store,
+    itemsById: {
+      ...store.itemsById,
+      [itemId]: { ...existing, content },
+    },
+  };
+};
+
+/**
+ * Marks an item as truncated at an audio position.
+ */
+export const truncateConversationItem = (
+  store: ConversationStore,
+  itemId: string,
+  audioEndMs: number
+): ConversationStore => {
+  const existing = store.itemsById[itemId];
+  if (!existing) {
+    return store;
+  }
+  return {
+    ...store,
+    itemsById: {
+      ...store.itemsById,
+      [itemId]: { ...existing, truncatedAtMs: audioEndMs },
+    },
+  };
+};
+
+/**
+ * Appends a streamed chunk to the text or transcript of a content part.
+ */
+export const appendConversationContent = (
+  store: ConversationStore,
+  itemId: string,
+  contentIndex: number,
+  type: ContentType,
+  field: 'text' | 'transcript',
+  delta: string
+): ConversationStore => {
+  const part = store.itemsById[itemId]?.content?.[contentIndex];
+  return updateConversationContent(store, itemId, contentIndex, {
+    type: part?.type ?? type,
+    [field]: (part?.[field] ?? '') + delta,
+  });
+};
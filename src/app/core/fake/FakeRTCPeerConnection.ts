@@ -0,0 +1,218 @@
+/**
+ * Server side of a fake peer connection
+ */
+export interface FakePeerConnectionHandler {
+  /**
+   * Called once the connection is established, with its open data channel.
+   */
+  onConnect: (channel: FakeRTCDataChannel) => void;
+
+  /**
+   * Called with every message the client sends on the data channel.
+   */
+  onMessage: (data: string) => void;
+}
+
+type EventHandler<E extends Event = Event> = ((event: E) => void) | null;
+
+/**
+ * In-memory stand-in for an RTCDataChannel, without a network
+ */
+export class FakeRTCDataChannel extends EventTarget {
+  readonly label: string;
+  readyState: RTCDataChannelState = 'connecting';
+  bufferedAmount = 0;
+  bufferedAmountLowThreshold = 0;
+  onopen: EventHandler = null;
+  onmessage: EventHandler<MessageEvent> = null;
+  onclose: EventHandler = null;
+  onerror: EventHandler = null;
+  private onSend: (data: string) => void;
+
+  constructor(label: string, onSend: (data: string) => void) {
+    super();
+    this.label = label;
+    this.onSend = onSend;
+  }
+
+  send(data: string): void {
+    if (this.readyState !== 'open') {
+      throw new DOMException('Data channel is not open', 'InvalidStateError');
+    }
+    this.onSend(data);
+  }
+
+  close(): void {
+    if (this.readyState === 'closing' || this.readyState === 'closed') {
+      return;
+    }
+    // Like browsers, report the closing asynchronously
+    this.readyState = 'closing';
+    setTimeout(() => {
+      this.readyState = 'closed';
+      this.fire(new Event('close'), this.onclose);
+    }, 0);
+  }
+
+  /**
+   * Opens the channel, as when the connection is established.
+   */
+  open(): void {
+    this.readyState = 'open';
+    this.fire(new Event('open'), this.onopen);
+  }
+
+  /**
+   * Delivers a message from the server to the client.
+   */
+  receive(data: string): void {
+    if (this.readyState === 'open') {
+      this.fire(new MessageEvent('message', { data }), this.onmessage);
+    }
+  }
+
+  private fire<E extends Event>(event: E, handler: EventHandler<E>): void {
+    this.dispatchEvent(event);
+    handler?.call(this, event);
+  }
+}
+
+/**
+ * In-memory stand-in for an RTCPeerConnection. It connects as soon as the
+ * answer is set, carries no media and reports empty statistics.
+ */
+export class FakeRTCPeerConnection extends EventTarget {
+  readonly id: string;
+  iceConnectionState: RTCIceConnectionState = 'new';
+  signalingState: RTCSignalingState = 'stable';
+  localDescription: RTCSessionDescriptionInit | null = null;
+  remoteDescription: RTCSessionDescriptionInit | null = null;
+  readonly sctp = null;
+  oniceconnectionstatechange: EventHandler = null;
+  onnegotiationneeded: EventHandler = null;
+  ontrack: EventHandler = null;
+  onicecandidate: EventHandler = null;
+  onsignalingstatechange: EventHandler = null;
+  ondatachannel: EventHandler = null;
+  private handler: FakePeerConnectionHandler;
+  private channels: FakeRTCDataChannel[] = [];
+  private isConnected = false;
+  private isNegotiationScheduled = false;
+
+  /**
+   * @param id - Written into the offers, so the server can tell which
+   * connection an offer comes from.
+   */
+  constructor(id: string, handler: FakePeerConnectionHandler) {
+    super();
+    this.id = id;
+    this.handler = handler;
+  }
+
+  addTrack(track: MediaStreamTrack): RTCRtpSender {
+    const sender = {
+      track: track as MediaStreamTrack | null,
+      replaceTrack: async (newTrack: MediaStreamTrack | null) => {
+        sender.track = newTrack;
+      },
+    };
+    this.scheduleNegotiation();
+    return sender as unknown as RTCRtpSender;
+  }
+
+  createDataChannel(label: string): RTCDataChannel {
+    const channel = new FakeRTCDataChannel(label, this.handler.onMessage);
+    this.channels.push(channel);
+    this.scheduleNegotiation();
+    return channel as unknown as RTCDataChannel;
+  }
+
+  async createOffer(): Promise<RTCSessionDescriptionInit> {
+    return {
+      type: 'offer',
+      sdp: `v=0\r\no=- ${this.id} 2 IN IP4 127.0.0.1\r\ns=-\r\nt=0 0\r\n`,
+    };
+  }
+
+  async setLocalDescription(
+    description: RTCSessionDescriptionInit
+  ): Promise<void> {
+    this.localDescription = description;
+    this.setSignalingState('have-local-offer');
+  }
+
+  async setRemoteDescription(
+    description: RTCSessionDescriptionInit
+  ): Promise<void> {
+    this.remoteDescription = description;
+    this.setSignalingState('stable');
+
+    // Connect once the answer is applied, like ICE would
+    setTimeout(() => {
+      if (this.signalingState === 'closed') {
+        return;
+      }
+      this.setIceConnectionState('checking');
+      this.setIceConnectionState('connected');
+      if (!this.isConnected) {
+        this.isConnected = true;
+        this.channels.forEach((channel) => {
+          channel.open();
+          this.handler.onConnect(channel);
+        });
+      }
+    }, 0);
+  }
+
+  async getStats(): Promise<RTCStatsReport> {
+    return new Map() as unknown as RTCStatsReport;
+  }
+
+  /**
+   * Changes the ICE connection state, e.g. to `disconnected` to simulate a
+   * lost connection.
+   */
+  setIceConnectionState(state: RTCIceConnectionState): void {
+    if (this.iceConnectionState === state) {
+      return;
+    }
+    this.iceConnectionState = state;
+    const event = new Event('iceconnectionstatechange');
+    this.dispatchEvent(event);
+    this.oniceconnectionstatechange?.call(this, event);
+  }
+
+  close(): void {
+    if (this.signalingState === 'closed') {
+      return;
+    }
+    // Closing a peer connection fires no state change events
+    this.signalingState = 'closed';
+    this.iceConnectionState = 'closed';
+    this.channels.forEach((channel) => channel.close());
+  }
+
+  private setSignalingState(state: RTCSignalingState): void {
+    this.signalingState = state;
+    const event = new Event('signalingstatechange');
+    this.dispatchEvent(event);
+    this.onsignalingstatechange?.call(this, event);
+  }
+
+  // Browsers ask for negotiation once after tracks or channels are added
+  private scheduleNegotiation(): void {
+    if (this.isNegotiationScheduled) {
+      return;
+    }
+    this.isNegotiationScheduled = true;
+    setTimeout(() => {
+      this.isNegotiationScheduled = false;
+      if (this.signalingState === 'closed') {
+        return;
+      }
+      const event = new Event('negotiationneeded');
+      this.dispatchEvent(event);
+      this.onnegotiationneeded?.call(this, event);
+    }, 0);
+  }
+}
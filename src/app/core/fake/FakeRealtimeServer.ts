@@ -0,0 +1,768 @@
+import {
+  ClientSecret,
+  ContentType,
+  ConversationContent,
+  ConversationItem,
+  ConversationItemStatus,
+  ConversationItemType,
+  ConversationRole,
+  Modality,
+  OpenAICreateSessionParams,
+  RateLimit,
+  RealtimeClientEvent,
+  RealtimeEventType,
+  RealtimeServerEvent,
+  RealtimeSession,
+  ResponseCreateBody,
+  ResponseDoneEvent,
+  ResponseOutputItemDoneEvent,
+  SessionError,
+  WebRTCEnvironment,
+} from '../../types';
+import {
+  FakeRTCDataChannel,
+  FakeRTCPeerConnection,
+} from './FakeRTCPeerConnection';
+
+type ResponseUsage = NonNullable<ResponseDoneEvent['response']['usage']>;
+type ResponseOutputItem = ResponseDoneEvent['response']['output'][number];
+
+/**
+ * A function call made by the fake model
+ */
+export interface FakeFunctionCall {
+  name: string;
+  arguments: Record<string, unknown>;
+}
+
+/**
+ * An error sent by the fake server. Unset fields get generic values.
+ */
+export type FakeError = Pick<SessionError, 'message'> &
+  Partial<Pick<SessionError, 'type' | 'code' | 'param'>>;
+
+/**
+ * How the fake server answers a `response.create` event
+ */
+export interface FakeResponse {
+  /**
+   * Text of the assistant message, streamed word by word. It is sent as the
+   * audio transcript when the response has the audio modality.
+   */
+  text?: string;
+
+  /**
+   * Function calls made after the message.
+   */
+  functionCalls?: FakeFunctionCall[];
+
+  /**
+   * Usage reported by `response.done`, counted from the text by default.
+   */
+  usage?: ResponseUsage;
+
+  /**
+   * Limits sent in a `rate_limits.updated` event after the response.
+   */
+  rateLimits?: RateLimit[];
+
+  /**
+   * Error sent instead of the response, related to the `response.create` event.
+   */
+  error?: FakeError;
+}
+
+/**
+ * Options of the fake server
+ */
+export interface FakeRealtimeServerOptions {
+  /**
+   * Model of the sessions created by `createSession`.
+   * @default 'gpt-4o-realtime-preview'
+   */
+  model?: string;
+
+  /**
+   * Answers to the `response.create` events, in order.
+   */
+  responses?: FakeResponse[];
+
+  /**
+   * Answer once `responses` are used up.
+   * @default { text: 'Hello from the fake server.' }
+   */
+  defaultResponse?: FakeResponse;
+
+  /**
+   * Delay before each server event, in milliseconds. Without it, events are
+   * delivered in microtasks.
+   * @default 0
+   */
+  eventDelayMs?: number;
+}
+
+/**
+ * A peer connection of the fake server and the session it carries
+ */
+interface FakeConnection {
+  peerConnection: FakeRTCPeerConnection;
+  channel: FakeRTCDataChannel | null;
+  session: Partial<RealtimeSession>;
+  // Item ids in conversation order
+  itemIds: string[];
+}
+
+// Input tokens reported for every response, the conversation is not counted
+const FAKE_INPUT_TOKENS = 100;
+// Lifetime of the issued client secrets
+const CLIENT_SECRET_TTL_SECONDS = 600;
+
+// Minimal Response, as jsdom has no fetch API
+const createTextResponse = (status: number, body: string): Response =>
+  ({
+    ok: status >= 200 && status < 300,
+    status,
+    text: async () => body,
+    json: async () => JSON.parse(body),
+  }) as unknown as Response;
+
+const splitWords = (text: string): string[] => text.match(/\S+\s*/g) ?? [];
+
+const countUsage = (text: string): ResponseUsage => {
+  const outputTokens = splitWords(text).length;
+  return {
+    total_tokens: FAKE_INPUT_TOKENS + outputTokens,
+    input_tokens: FAKE_INPUT_TOKENS,
+    output_tokens: outputTokens,
+    input_token_details: {
+      cached_tokens: 0,
+      text_tokens: FAKE_INPUT_TOKENS,
+      audio_tokens: 0,
+    },
+    output_token_details: { text_tokens: outputTokens, audio_tokens: 0 },
+  };
+};
+
+/**
+ * In-process stand-in for the Realtime API, to run sessions without a
+ * network, microphone or WebRTC stack, e.g. in component tests under jsdom.
+ * Pass it as `webRTC` and its `fetchClientSecret` in the provider config.
+ * It answers SDP offers with fake peer connections, creates the session once
+ * connected, and answers client events with the scripted responses.
+ */
+export class FakeRealtimeServer implements WebRTCEnvironment {
+  private options: FakeRealtimeServerOptions;
+  private responses: FakeResponse[];
+  private connections = new Map<string, FakeConnection>();
+  // The connection events are emitted on, the last one established
+  private current: FakeConnection | null = null;
+  private sessions = new Map<string, Partial<RealtimeSession>>();
+  // Session of each issued client secret
+  private clientSecrets = new Map<string, string>();
+  private received: RealtimeClientEvent[] = [];
+  private failures = new Map<string, FakeError>();
+  private offerFailure: { status: number; message: string } | null = null;
+  private activeResponses = new Set<string>();
+  private cancelledResponses = new Set<string>();
+  private outbox: Promise<void> = Promise.resolve();
+  private nextId = 0;
+
+  constructor(options: FakeRealtimeServerOptions = {}) {
+    this.options = options;
+    this.responses = [...(options.responses ?? [])];
+  }
+
+  /**
+   * Creates a session like the app's session endpoint, with a client secret.
+   * @param params - Configuration of the session, text only by default.
+   */
+  createSession(
+    params: Partial<OpenAICreateSessionParams> = {}
+  ): RealtimeSession {
+    const session: Partial<RealtimeSession> = {
+      id: this.generateId('sess'),
+      object: 'realtime.session',
+      model: this.options.model ?? 'gpt-4o-realtime-preview',
+      modalities: [Modality.TEXT],
+      ...params,
+    };
+    this.sessions.set(session.id as string, session);
+    return {
+      ...(session as RealtimeSession),
+      client_secret: this.issueClientSecret(session.id as string),
+      transcripts: [],
+      connection_timeout: 10000,
+    };
+  }
+
+  /**
+   * Issues a new client secret for a session, use it as `fetchClientSecret`.
+   */
+  fetchClientSecret = async (
+    session: RealtimeSession
+  ): Promise<ClientSecret> => {
+    if (!this.sessions.has(session.id)) {
+      this.sessions.set(session.id, {
+        id: session.id,
+        object: 'realtime.session',
+        model: session.model,
+        modalities: session.modalities,
+      });
+    }
+    return this.issueClientSecret(session.id);
+  };
+
+  createPeerConnection = (): RTCPeerConnection => {
+    const id = this.generateId('pc');
+    const peerConnection = new FakeRTCPeerConnection(id, {
+      onConnect: (channel) => {
+        const connection = this.connections.get(id);
+        if (connection) {
+          connection.channel = channel;
+          this.current = connection;
+          this.send(connection, {
+            type: RealtimeEventType.SESSION_CREATED,
+            session: connection.session,
+          });
+        }
+      },
+      onMessage: (data) => {
+        const connection = this.connections.get(id);
+        if (connection) {
+          this.handleClientMessage(connection, data);
+        }
+      },
+    });
+    this.connections.set(id, {
+      peerConnection,
+      channel: null,
+      session: {},
+      itemIds: [],
+    });
+    return peerConnection as unknown as RTCPeerConnection;
+  };
+
+  /**
+   * Answers the SDP offer of a fake peer connection.
+   */
+  fetch = async (url: string, init: RequestInit): Promise<Response> => {
+    if (this.offerFailure) {
+      const { status, message } = this.offerFailure;
+      this.offerFailure = null;
+      return createTextResponse(status, JSON.stringify({ error: { message } }));
+    }
+
+    const authorization = new Headers(init.headers).get('Authorization');
+    const sessionId = this.clientSecrets.get(
+      authorization?.replace(/^Bearer /, '') ?? ''
+    );
+    if (!sessionId) {
+      return createTextResponse(
+        401,
+        JSON.stringify({ error: { message: 'Invalid client secret' } })
+      );
+    }
+    const connectionId = String(init.body).match(/^o=- (\S+)/m)?.[1];
+    const connection = connectionId && this.connections.get(connectionId);
+    if (!connection) {
+      return createTextResponse(
+        400,
+        JSON.stringify({ error: { message: 'Unknown offer' } })
+      );
+    }
+
+    connection.session = this.sessions.get(sessionId) ?? { id: sessionId };
+    return createTextResponse(
+      201,
+      `v=0\r\no=- fake-server 2 IN IP4 127.0.0.1\r\ns=-\r\nt=0 0\r\n`
+    );
+  };
+
+  /**
+   * Adds answers to the next `response.create` events.
+   */
+  queueResponse(...responses: FakeResponse[]): void {
+    this.responses.push(...responses);
+  }
+
+  /**
+   * Sends any server event on the current connection.
+   */
+  emit(event: RealtimeServerEvent): void {
+    if (this.current) {
+      this.send(this.current, event);
+    }
+  }
+
+  /**
+   * Simulates the user speaking a turn with server VAD: speech events, the
+   * committed audio item and its transcription. A response follows when the
+   * session has turn detection.
+   */
+  speak(transcript: string): void {
+    const connection = this.current;
+    if (!connection) {
+      return;
+    }
+    const itemId = this.generateId('item');
+    const previousItemId = connection.itemIds.at(-1) ?? null;
+    connection.itemIds.push(itemId);
+    this.send(connection, {
+      type: RealtimeEventType.INPUT_AUDIO_SPEECH_STARTED,
+      audio_start_ms: 0,
+      item_id: itemId,
+    });
+    this.send(connection, {
+      type: RealtimeEventType.INPUT_AUDIO_SPEECH_STOPPED,
+      audio_end_ms: splitWords(transcript).length * 400,
+      item_id: itemId,
+    });
+    this.send(connection, {
+      type: RealtimeEventType.INPUT_AUDIO_COMMITTED,
+      previous_item_id: previousItemId,
+      item_id: itemId,
+    });
+    this.send(connection, {
+      type: RealtimeEventType.CONVERSATION_ITEM_CREATED,
+      previous_item_id: previousItemId,
+      item: {
+        id: itemId,
+        object: 'realtime.item',
+        type: ConversationItemType.MESSAGE,
+        status: ConversationItemStatus.COMPLETED,
+        role: ConversationRole.USER,
+        content: [{ type: ContentType.INPUT_AUDIO }],
+        call_id: '',
+      },
+    });
+    this.send(connection, {
+      type: RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_COMPLETED,
+      item_id: itemId,
+      content_index: 0,
+      transcript,
+    });
+    if (connection.session.turn_detection) {
+      this.respond(connection, {});
+    }
+  }
+
+  /**
+   * Sends an error event on the current connection.
+   * @param relatedEventId - The client event the error is about.
+   */
+  injectError(error: FakeError, relatedEventId?: string): void {
+    if (this.current) {
+      this.sendError(this.current, error, relatedEventId);
+    }
+  }
+
+  /**
+   * Answers the next client event of a type with an error instead of
+   * handling it.
+   */
+  failNext(type: RealtimeClientEvent['type'], error: FakeError): void {
+    this.failures.set(type, error);
+  }
+
+  /**
+   * Fails the next SDP offer, e.g. with 500 or with 401 for an expired secret.
+   */
+  rejectNextOffer(status: number, message = 'Fake server error'): void {
+    this.offerFailure = { status, message };
+  }
+
+  /**
+   * Simulates a lost network: the current connection becomes `disconnected`
+   * until the client restarts ICE.
+   */
+  dropConnection(): void {
+    this.current?.peerConnection.setIceConnectionState('disconnected');
+  }
+
+  /**
+   * Closes the data channel of the current connection, as when the server
+   * ends the session.
+   */
+  closeConnection(): void {
+    this.current?.channel?.close();
+  }
+
+  /**
+   * Gets the client events received by the server, oldest first.
+   * @param type - Only get the events of this type.
+   */
+  getReceivedEvents(type?: RealtimeClientEvent['type']): RealtimeClientEvent[] {
+    return type === undefined
+      ? [...this.received]
+      : this.received.filter((event) => event.type === type);
+  }
+
+  private handleClientMessage(connection: FakeConnection, data: string): void {
+    let event: RealtimeClientEvent;
+    try {
+      event = JSON.parse(data);
+    } catch {
+      this.sendError(connection, {
+        code: 'invalid_json',
+        message: 'The event is not valid JSON',
+      });
+      return;
+    }
+    this.received.push(event);
+
+    const failure = this.failures.get(event.type);
+    if (failure) {
+      this.failures.delete(event.type);
+      this.sendError(connection, failure, event.event_id);
+      return;
+    }
+
+    switch (event.type) {
+      case RealtimeEventType.SESSION_UPDATE:
+        connection.session = { ...connection.session, ...event.session };
+        this.send(connection, {
+          type: RealtimeEventType.SESSION_UPDATED,
+          session: connection.session,
+        });
+        break;
+      case RealtimeEventType.CONVERSATION_ITEM_CREATE: {
+        const itemId = event.item.id ?? this.generateId('item');
+        const previousItemId = connection.itemIds.at(-1) ?? null;
+        connection.itemIds.push(itemId);
+        this.send(connection, {
+          type: RealtimeEventType.CONVERSATION_ITEM_CREATED,
+          previous_item_id: previousItemId,
+          item: {
+            ...event.item,
+            id: itemId,
+            object: 'realtime.item',
+            status: ConversationItemStatus.COMPLETED,
+            call_id: event.item.call_id ?? '',
+          },
+        });
+        break;
+      }
+      case RealtimeEventType.CONVERSATION_ITEM_DELETE:
+        connection.itemIds = connection.itemIds.filter(
+          (itemId) => itemId !== event.item_id
+        );
+        this.send(connection, {
+          type: RealtimeEventType.CONVERSATION_ITEM_DELETED,
+          item_id: event.item_id,
+        });
+        break;
+      case RealtimeEventType.CONVERSATION_ITEM_TRUNCATE:
+        this.send(connection, {
+          type: RealtimeEventType.CONVERSATION_ITEM_TRUNCATED,
+          item_id: event.item_id,
+          content_index: event.content_index,
+          audio_end_ms: event.audio_end_ms,
+        });
+        break;
+      case RealtimeEventType.INPUT_AUDIO_BUFFER_CLEAR:
+        this.send(connection, { type: RealtimeEventType.INPUT_AUDIO_CLEARED });
+        break;
+      case RealtimeEventType.RESPONSE_CREATE:
+        this.respond(connection, event.response, event.event_id);
+        break;
+      case RealtimeEventType.RESPONSE_CANCEL: {
+        const responseId =
+          event.response_id ?? Array.from(this.activeResponses).at(-1);
+        if (responseId && this.activeResponses.has(responseId)) {
+          this.activeResponses.delete(responseId);
+          this.cancelledResponses.add(responseId);
+          this.send(connection, {
+            type: RealtimeEventType.RESPONSE_DONE,
+            response: {
+              id: responseId,
+              object: 'realtime.response',
+              status: 'cancelled',
+              output: [],
+            },
+          });
+        }
+        break;
+      }
+      default:
+        // Audio and other events need no answer
+        break;
+    }
+  }
+
+  // Streams the next scripted response
+  private respond(
+    connection: FakeConnection,
+    body: ResponseCreateBody | object,
+    eventId?: string
+  ): void {
+    const script = this.responses.shift() ??
+      this.options.defaultResponse ?? { text: 'Hello from the fake server.' };
+    if (script.error) {
+      this.sendError(connection, script.error, eventId);
+      return;
+    }
+
+    const { metadata, modalities } = body as ResponseCreateBody;
+    const hasAudio = (modalities ?? connection.session.modalities)?.includes(
+      Modality.AUDIO
+    );
+    const responseId = this.generateId('resp');
+    const send = (event: RealtimeServerEvent) =>
+      this.send(connection, event, responseId);
+    const output: ResponseOutputItem[] = [];
+    this.activeResponses.add(responseId);
+
+    send({
+      type: RealtimeEventType.RESPONSE_CREATED,
+      response: {
+        id: responseId,
+        object: 'realtime.response',
+        status: 'in_progress',
+        metadata: metadata ?? null,
+      },
+    });
+    if (hasAudio) {
+      send({
+        type: RealtimeEventType.OUTPUT_AUDIO_STARTED,
+        response_id: responseId,
+      });
+    }
+
+    if (script.text !== undefined) {
+      const text = script.text;
+      const outputIndex = output.length;
+      const item = this.addOutputItem(connection, responseId, outputIndex, {
+        type: ConversationItemType.MESSAGE,
+        role: ConversationRole.ASSISTANT,
+        content: [],
+      });
+      const part = {
+        response_id: responseId,
+        item_id: item.id,
+        output_index: outputIndex,
+        content_index: 0,
+      };
+      const content: ConversationContent = hasAudio
+        ? { type: ContentType.AUDIO, transcript: text }
+        : { type: ContentType.TEXT, text };
+
+      send({
+        type: RealtimeEventType.RESPONSE_CONTENT_PART_ADDED,
+        ...part,
+        part: { ...content, [hasAudio ? 'transcript' : 'text']: '' },
+      });
+      splitWords(text).forEach((delta) => {
+        send({
+          type: hasAudio
+            ? RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DELTA
+            : RealtimeEventType.RESPONSE_TEXT_DELTA,
+          ...part,
+          delta,
+        });
+      });
+      send(
+        hasAudio
+          ? {
+              type: RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DONE,
+              ...part,
+              transcript: text,
+            }
+          : { type: RealtimeEventType.RESPONSE_TEXT_DONE, ...part, text }
+      );
+      send({
+        type: RealtimeEventType.RESPONSE_CONTENT_PART_DONE,
+        ...part,
+        part: content,
+      });
+      if (hasAudio) {
+        send({ type: RealtimeEventType.RESPONSE_AUDIO_DONE, ...part });
+      }
+      output.push(
+        this.completeOutputItem(connection, responseId, outputIndex, {
+          ...item,
+          content: [content],
+        })
+      );
+    }
+
+    (script.functionCalls ?? []).forEach((call) => {
+      const outputIndex = output.length;
+      const callId = this.generateId('call');
+      const args = JSON.stringify(call.arguments);
+      const item = this.addOutputItem(connection, responseId, outputIndex, {
+        type: ConversationItemType.FUNCTION_CALL,
+        call_id: callId,
+        name: call.name,
+        arguments: '',
+      });
+      const argumentsEvent = {
+        response_id: responseId,
+        item_id: item.id,
+        output_index: outputIndex,
+        call_id: callId,
+      };
+      send({
+        type: RealtimeEventType.RESPONSE_FUNCTION_CALL_ARGUMENTS_DELTA,
+        ...argumentsEvent,
+        delta: args,
+      });
+      send({
+        type: RealtimeEventType.RESPONSE_FUNCTION_CALL_ARGUMENTS_DONE,
+        ...argumentsEvent,
+        arguments: args,
+      });
+      output.push(
+        this.completeOutputItem(connection, responseId, outputIndex, {
+          ...item,
+          arguments: args,
+        })
+      );
+    });
+
+    send({
+      type: RealtimeEventType.RESPONSE_DONE,
+      response: {
+        id: responseId,
+        object: 'realtime.response',
+        status: 'completed',
+        output,
+        usage: script.usage ?? countUsage(script.text ?? ''),
+        metadata,
+      },
+    });
+    if (hasAudio) {
+      send({
+        type: RealtimeEventType.OUTPUT_AUDIO_STOPPED,
+        response_id: responseId,
+      });
+    }
+    if (script.rateLimits) {
+      send({
+        type: RealtimeEventType.RATE_LIMITS_UPDATED,
+        rate_limits: script.rateLimits,
+      });
+    }
+  }
+
+  // Adds an in-progress item to a response and to the conversation
+  private addOutputItem(
+    connection: FakeConnection,
+    responseId: string,
+    outputIndex: number,
+    fields: Pick<ConversationItem, 'type' | 'role' | 'content'> &
+      Partial<Pick<ConversationItem, 'call_id' | 'name' | 'arguments'>>
+  ): ConversationItem & { id: string } {
+    const item = {
+      ...fields,
+      id: this.generateId('item'),
+      object: 'realtime.item' as const,
+      status: ConversationItemStatus.IN_PROGRESS,
+      call_id: fields.call_id ?? '',
+    };
+    const previousItemId = connection.itemIds.at(-1) ?? null;
+    connection.itemIds.push(item.id);
+    this.send(
+      connection,
+      {
+        type: RealtimeEventType.RESPONSE_OUTPUT_ITEM_ADDED,
+        response_id: responseId,
+        output_index: outputIndex,
+        item,
+      },
+      responseId
+    );
+    this.send(
+      connection,
+      {
+        type: RealtimeEventType.CONVERSATION_ITEM_CREATED,
+        previous_item_id: previousItemId,
+        item,
+      },
+      responseId
+    );
+    return item;
+  }
+
+  private completeOutputItem(
+    connection: FakeConnection,
+    responseId: string,
+    outputIndex: number,
+    item: ConversationItem & { id: string }
+  ): ResponseOutputItem {
+    const doneItem: ResponseOutputItemDoneEvent['item'] = {
+      ...item,
+      status: ConversationItemStatus.COMPLETED,
+    };
+    this.send(
+      connection,
+      {
+        type: RealtimeEventType.RESPONSE_OUTPUT_ITEM_DONE,
+        response_id: responseId,
+        output_index: outputIndex,
+        item: doneItem,
+      },
+      responseId
+    );
+    return doneItem;
+  }
+
+  private sendError(
+    connection: FakeConnection,
+    error: FakeError,
+    relatedEventId?: string
+  ): void {
+    this.send(connection, {
+      type: RealtimeEventType.ERROR,
+      error: {
+        event_id: this.generateId('event'),
+        type: error.type ?? 'invalid_request_error',
+        code: error.code ?? null,
+        message: error.message,
+        param: error.param ?? null,
+        related_event_id: relatedEventId ?? null,
+        timestamp: Date.now(),
+      },
+    });
+  }
+
+  /**
+   * Delivers a server event after the events sent before it.
+   * @param responseId - The response the event belongs to, events of
+   * cancelled responses are dropped.
+   */
+  private send(
+    connection: FakeConnection,
+    event: RealtimeServerEvent,
+    responseId?: string
+  ): void {
+    const delayMs = this.options.eventDelayMs ?? 0;
+    this.outbox = this.outbox.then(async () => {
+      if (delayMs > 0) {
+        await new Promise((resolve) => setTimeout(resolve, delayMs));
+      }
+      if (responseId && this.cancelledResponses.has(responseId)) {
+        return;
+      }
+      if (responseId && event.type === RealtimeEventType.RESPONSE_DONE) {
+        this.activeResponses.delete(responseId);
+      }
+      connection.channel?.receive(
+        JSON.stringify({ event_id: this.generateId('event'), ...event })
+      );
+    });
+  }
+
+  private issueClientSecret(sessionId: string): ClientSecret {
+    const value = this.generateId('ek');
+    this.clientSecrets.set(value, sessionId);
+    return {
+      value,
+      expires_at: Math.floor(Date.now() / 1000) + CLIENT_SECRET_TTL_SECONDS,
+    };
+  }
+
+  private generateId(prefix: string): string {
+    this.nextId += 1;
+    return `${prefix}_fake_${this.nextId}`;
+  }
+}
@@ -0,0 +1,397 @@
+import {
+  ContentType,
+  ConversationContent,
+  ConversationItem,
+  NetworkStats,
+  RateLimit,
+  RealtimeSession,
+  ResponseTokenUsage,
+  Transcript,
+  TranscriptStatus,
+  TurnLatency,
+} from '../types';
+import {
+  appendConversationContent,
+  createConversationStore,
+  deleteConversationItem,
+  truncateConversationItem,
+  updateConversationContent,
+  upsertConversationItem,
+} from './conversation';
+import { addTokenUsage, createTokenUsage } from '../utils/tokenUsage';
+import {
+  applyItemTimingUpdates,
+  ItemTimingUpdate,
+} from '../utils/itemTimingTracker';
+
+// Enum for action types to avoid hardcoding strings
+export enum SessionActionType {
+  INIT_SESSION = 'INIT_SESSION',
+  UPDATE_SESSION = 'UPDATE_SESSION',
+  ADD_TRANSCRIPT = 'ADD_TRANSCRIPT',
+  APPEND_TRANSCRIPT_DELTA = 'APPEND_TRANSCRIPT_DELTA',
+  FINALIZE_TRANSCRIPT = 'FINALIZE_TRANSCRIPT',
+  TRUNCATE_TRANSCRIPT = 'TRUNCATE_TRANSCRIPT',
+  RECORD_TOKEN_USAGE = 'RECORD_TOKEN_USAGE',
+  MUTE_SESSION_AUDIO = 'MUTE_SESSION_AUDIO',
+  UNMUTE_SESSION_AUDIO = 'UNMUTE_SESSION_AUDIO',
+  UPDATE_RATE_LIMITS = 'UPDATE_RATE_LIMITS',
+  UPSERT_CONVERSATION_ITEM = 'UPSERT_CONVERSATION_ITEM',
+  DELETE_CONVERSATION_ITEM = 'DELETE_CONVERSATION_ITEM',
+  UPDATE_CONVERSATION_CONTENT = 'UPDATE_CONVERSATION_CONTENT',
+  APPEND_CONVERSATION_CONTENT = 'APPEND_CONVERSATION_CONTENT',
+  TRUNCATE_CONVERSATION_ITEM = 'TRUNCATE_CONVERSATION_ITEM',
+  RECORD_NETWORK_STATS = 'RECORD_NETWORK_STATS',
+  RECORD_TURN_LATENCY = 'RECORD_TURN_LATENCY',
+  RECORD_ITEM_TIMINGS = 'RECORD_ITEM_TIMINGS',
+}
+
+interface InitSessionAction {
+  type: SessionActionType.INIT_SESSION;
+  payload: RealtimeSession;
+}
+
+interface UpdateSessionAction {
+  type: SessionActionType.UPDATE_SESSION;
+  payload: Partial<RealtimeSession>;
+}
+
+interface AddTranscriptAction {
+  type: SessionActionType.ADD_TRANSCRIPT;
+  payload: { transcript: Transcript };
+}
+
+interface AppendTranscriptDeltaAction {
+  type: SessionActionType.APPEND_TRANSCRIPT_DELTA;
+  payload: { transcript: Transcript };
+}
+
+interface FinalizeTranscriptAction {
+  type: SessionActionType.FINALIZE_TRANSCRIPT;
+  payload: { transcript: Transcript };
+}
+
+interface TruncateTranscriptAction {
+  type: SessionActionType.TRUNCATE_TRANSCRIPT;
+  payload: { itemId: string };
+}
+
+interface RecordTokenUsageAction {
+  type: SessionActionType.RECORD_TOKEN_USAGE;
+  payload: { usage: ResponseTokenUsage };
+}
+
+interface MuteSessionAudioAction {
+  type: SessionActionType.MUTE_SESSION_AUDIO;
+}
+
+interface UnmuteSessionAudioAction {
+  type: SessionActionType.UNMUTE_SESSION_AUDIO;
+}
+
+interface UpdateRateLimitsAction {
+  type: SessionActionType.UPDATE_RATE_LIMITS;
+  payload: {
+    rateLimits: RateLimit[];
+    rateLimitResetTime: string;
+    isRateLimited: boolean;
+  };
+}
+
+interface UpsertConversationItemAction {
+  type: SessionActionType.UPSERT_CONVERSATION_ITEM;
+  payload: { item: ConversationItem; previousItemId?: string | null };
+}
+
+interface DeleteConversationItemAction {
+  type: SessionActionType.DELETE_CONVERSATION_ITEM;
+  payload: { itemId: string };
+}
+
+interface UpdateConversationContentAction {
+  type: SessionActionType.UPDATE_CONVERSATION_CONTENT;
+  payload: {
+    itemId: string;
+    contentIndex: number;
+    content: Partial<ConversationContent>;
+  };
+}
+
+interface AppendConversationContentAction {
+  type: SessionActionType.APPEND_CONVERSATION_CONTENT;
+  payload: {
+    itemId: string;
+    contentIndex: number;
+    contentType: ContentType;
+    field: 'text' | 'transcript';
+    delta: string;
+  };
+}
+
+interface TruncateConversationItemAction {
+  type: SessionActionType.TRUNCATE_CONVERSATION_ITEM;
+  payload: { itemId: string; audioEndMs: number };
+}
+
+interface RecordNetworkStatsAction {
+  type: SessionActionType.RECORD_NETWORK_STATS;
+  payload: { networkStats: NetworkStats; historySize: number };
+}
+
+interface RecordTurnLatencyAction {
+  type: SessionActionType.RECORD_TURN_LATENCY;
+  payload: { turn: TurnLatency };
+}
+
+interface RecordItemTimingsAction {
+  type: SessionActionType.RECORD_ITEM_TIMINGS;
+  payload: { updates: ItemTimingUpdate[] };
+}
+
+// Union type for all actions
+export type SessionAction =
+  | InitSessionAction
+  | UpdateSessionAction
+  | AddTranscriptAction
+  | AppendTranscriptDeltaAction
+  | FinalizeTranscriptAction
+  | TruncateTranscriptAction
+  | RecordTokenUsageAction
+  | MuteSessionAudioAction
+  | UnmuteSessionAudioAction
+  | UpdateRateLimitsAction
+  | UpsertConversationItemAction
+  | DeleteConversationItemAction
+  | UpdateConversationContentAction
+  | AppendConversationContentAction
+  | TruncateConversationItemAction
+  | RecordNetworkStatsAction
+  | RecordTurnLatencyAction
+  | RecordItemTimingsAction;
+
+// Finds the transcript of the same item content part
+const findTranscriptIndex = (
+  transcripts: Transcript[],
+  transcript: Transcript,
+  status?: TranscriptStatus
+): number =>
+  transcript.itemId === undefined
+    ? -1
+    : transcripts.findIndex(
+        (existing) =>
+          existing.itemId === transcript.itemId &&
+          existing.contentIndex === transcript.contentIndex &&
+          (status === undefined || existing.status === status)
+      );
+
+// Reducer function
+export const sessionReducer = (
+  state: RealtimeSession | null,
+  action: SessionAction
+): RealtimeSession | null => {
+  switch (action.type) {
+    case SessionActionType.INIT_SESSION:
+      return action.payload;
+    case SessionActionType.UPDATE_SESSION:
+      if (!state) {
+        return null;
+      }
+      return { ...state, ...action.payload };
+    case SessionActionType.ADD_TRANSCRIPT:
+      if (!state) {
+        return null;
+      }
+      return {
+        ...state,
+        transcripts: [...(state?.transcripts || []), action.payload.transcript],
+      };
+    case SessionActionType.APPEND_TRANSCRIPT_DELTA: {
+      if (!state) {
+        return null;
+      }
+      const { transcript } = action.payload;
+      const transcripts = [...(state.transcripts || [])];
+      const index = findTranscriptIndex(
+        transcripts,
+        transcript,
+        TranscriptStatus.PARTIAL
+      );
+      if (index >= 0) {
+        transcripts[index] = {
+          ...transcripts[index],
+          content: transcripts[index].content + transcript.content,
+        };
+      } else {
+        transcripts.push({ ...transcript, status: TranscriptStatus.PARTIAL });
+      }
+      return { ...state, transcripts };
+    }
+    case SessionActionType.FINALIZE_TRANSCRIPT: {
+      if (!state) {
+        return null;
+      }
+      const { transcript } = action.payload;
+      const transcripts = [...(state.transcripts || [])];
+      const index = findTranscriptIndex(transcripts, transcript);
+      if (index >= 0) {
+        // Keep the position and start time of the streamed transcript
+        transcripts[index] = {
+          ...transcripts[index],
+          content: transcript.content,
+          status: TranscriptStatus.FINAL,
+        };
+      } else {
+        transcripts.push({ ...transcript, status: TranscriptStatus.FINAL });
+      }
+      return { ...state, transcripts };
+    }
+    case SessionActionType.TRUNCATE_TRANSCRIPT:
+      if (!state) {
+        return null;
+      }
+      return {
+        ...state,
+        transcripts: (state.transcripts || []).map((transcript) =>
+          transcript.itemId === action.payload.itemId
+            ? { ...transcript, truncated: true }
+            : transcript
+        ),
+      };
+    case SessionActionType.RECORD_TOKEN_USAGE: {
+      if (!state) {
+        return null;
+      }
+      const { usage } = action.payload;
+      return {
+        ...state,
+        tokenUsage: addTokenUsage(
+          state.tokenUsage ?? createTokenUsage(),
+          usage
+        ),
+        tokenUsageHistory: [...(state.tokenUsageHistory ?? []), usage],
+        // Stays null until a response of a priced model is done
+        estimatedCost:
+          usage.cost === null
+            ? (state.estimatedCost ?? null)
+            : (state.estimatedCost ?? 0) + usage.cost,
+      };
+    }
+    case SessionActionType.MUTE_SESSION_AUDIO:
+      if (!state) {
+        return null;
+      }
+      return { ...state, isMuted: true };
+    case SessionActionType.UNMUTE_SESSION_AUDIO:
+      if (!state) {
+        return null;
+      }
+      return { ...state, isMuted: false };
+    case SessionActionType.UPDATE_RATE_LIMITS:
+      if (!state) {
+        return null;
+      }
+      return {
+        ...state,
+        rateLimits: action.payload.rateLimits,
+        rateLimitResetTime: action.payload.rateLimitResetTime,
+        isRateLimited: action.payload.isRateLimited,
+      };
+    case SessionActionType.UPSERT_CONVERSATION_ITEM:
+      if (!state) {
+        return null;
+      }
+      return {
+        ...state,
+        conversation: upsertConversationItem(
+          state.conversation ?? createConversationStore(),
+          action.payload.item,
+          action.payload.previousItemId
+        ),
+      };
+    case SessionActionType.DELETE_CONVERSATION_ITEM:
+      if (!state?.conversation) {
+        return state;
+      }
+      return {
+        ...state,
+        conversation: deleteConversationItem(
+          state.conversation,
+          action.payload.itemId
+        ),
+      };
+    case SessionActionType.UPDATE_CONVERSATION_CONTENT:
+      if (!state?.conversation) {
+        return state;
+      }
+      return {
+        ...state,
+        conversation: updateConversationContent(
+          state.conversation,
+          action.payload.itemId,
+          action.payload.contentIndex,
+          action.payload.content
+        ),
+      };
+    case SessionActionType.APPEND_CONVERSATION_CONTENT:
+      if (!state?.conversation) {
+        return state;
+      }
+      return {
+        ...state,
+        conversation: appendConversationContent(
+          state.conversation,
+          action.payload.itemId,
+          action.payload.contentIndex,
+          action.payload.contentType,
+          action.payload.field,
+          action.payload.delta
+        ),
+      };
+    case SessionActionType.TRUNCATE_CONVERSATION_ITEM:
+      if (!state?.conversation) {
+        return state;
+      }
+      return {
+        ...state,
+        conversation: truncateConversationItem(
+          state.conversation,
+          action.payload.itemId,
+          action.payload.audioEndMs
+        ),
+      };
+    case SessionActionType.RECORD_NETWORK_STATS:
+      if (!state) {
+        return null;
+      }
+      return {
+        ...state,
+        networkStats: action.payload.networkStats,
+        networkStatsHistory: [
+          ...(state.networkStatsHistory ?? []),
+          action.payload.networkStats,
+        ].slice(-action.payload.historySize),
+      };
+    case SessionActionType.RECORD_TURN_LATENCY:
+      if (!state) {
+        return null;
+      }
+      return {
+        ...state,
+        turnLatencies: [...(state.turnLatencies ?? []), action.payload.turn],
+      };
+    case SessionActionType.RECORD_ITEM_TIMINGS:
+      if (!state) {
+        return null;
+      }
+      return {
+        ...state,
+        itemTimings: applyItemTimingUpdates(
+          state.itemTimings ?? {},
+          action.payload.updates
+        ),
+      };
+    default:
+      // Ensure exhaustive checks in TypeScript
+      throw new Error(`Unhandled action type: ${action}`);
+  }
+};
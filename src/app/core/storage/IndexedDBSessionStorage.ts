@@ -0,0 +1,82 @@
+import {
+  SessionStorageAdapter,
+  StoredSession,
+  StoredSessionSummary,
+} from '../../types';
+import { SessionPersistence } from '../../utils/constants';
+import { summarizeStoredSession } from '../../utils/storedSession';
+
+const DATABASE_VERSION = 1;
+
+// Resolves with the result of a request, or rejects with its error
+const toPromise = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+/**
+ * Storage keeping sessions in an IndexedDB database of the browser, keyed by
+ * session id. The database is opened on first use.
+ */
+export class IndexedDBSessionStorage implements SessionStorageAdapter {
+  private databaseName: string;
+  private database: Promise<IDBDatabase> | null = null;
+
+  constructor(databaseName: string = SessionPersistence.DATABASE_NAME) {
+    this.databaseName = databaseName;
+  }
+
+  async save(session: StoredSession): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await toPromise(store.put(session));
+  }
+
+  async load(sessionId: string): Promise<StoredSession | null> {
+    const store = await this.getStore('readonly');
+    const session = await toPromise<StoredSession | undefined>(
+      store.get(sessionId)
+    );
+    return session ?? null;
+  }
+
+  async list(): Promise<StoredSessionSummary[]> {
+    const store = await this.getStore('readonly');
+    const sessions = await toPromise<StoredSession[]>(store.getAll());
+    return sessions
+      .map(summarizeStoredSession)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    const store = await this.getStore('readwrite');
+    await toPromise(store.delete(sessionId));
+  }
+
+  private async getStore(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database
+      .transaction(SessionPersistence.STORE_NAME, mode)
+      .objectStore(SessionPersistence.STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.database) {
+      if (typeof indexedDB === 'undefined') {
+        return Promise.reject(new Error('IndexedDB is not available'));
+      }
+      const request = indexedDB.open(this.databaseName, DATABASE_VERSION);
+      request.onupgradeneeded = () => {
+        request.result.createObjectStore(SessionPersistence.STORE_NAME, {
+          keyPath: 'id',
+        });
+      };
+      this.database = toPromise(request).catch((error: unknown) => {
+        // Retry on the next use, e.g. after the user allowed storage
+        this.database = null;
+        throw error;
+      });
+    }
+    return this.database;
+  }
+}
@@ -0,0 +1,33 @@
+import {
+  SessionStorageAdapter,
+  StoredSession,
+  StoredSessionSummary,
+} from '../../types';
+import { summarizeStoredSession } from '../../utils/storedSession';
+
+/**
+ * Storage keeping sessions in memory, e.g. for tests or server rendering.
+ * Sessions are copied on save and load, like a real database would.
+ */
+export class MemorySessionStorage implements SessionStorageAdapter {
+  private sessions = new Map<string, StoredSession>();
+
+  async save(session: StoredSession): Promise<void> {
+    this.sessions.set(session.id, structuredClone(session));
+  }
+
+  async load(sessionId: string): Promise<StoredSession | null> {
+    const session = this.sessions.get(sessionId);
+    return session ? structuredClone(session) : null;
+  }
+
+  async list(): Promise<StoredSessionSummary[]> {
+    return [...this.sessions.values()]
+      .map(summarizeStoredSession)
+      .sort((a, b) => b.savedAt.localeCompare(a.savedAt));
+  }
+
+  async delete(sessionId: string): Promise<void> {
+    this.sessions.delete(sessionId);
+  }
+}
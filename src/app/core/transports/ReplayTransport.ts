@@ -0,0 +1,120 @@
+import {
+  ConnectionStatus,
+  JournalEntry,
+  Logger,
+  RealtimeClientEvent,
+  RealtimeSession,
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+} from '../../types';
+
+// Events handed over at once before yielding to the page, when replaying fast
+const MAX_EVENTS_PER_TICK = 100;
+
+/**
+ * Transport feeding the incoming events of an event journal to the client
+ * instead of a live connection, with the timing they were received.
+ * Client events sent during the replay are dropped, and the transport closes
+ * once the last event was replayed.
+ */
+export class ReplayTransport implements RealtimeTransport {
+  private entries: JournalEntry[];
+  private speed: number;
+  private logger: Logger;
+  private handlers: RealtimeTransportHandlers | null = null;
+  private nextIndex = 0;
+  // performance.now() when the replay started
+  private startedAt = 0;
+  private timeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  /**
+   * @param entries - The incoming entries to replay, oldest first.
+   * @param speed - Speed factor, Infinity to replay without waiting.
+   */
+  constructor(entries: JournalEntry[], speed: number, logger: Logger) {
+    this.entries = entries;
+    this.speed = speed;
+    this.logger = logger;
+  }
+
+  async connect(
+    session: RealtimeSession,
+    handlers: RealtimeTransportHandlers
+  ): Promise<void> {
+    this.handlers = handlers;
+    this.startedAt = performance.now();
+    handlers.onSessionUpdate({
+      connectionStatus: ConnectionStatus.CONNECTED,
+      lastStateChange: new Date().toISOString(),
+    });
+    this.logger.info(
+      `Replaying ${this.entries.length} events of session '${session.id}' at ${this.speed}x`
+    );
+    handlers.onDrain();
+    this.scheduleNext();
+  }
+
+  isOpen(): boolean {
+    return this.handlers !== null;
+  }
+
+  send(event: RealtimeClientEvent): void {
+    if (!this.handlers) {
+      throw new Error('Replay is over');
+    }
+    this.logger.debug(`Dropped ${event.type} event sent during the replay`);
+  }
+
+  getBufferedAmount(): number {
+    return 0;
+  }
+
+  close(): void {
+    if (this.timeoutId) {
+      clearTimeout(this.timeoutId);
+      this.timeoutId = null;
+    }
+    this.handlers = null;
+  }
+
+  // Offset of an entry from the start of the replay, scaled by the speed
+  private getDueMs(entry: JournalEntry): number {
+    return (entry.timestamp - this.entries[0].timestamp) / this.speed;
+  }
+
+  private scheduleNext(): void {
+    const entry = this.entries[this.nextIndex];
+    const handlers = this.handlers;
+    if (!handlers) {
+      return;
+    }
+    if (!entry) {
+      this.logger.info('Replay finished');
+      handlers.onClose();
+      return;
+    }
+    const delay = this.getDueMs(entry) - (performance.now() - this.startedAt);
+    this.timeoutId = setTimeout(this.replayDueEvents, Math.max(0, delay));
+  }
+
+  // Hands over the events that are due, then waits for the next one
+  private replayDueEvents = (): void => {
+    this.timeoutId = null;
+    const elapsedMs = performance.now() - this.startedAt;
+    let replayed = 0;
+    while (
+      this.handlers &&
+      this.nextIndex < this.entries.length &&
+      this.getDueMs(this.entries[this.nextIndex]) <= elapsedMs &&
+      replayed < MAX_EVENTS_PER_TICK
+    ) {
+      const { event } = this.entries[this.nextIndex];
+      this.nextIndex += 1;
+      replayed += 1;
+      this.handlers.onMessage(
+        typeof event === 'string' ? event : JSON.stringify(event)
+      );
+    }
+    this.scheduleNext();
+  };
+}
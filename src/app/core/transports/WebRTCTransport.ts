@@ -0,0 +1,487 @@
+import {
+  ConnectionStatus,
+  Logger,
+  Modality,
+  RealtimeClientEvent,
+  RealtimeSession,
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+  RealtimeTransportOptions,
+} from '../../types';
+import { OutgoingEvents } from '../../utils/constants';
+import { captureMicrophone } from '../../utils/audio';
+
+/**
+ * Transport speaking to the Realtime API over an RTCPeerConnection.
+ * Audio flows as media tracks, events over an RTCDataChannel.
+ */
+export class WebRTCTransport implements RealtimeTransport {
+  private options: RealtimeTransportOptions;
+  private logger: Logger;
+  private handlers: RealtimeTransportHandlers | null = null;
+  private session: RealtimeSession | null = null;
+  private peerConnection: RTCPeerConnection | null = null;
+  private dataChannel: RTCDataChannel | null = null;
+  private localStream: MediaStream | null = null;
+  private audioSender: RTCRtpSender | null = null;
+  private microphoneEnabled: boolean;
+  private remoteStream: MediaStream | null = null;
+  private iceTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RealtimeTransportOptions) {
+    this.options = options;
+    this.logger = options.logger;
+    this.microphoneEnabled = !options.microphoneMuted;
+  }
+
+  async connect(
+    session: RealtimeSession,
+    handlers: RealtimeTransportHandlers
+  ): Promise<void> {
+    const sessionId = session.id;
+    const logger = this.logger;
+    this.session = session;
+    this.handlers = handlers;
+
+    const configuration: RTCConfiguration = {
+      iceServers: [], // OpenAI handles this
+    };
+    const pc = this.options.webRTC
+      ? this.options.webRTC.createPeerConnection(configuration)
+      : new RTCPeerConnection(configuration);
+    this.peerConnection = pc;
+
+    const { audioSettings } = this.options;
+
+    // Get user media if audio modality is required and we have audio settings
+    if (session.modalities?.includes(Modality.AUDIO) && audioSettings) {
+      try {
+        const localStream = await captureMicrophone(
+          audioSettings,
+          this.options.inputDeviceId
+        );
+        this.localStream = localStream;
+        logger.info('Local stream created', { sessionId });
+        localStream.getAudioTracks().forEach((track) => {
+          this.audioSender = pc.addTrack(track, localStream);
+          logger.info('Audio track added', { sessionId });
+          this.attachMicrophoneTrack(track);
+        });
+      } catch (error: unknown) {
+        logger.error('Failed to get user media:', { sessionId, error });
+        throw new Error('Microphone access failed');
+      }
+    }
+
+    // Set ICE timeout from config
+    this.iceTimeoutId = setTimeout(() => {
+      if (pc.iceConnectionState !== 'connected') {
+        logger.error(`ICE connection timeout for session '${sessionId}'`);
+        this.close();
+      }
+    }, this.options.connectionTimeout);
+
+    // Initialize peer connection with monitoring
+    this.monitorConnectionState(pc, sessionId);
+
+    // Create data channel
+    const dc = pc.createDataChannel(sessionId);
+    dc.bufferedAmountLowThreshold = OutgoingEvents.BUFFERED_AMOUNT_LOW;
+    this.dataChannel = dc;
+    handlers.onSessionUpdate({
+      peer_connection: pc,
+      dataChannel: dc,
+    });
+
+    pc.onnegotiationneeded = async () => {
+      try {
+        logger.info(`Negotiation needed for session '${sessionId}'`);
+        await this.negotiate(pc, sessionId, false);
+        logger.info(`Negotiation completed for session '${sessionId}'`, {
+          sessionId,
+        });
+      } catch (error: unknown) {
+        logger.error(`Failed to negotiate session '${sessionId}':`, {
+          sessionId,
+          error,
+        });
+        throw error;
+      }
+    };
+
+    // Handle tracks with cleanup
+    pc.ontrack = (event) => {
+      logger.info(`Remote stream received for session '${sessionId}'.`);
+      event.track.onended = () => {
+        this.close();
+      };
+
+      this.remoteStream = event.streams[0];
+      handlers.onSessionUpdate({
+        mediaStream: event.streams[0],
+      });
+    };
+
+    // Add event listeners to handle data channel lifecycle
+    dc.addEventListener('open', () => {
+      handlers.onSessionUpdate({
+        connectionStatus: ConnectionStatus.CONNECTED,
+      });
+
+      logger.info(`Data channel for session '${sessionId}' is open.`);
+      handlers.onDrain();
+    });
+
+    dc.addEventListener('bufferedamountlow', () => {
+      handlers.onDrain();
+    });
+
+    dc.addEventListener('message', (e: MessageEvent<string>) => {
+      handlers.onMessage(e.data);
+    });
+
+    dc.addEventListener('close', () => {
+      logger.info(`Session '${sessionId}' closed.`);
+      handlers.onClose();
+    });
+  }
+
+  isOpen(): boolean {
+    return this.dataChannel?.readyState === 'open';
+  }
+
+  /**
+   * Restores the connection with an ICE restart over the existing peer connection.
+   */
+  async restart(): Promise<void> {
+    const pc = this.peerConnection;
+    const sessionId = this.session?.id;
+    if (!pc || !sessionId) {
+      throw new Error('Peer connection is closed');
+    }
+
+    this.logger.info(`Attempting ICE restart for session '${sessionId}'`);
+    await this.negotiate(pc, sessionId, true);
+    await this.waitForIceConnection(pc);
+    this.logger.info(`ICE restart successful for session '${sessionId}'`, {
+      sessionId,
+    });
+  }
+
+  send(event: RealtimeClientEvent): void {
+    if (!this.dataChannel || this.dataChannel.readyState !== 'open') {
+      throw new Error('Data channel is not open');
+    }
+    this.dataChannel.send(JSON.stringify(event));
+  }
+
+  getBufferedAmount(): number {
+    return this.dataChannel?.bufferedAmount ?? 0;
+  }
+
+  getStats(): Promise<RTCStatsReport> {
+    if (!this.peerConnection) {
+      return Promise.reject(new Error('Peer connection is closed'));
+    }
+    return this.peerConnection.getStats();
+  }
+
+  getMaxMessageSize(): number {
+    return (
+      this.peerConnection?.sctp?.maxMessageSize ??
+      OutgoingEvents.DEFAULT_MAX_MESSAGE_SIZE
+    );
+  }
+
+  getInputStream(): MediaStream | null {
+    return this.localStream;
+  }
+
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.microphoneEnabled = enabled;
+    this.localStream?.getAudioTracks().forEach((track) => {
+      track.enabled = enabled;
+    });
+  }
+
+  async setInputDevice(deviceId: string | null): Promise<void> {
+    const sender = this.audioSender;
+    const { audioSettings } = this.options;
+    if (!sender || !audioSettings) {
+      throw new Error('No microphone is being captured');
+    }
+
+    const localStream = await captureMicrophone(audioSettings, deviceId);
+    const [track] = localStream.getAudioTracks();
+    try {
+      // The transport may have been closed while the device was opening
+      if (this.audioSender !== sender) {
+        throw new Error('Peer connection is closed');
+      }
+      await sender.replaceTrack(track);
+    } catch (error: unknown) {
+      localStream.getTracks().forEach((newTrack) => newTrack.stop());
+      throw error;
+    }
+
+    this.releaseMicrophone();
+    this.localStream = localStream;
+    this.attachMicrophoneTrack(track);
+    this.logger.info(
+      `Input device switched for session '${this.session?.id}'`,
+      {
+        sessionId: this.session?.id,
+        deviceId,
+      }
+    );
+  }
+
+  /**
+   * Utility function to properly cleanup WebRTC resources
+   */
+  close(): void {
+    this.clearIceTimeout();
+    this.releaseMicrophone();
+    this.audioSender = null;
+
+    // Cleanup media tracks
+    if (this.remoteStream) {
+      this.remoteStream.getTracks().forEach((track) => {
+        track.onended = null;
+        track.stop();
+        track.dispatchEvent(new Event('ended'));
+      });
+      this.remoteStream = null;
+    }
+
+    // Cleanup data channel
+    if (this.dataChannel) {
+      this.dataChannel.onmessage = null;
+      this.dataChannel.onopen = null;
+      this.dataChannel.onclose = null;
+      this.dataChannel.onerror = null;
+      if (this.dataChannel.readyState !== 'closed') {
+        this.dataChannel.close();
+      }
+      this.dataChannel = null;
+    }
+
+    // Cleanup peer connection
+    if (this.peerConnection) {
+      // Remove all event listeners
+      this.peerConnection.onicecandidate = null;
+      this.peerConnection.ontrack = null;
+      this.peerConnection.oniceconnectionstatechange = null;
+      this.peerConnection.onsignalingstatechange = null;
+      this.peerConnection.ondatachannel = null;
+      this.peerConnection.onnegotiationneeded = null;
+
+      // Close the connection if not already closed
+      if (this.peerConnection.signalingState !== 'closed') {
+        this.peerConnection.close();
+      }
+      this.peerConnection = null;
+    }
+  }
+
+  /**
+   * Applies the mute state to a new microphone track and reports it.
+   */
+  private attachMicrophoneTrack(track: MediaStreamTrack): void {
+    track.enabled = this.microphoneEnabled;
+    this.handlers?.onSessionUpdate({
+      hasAudio: true,
+      inputDeviceId: track.getSettings().deviceId ?? null,
+    });
+    // Monitor track status
+    track.onended = () => {
+      this.logger.info('Audio track ended', { sessionId: this.session?.id });
+      this.handlers?.onSessionUpdate({ hasAudio: false });
+    };
+  }
+
+  private releaseMicrophone(): void {
+    if (this.localStream) {
+      this.localStream.getTracks().forEach((track) => {
+        track.onended = null;
+        track.stop();
+      });
+      this.localStream = null;
+    }
+  }
+
+  private clearIceTimeout(): void {
+    if (this.iceTimeoutId) {
+      clearTimeout(this.iceTimeoutId);
+      this.iceTimeoutId = null;
+    }
+  }
+
+  /**
+   * Exchanges SDP with the OpenAI Realtime API.
+   * @param pc - The peer connection to negotiate.
+   * @param sessionId - The session being negotiated.
+   * @param iceRestart - Whether to restart ICE (used for reconnection).
+   */
+  private async negotiate(
+    pc: RTCPeerConnection,
+    sessionId: string,
+    iceRestart: boolean
+  ): Promise<void> {
+    const offer = await pc.createOffer({
+      iceRestart,
+      offerToReceiveAudio: true,
+    });
+    await pc.setLocalDescription(offer);
+    this.logger.info('Offer created and set local description', {
+      sessionId,
+      offer: offer.sdp,
+    });
+
+    let response = await this.postOffer(
+      offer.sdp,
+      await this.options.getClientSecret()
+    );
+
+    // The ephemeral key expired, retry once with a fresh one
+    if (response.status === 401) {
+      this.logger.warn('Client secret rejected, refreshing it', { sessionId });
+      response = await this.postOffer(
+        offer.sdp,
+        await this.options.getClientSecret(true)
+      );
+    }
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      this.logger.error('OpenAI API error:', { sessionId, errorText });
+      throw new Error(errorText);
+    }
+
+    const answerSdp = await response.text();
+    this.logger.info('Received answer SDP:', { sessionId, answerSdp });
+
+    await pc.setRemoteDescription({
+      type: 'answer',
+      sdp: answerSdp,
+    });
+  }
+
+  private postOffer(
+    sdp: string | undefined,
+    clientSecret: string
+  ): Promise<Response> {
+    const url = `${this.options.realtimeApiUrl}?model=${this.options.modelId}`;
+    const init: RequestInit = {
+      method: 'POST',
+      body: sdp,
+      headers: {
+        Authorization: `Bearer ${clientSecret}`,
+        'Content-Type': 'application/sdp',
+      },
+    };
+    return this.options.webRTC
+      ? this.options.webRTC.fetch(url, init)
+      : fetch(url, init);
+  }
+
+  /**
+   * Waits until ICE is connected again, or fails on `failed`, `closed` or timeout.
+   */
+  private waitForIceConnection(pc: RTCPeerConnection): Promise<void> {
+    return new Promise((resolve, reject) => {
+      if (
+        pc.iceConnectionState === 'connected' ||
+        pc.iceConnectionState === 'completed'
+      ) {
+        resolve();
+        return;
+      }
+
+      const cleanup = () => {
+        clearTimeout(timeoutId);
+        pc.removeEventListener('iceconnectionstatechange', onStateChange);
+      };
+      const onStateChange = () => {
+        const state = pc.iceConnectionState;
+        if (state === 'connected' || state === 'completed') {
+          cleanup();
+          resolve();
+        } else if (state === 'failed' || state === 'closed') {
+          cleanup();
+          reject(new Error(`ICE connection ${state}`));
+        }
+      };
+      const timeoutId = setTimeout(() => {
+        cleanup();
+        reject(new Error('ICE restart timeout'));
+      }, this.options.connectionTimeout);
+
+      pc.addEventListener('iceconnectionstatechange', onStateChange);
+    });
+  }
+
+  // Enhance ICE connection monitoring with reconnection logic
+  private monitorConnectionState(pc: RTCPeerConnection, sessionId: string) {
+    pc.oniceconnectionstatechange = () => {
+      const state = pc.iceConnectionState;
+      this.logger.info(`ICE Connection State for session '${sessionId}':`, {
+        sessionId,
+        state,
+      });
+
+      switch (state) {
+        case 'new':
+          break;
+
+        case 'checking':
+          this.handlers?.onSessionUpdate({
+            connectionStatus: ConnectionStatus.CONNECTING,
+            lastStateChange: new Date().toISOString(),
+          });
+          break;
+
+        case 'connected':
+        case 'completed':
+          this.clearIceTimeout();
+          this.handlers?.onSessionUpdate({
+            connectionStatus: ConnectionStatus.CONNECTED,
+            lastStateChange: new Date().toISOString(),
+          });
+          break;
+
+        case 'disconnected':
+          this.handlers?.onSessionUpdate({
+            connectionStatus: ConnectionStatus.DISCONNECTED,
+            lastStateChange: new Date().toISOString(),
+          });
+          this.logger.warn(`Session '${sessionId}' disconnected.`);
+          this.handlers?.onConnectionLost();
+          break;
+
+        case 'failed':
+          this.clearIceTimeout();
+          this.handlers?.onSessionUpdate({
+            connectionStatus: ConnectionStatus.FAILED,
+            lastStateChange: new Date().toISOString(),
+          });
+          // An ICE restart can still recover a failed connection
+          this.handlers?.onConnectionLost();
+          break;
+
+        case 'closed':
+          this.clearIceTimeout();
+          this.handlers?.onSessionUpdate({
+            connectionStatus: ConnectionStatus.CLOSED,
+            lastStateChange: new Date().toISOString(),
+          });
+          this.close();
+          break;
+
+        default:
+          // Ensure exhaustive check using enums where possible
+          throw new Error(`Unhandled ICE connection state: ${state}`);
+      }
+    };
+  }
+}
@@ -0,0 +1,318 @@
+import {
+  AudioSettings,
+  ConnectionStatus,
+  Logger,
+  Modality,
+  RealtimeClientEvent,
+  RealtimeSession,
+  RealtimeTransport,
+  RealtimeTransportHandlers,
+  RealtimeTransportOptions,
+  ResponseAudioDeltaEvent,
+} from '../../types';
+import {
+  base64PCM16ToFloat,
+  captureMicrophone,
+  floatToBase64PCM16,
+  PCM16_SAMPLE_RATE,
+} from '../../utils/audio';
+
+/**
+ * Transport speaking to the Realtime API over a WebSocket.
+ * Microphone audio is streamed as `input_audio_buffer.append` events and
+ * `response.audio.delta` PCM16 output is played into a local MediaStream,
+ * so consumers can treat it like the remote stream of a WebRTC session.
+ */
+export class WebSocketTransport implements RealtimeTransport {
+  private options: RealtimeTransportOptions;
+  private logger: Logger;
+  private socket: WebSocket | null = null;
+  private handlers: RealtimeTransportHandlers | null = null;
+  private localStream: MediaStream | null = null;
+  private microphoneEnabled: boolean;
+  private inputContext: AudioContext | null = null;
+  private inputSource: MediaStreamAudioSourceNode | null = null;
+  private inputProcessor: ScriptProcessorNode | null = null;
+  private outputContext: AudioContext | null = null;
+  private outputDestination: MediaStreamAudioDestinationNode | null = null;
+  // Time on the output context at which the next audio delta starts playing
+  private nextPlaybackTime = 0;
+  // Scheduled audio deltas that have not finished playing
+  private playbackSources: Set<AudioBufferSourceNode> = new Set();
+
+  constructor(options: RealtimeTransportOptions) {
+    this.options = options;
+    this.logger = options.logger;
+    this.microphoneEnabled = !options.microphoneMuted;
+  }
+
+  async connect(
+    session: RealtimeSession,
+    handlers: RealtimeTransportHandlers
+  ): Promise<void> {
+    const sessionId = session.id;
+    const logger = this.logger;
+    const url = `${this.options.realtimeApiUrl.replace(/^http/, 'ws')}?model=${this.options.modelId}`;
+    const clientSecret = await this.options.getClientSecret();
+    this.handlers = handlers;
+
+    // Browsers cannot set headers on a WebSocket, so the ephemeral key travels as a subprotocol
+    const socket = new WebSocket(url, [
+      'realtime',
+      `openai-insecure-api-key.${clientSecret}`,
+      'openai-beta.realtime-v1',
+    ]);
+    this.socket = socket;
+
+    if (session.modalities?.includes(Modality.AUDIO)) {
+      this.setupOutputAudio();
+      handlers.onSessionUpdate({
+        mediaStream: this.outputDestination?.stream ?? null,
+      });
+    }
+
+    socket.addEventListener('message', (e: MessageEvent<string>) => {
+      handlers.onMessage(e.data);
+    });
+
+    socket.addEventListener('close', () => {
+      logger.info(`Session '${sessionId}' closed.`);
+      // A socket closed by the server rather than by `close()` is a lost connection
+      if (this.socket === socket) {
+        handlers.onConnectionLost();
+      } else {
+        handlers.onClose();
+      }
+    });
+
+    // Wait until the socket is open or fails
+    await new Promise<void>((resolve, reject) => {
+      const timeoutId = setTimeout(() => {
+        logger.error(`WebSocket connection timeout for session '${sessionId}'`);
+        reject(new Error('WebSocket connection timeout'));
+      }, this.options.connectionTimeout);
+
+      socket.addEventListener('open', () => {
+        clearTimeout(timeoutId);
+        handlers.onSessionUpdate({
+          connectionStatus: ConnectionStatus.CONNECTED,
+          lastStateChange: new Date().toISOString(),
+        });
+        logger.info(`WebSocket for session '${sessionId}' is open.`);
+        handlers.onDrain();
+        resolve();
+      });
+
+      socket.addEventListener('error', (error) => {
+        clearTimeout(timeoutId);
+        logger.error(`WebSocket error for session '${sessionId}':`, {
+          sessionId,
+          error,
+        });
+        handlers.onSessionUpdate({
+          connectionStatus: ConnectionStatus.FAILED,
+          lastStateChange: new Date().toISOString(),
+        });
+        reject(new Error('WebSocket connection failed'));
+      });
+    });
+
+    // Stream the microphone once events can be sent
+    const { audioSettings } = this.options;
+    if (session.modalities?.includes(Modality.AUDIO) && audioSettings) {
+      try {
+        await this.startMicrophone(audioSettings);
+        logger.info('Microphone streaming started', { sessionId });
+      } catch (error: unknown) {
+        logger.error('Failed to get user media:', { sessionId, error });
+        throw new Error('Microphone access failed');
+      }
+    }
+  }
+
+  isOpen(): boolean {
+    return this.socket?.readyState === WebSocket.OPEN;
+  }
+
+  send(event: RealtimeClientEvent): void {
+    if (!this.socket || this.socket.readyState !== WebSocket.OPEN) {
+      throw new Error('WebSocket is not open');
+    }
+    this.socket.send(JSON.stringify(event));
+  }
+
+  getBufferedAmount(): number {
+    return this.socket?.bufferedAmount ?? 0;
+  }
+
+  getInputStream(): MediaStream | null {
+    return this.localStream;
+  }
+
+  setMicrophoneEnabled(enabled: boolean): void {
+    this.microphoneEnabled = enabled;
+    this.localStream?.getAudioTracks().forEach((track) => {
+      track.enabled = enabled;
+    });
+  }
+
+  async setInputDevice(deviceId: string | null): Promise<void> {
+    const { inputContext, inputProcessor } = this;
+    const { audioSettings } = this.options;
+    if (!inputContext || !inputProcessor || !audioSettings) {
+      throw new Error('No microphone is being captured');
+    }
+
+    const localStream = await captureMicrophone(audioSettings, deviceId);
+    // The transport may have been closed while the device was opening
+    if (this.inputProcessor !== inputProcessor) {
+      localStream.getTracks().forEach((track) => track.stop());
+      throw new Error('WebSocket is closed');
+    }
+
+    this.releaseMicrophone();
+    this.connectMicrophone(localStream, inputContext, inputProcessor);
+  }
+
+  stopPlayback(): void {
+    this.playbackSources.forEach((source) => {
+      source.onended = null;
+      source.stop();
+    });
+    this.playbackSources.clear();
+    this.nextPlaybackTime = 0;
+  }
+
+  // Schedules the audio deltas back to back on the output stream
+  playAudioDelta(event: ResponseAudioDeltaEvent): void {
+    if (!this.outputContext || !this.outputDestination) {
+      return;
+    }
+
+    const samples = base64PCM16ToFloat(event.delta);
+    if (samples.length === 0) {
+      return;
+    }
+    const buffer = this.outputContext.createBuffer(
+      1,
+      samples.length,
+      PCM16_SAMPLE_RATE
+    );
+    buffer.copyToChannel(samples, 0);
+
+    const source = this.outputContext.createBufferSource();
+    source.buffer = buffer;
+    source.connect(this.outputDestination);
+    this.playbackSources.add(source);
+    source.onended = () => {
+      this.playbackSources.delete(source);
+    };
+
+    const startTime = Math.max(
+      this.outputContext.currentTime,
+      this.nextPlaybackTime
+    );
+    source.start(startTime);
+    this.nextPlaybackTime = startTime + buffer.duration;
+  }
+
+  close(): void {
+    // Stop microphone capture
+    if (this.inputProcessor) {
+      this.inputProcessor.onaudioprocess = null;
+      this.inputProcessor.disconnect();
+      this.inputProcessor = null;
+    }
+    this.releaseMicrophone();
+    if (this.inputContext) {
+      this.inputContext.close();
+      this.inputContext = null;
+    }
+
+    // Stop playback
+    this.stopPlayback();
+    if (this.outputContext) {
+      this.outputContext.close();
+      this.outputContext = null;
+      this.outputDestination = null;
+    }
+
+    if (this.socket) {
+      if (this.socket.readyState !== WebSocket.CLOSED) {
+        this.socket.close();
+      }
+      this.socket = null;
+    }
+  }
+
+  private setupOutputAudio(): void {
+    this.outputContext = new AudioContext({ sampleRate: PCM16_SAMPLE_RATE });
+    this.outputDestination = this.outputContext.createMediaStreamDestination();
+    this.nextPlaybackTime = 0;
+  }
+
+  /**
+   * Captures the microphone and streams it as PCM16 audio chunks.
+   */
+  private async startMicrophone(audioSettings: AudioSettings): Promise<void> {
+    const localStream = await captureMicrophone(
+      audioSettings,
+      this.options.inputDeviceId
+    );
+
+    const inputContext = new AudioContext({ sampleRate: PCM16_SAMPLE_RATE });
+    this.inputContext = inputContext;
+    const processor = inputContext.createScriptProcessor(4096, 1, 1);
+    this.inputProcessor = processor;
+    processor.connect(inputContext.destination);
+    this.connectMicrophone(localStream, inputContext, processor);
+
+    processor.onaudioprocess = (event) => {
+      if (!this.isOpen() || !this.microphoneEnabled) {
+        return;
+      }
+      // Sent by the client, through its outgoing queue like any other event
+      this.handlers?.onInputAudio(
+        floatToBase64PCM16(event.inputBuffer.getChannelData(0))
+      );
+    };
+  }
+
+  /**
+   * Feeds a captured microphone into the processor streaming it.
+   */
+  private connectMicrophone(
+    localStream: MediaStream,
+    inputContext: AudioContext,
+    processor: ScriptProcessorNode
+  ): void {
+    this.localStream = localStream;
+    this.inputSource = inputContext.createMediaStreamSource(localStream);
+    this.inputSource.connect(processor);
+
+    localStream.getAudioTracks().forEach((track) => {
+      track.enabled = this.microphoneEnabled;
+      this.handlers?.onSessionUpdate({
+        hasAudio: true,
+        inputDeviceId: track.getSettings().deviceId ?? null,
+      });
+      track.onended = () => {
+        this.handlers?.onSessionUpdate({ hasAudio: false });
+      };
+    });
+  }
+
+  private releaseMicrophone(): void {
+    if (this.inputSource) {
+      this.inputSource.disconnect();
+      this.inputSource = null;
+    }
+    if (this.localStream) {
+      this.localStream.getTracks().forEach((track) => {
+        track.onended = null;
+        track.stop();
+      });
+      this.localStream = null;
+    }
+  }
+}
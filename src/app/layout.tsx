@@ -2,6 +2,7 @@
 
 import './globals.css';
 import { OpenAIRealtimeWebRTCProvider } from './context/OpenAIRealtimeWebRTC';
+import { IndexedDBSessionStorage } from './core/storage/IndexedDBSessionStorage';
 import {
   Modality,
   OpenAIRealtimeContextConfig,
@@ -72,6 +73,10 @@ const ClientProvider = ({ children }: { children: React.ReactNode }) => {
         console.error(...all);
       },
     },
+    // Keep past sessions in the browser
+    storage: new IndexedDBSessionStorage(),
+    // Record the events of every session, for download and replay
+    eventJournal: {},
     defaultSessionConfig: {
       modalities: [Modality.TEXT, Modality.AUDIO],
       input_audio_transcription: {
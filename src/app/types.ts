@@ -15,6 +15,7 @@ export enum ContentType {
   INPUT_AUDIO = 'input_audio',
   ITEM_REFERENCE = 'item_reference',
   TEXT = 'text',
+  AUDIO = 'audio',
 }
 
 /**
@@ -25,6 +26,14 @@ export enum TranscriptType {
   OUTPUT = 'output',
 }
 
+/**
+ * Streaming state of a transcript.
+ */
+export enum TranscriptStatus {
+  PARTIAL = 'partial',
+  FINAL = 'final',
+}
+
 /**
  * Enum representing the role of a transcript.
  */
@@ -40,6 +49,7 @@ export enum ConversationRole {
 export enum ConversationItemStatus {
   COMPLETED = 'completed',
   INCOMPLETE = 'incomplete',
+  IN_PROGRESS = 'in_progress',
 }
 
 // Individual content item
@@ -126,6 +136,46 @@ export interface ConversationItem extends FunctionCallDetails {
   content?: ConversationContent[];
 }
 
+/**
+ * A conversation item as mirrored by the client from server events.
+ */
+export interface ConversationStoreItem extends ConversationItem {
+  /**
+   * Unique ID of the item, always known once the server reported it.
+   */
+  id: string;
+
+  /**
+   * ID of the item preceding this one, null for the first item.
+   */
+  previousItemId: string | null;
+
+  /**
+   * Local timestamp when the item was first seen, in milliseconds since Unix epoch.
+   */
+  createdAt: number;
+
+  /**
+   * Audio position (in milliseconds) the item was truncated at, if it was truncated.
+   */
+  truncatedAtMs?: number;
+}
+
+/**
+ * Normalized conversation state, keyed by item id.
+ */
+export interface ConversationStore {
+  /**
+   * Items keyed by their id.
+   */
+  itemsById: Record<string, ConversationStoreItem>;
+
+  /**
+   * Item ids in conversation order.
+   */
+  order: string[];
+}
+
 /**
  * Enum representing all possible event types for the OpenAI Realtime API.
  */
@@ -142,25 +192,47 @@ export enum RealtimeEventType {
   INPUT_AUDIO_CLEARED = 'input_audio_buffer.cleared',
 
   // Conversation events
+  CONVERSATION_CREATED = 'conversation.created',
   CONVERSATION_ITEM_CREATED = 'conversation.item.created',
+  CONVERSATION_ITEM_RETRIEVED = 'conversation.item.retrieved',
+  CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_DELTA = 'conversation.item.input_audio_transcription.delta',
   CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_COMPLETED = 'conversation.item.input_audio_transcription.completed',
+  CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_FAILED = 'conversation.item.input_audio_transcription.failed',
   CONVERSATION_ITEM_DELETED = 'conversation.item.deleted',
+  CONVERSATION_ITEM_TRUNCATED = 'conversation.item.truncated',
   CONVERSATION_ITEM_CREATE = 'conversation.item.create',
+  CONVERSATION_ITEM_TRUNCATE = 'conversation.item.truncate',
+  CONVERSATION_ITEM_DELETE = 'conversation.item.delete',
+  CONVERSATION_ITEM_RETRIEVE = 'conversation.item.retrieve',
 
   // Response events
   RESPONSE_CREATED = 'response.created',
   RESPONSE_CREATE = 'response.create',
+  RESPONSE_CANCEL = 'response.cancel',
   RESPONSE_OUTPUT_ITEM_ADDED = 'response.output_item.added',
+  RESPONSE_CONTENT_PART_ADDED = 'response.content_part.added',
+  RESPONSE_AUDIO_DELTA = 'response.audio.delta',
+  RESPONSE_AUDIO_DONE = 'response.audio.done',
   RESPONSE_AUDIO_TRANSCRIPT_DELTA = 'response.audio_transcript.delta',
   RESPONSE_AUDIO_TRANSCRIPT_DONE = 'response.audio_transcript.done',
+  RESPONSE_TEXT_DELTA = 'response.text.delta',
+  RESPONSE_TEXT_DONE = 'response.text.done',
   RESPONSE_CONTENT_PART_DONE = 'response.content_part.done',
+  RESPONSE_FUNCTION_CALL_ARGUMENTS_DELTA = 'response.function_call_arguments.delta',
+  RESPONSE_FUNCTION_CALL_ARGUMENTS_DONE = 'response.function_call_arguments.done',
   RESPONSE_DONE = 'response.done',
+  /**
+   * @deprecated Not sent by the API, cancelled responses end with
+   * `response.done` and the status `cancelled`.
+   */
   RESPONSE_CANCELLED = 'response.cancelled',
   RESPONSE_OUTPUT_ITEM_DONE = 'response.output_item.done',
 
-  // Output audio buffer events
-  OUTPUT_AUDIO_STARTED = 'output_audio_buffer.audio_started',
-  OUTPUT_AUDIO_STOPPED = 'output_audio_buffer.audio_stopped',
+  // Output audio buffer events, only sent over WebRTC
+  OUTPUT_AUDIO_STARTED = 'output_audio_buffer.started',
+  OUTPUT_AUDIO_STOPPED = 'output_audio_buffer.stopped',
+  OUTPUT_AUDIO_CLEARED = 'output_audio_buffer.cleared',
+  OUTPUT_AUDIO_BUFFER_CLEAR = 'output_audio_buffer.clear', // Cuts off the audio being played
 
   // Rate limit updates
   RATE_LIMITS_UPDATED = 'rate_limits.updated',
@@ -172,6 +244,21 @@ export enum RealtimeEventType {
 
   // Error handling
   ERROR = 'error',
+
+  // Local events emitted by the client itself, never sent over the wire
+  RECONNECT_ATTEMPT = 'local.reconnect.attempt',
+  RECONNECT_SUCCEEDED = 'local.reconnect.succeeded',
+  RECONNECT_GAVE_UP = 'local.reconnect.gave_up',
+  SESSION_REPLACED = 'local.session.replaced',
+  CLIENT_SECRET_REFRESHED = 'local.client_secret.refreshed',
+  UNKNOWN_EVENT = 'local.unknown_event',
+  INVALID_EVENT = 'local.invalid_event',
+  INPUT_DEVICE_CHANGED = 'local.input_device.changed',
+  NETWORK_QUALITY_DEGRADED = 'local.network_quality.degraded',
+  NETWORK_QUALITY_RECOVERED = 'local.network_quality.recovered',
+  BUDGET_WARNING = 'local.budget.warning',
+  BUDGET_EXCEEDED = 'local.budget.exceeded',
+  RECORDING_STOPPED = 'local.recording.stopped',
 }
 
 /**
@@ -194,20 +281,51 @@ interface BaseRealtimeEvent {
   timestamp?: number;
 }
 
+/**
+ * Event for session creation, the first event received after connecting.
+ */
+export interface SessionCreatedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.SESSION_CREATED;
+  session: Partial<RealtimeSession>;
+}
+
+/**
+ * Event for a chunk of an input transcription, sent by models that stream it.
+ */
+export interface InputAudioTranscriptionDeltaEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_DELTA;
+  item_id: string;
+  content_index: number;
+  delta: string;
+}
+
 /**
  * Event for input transcription completed.
  */
-interface InputAudioTranscriptionCompletedEvent extends BaseRealtimeEvent {
+export interface InputAudioTranscriptionCompletedEvent
+  extends BaseRealtimeEvent {
   type: RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_COMPLETED;
   item_id: string;
   content_index: number;
   transcript: string;
 }
 
+/**
+ * Event for a chunk of a response audio transcript.
+ */
+export interface ResponseAudioTranscriptDeltaEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DELTA;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  delta: string;
+}
+
 /**
  * Event for response audio transcript done.
  */
-interface ResponseAudioTranscriptDoneEvent extends BaseRealtimeEvent {
+export interface ResponseAudioTranscriptDoneEvent extends BaseRealtimeEvent {
   type: RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DONE;
   response_id: string;
   item_id: string;
@@ -216,12 +334,39 @@ interface ResponseAudioTranscriptDoneEvent extends BaseRealtimeEvent {
   transcript: string;
 }
 
+/**
+ * Event for a chunk of response audio.
+ * Only sent over WebSocket; WebRTC sessions receive audio as a media track.
+ */
+export interface ResponseAudioDeltaEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_AUDIO_DELTA;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  delta: string; // Base64-encoded PCM16 audio data
+}
+
 /**
  * Event for response creation.
  */
-interface ResponseCreatedEvent extends BaseRealtimeEvent {
+export interface ResponseCreatedEvent extends BaseRealtimeEvent {
   type: RealtimeEventType.RESPONSE_CREATED;
-  response: unknown; // Replace with a detailed type if you have it
+  response: {
+    id: string;
+    object: 'realtime.response';
+    status: string;
+    metadata?: Record<string, string> | null;
+  };
+}
+
+/**
+ * Event for the start of user speech detected by server VAD.
+ */
+export interface InputAudioSpeechStartedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.INPUT_AUDIO_SPEECH_STARTED;
+  audio_start_ms: number;
+  item_id: string;
 }
 
 /**
@@ -247,18 +392,67 @@ export interface InputAudioBufferClearEvent extends BaseRealtimeEvent {
 }
 
 /**
- * Event for creating a conversation item (e.g., sending a user message).
+ * Event for a conversation item added to the conversation, by the client or the server.
  */
 export interface ConversationItemCreatedEvent extends BaseRealtimeEvent {
   type: RealtimeEventType.CONVERSATION_ITEM_CREATED;
-  item: {
-    type: 'message'; // Represents the type of conversation item
-    role: ConversationRole.USER; // The role of the transcript, always USER for this event
-    content: Array<{
-      type: 'input_text'; // Specifies the type of input
-      text: string; // The text content of the input message
-    }>;
-  };
+  /**
+   * ID of the preceding item, null if the item is the first one.
+   */
+  previous_item_id: string | null;
+  item: ConversationItem;
+}
+
+/**
+ * Event for a conversation item removed from the conversation.
+ */
+export interface ConversationItemDeletedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_DELETED;
+  item_id: string;
+}
+
+/**
+ * Event for an assistant audio item truncated at a playback position.
+ */
+export interface ConversationItemTruncatedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_TRUNCATED;
+  item_id: string;
+  content_index: number;
+  audio_end_ms: number;
+}
+
+/**
+ * Event for a new output item added to a response.
+ */
+export interface ResponseOutputItemAddedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_OUTPUT_ITEM_ADDED;
+  response_id: string;
+  output_index: number;
+  item: ConversationItem;
+}
+
+/**
+ * Event for a chunk of text of a text content part.
+ */
+export interface ResponseTextDeltaEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_TEXT_DELTA;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  delta: string;
+}
+
+/**
+ * Event for the final text of a text content part.
+ */
+export interface ResponseTextDoneEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_TEXT_DONE;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  text: string;
 }
 
 /**
@@ -267,7 +461,7 @@ export interface ConversationItemCreatedEvent extends BaseRealtimeEvent {
  */
 export interface SessionError {
   /**
-   * Unique identifier for the error event.
+   * The client event ID that caused the error, as reported by the API.
    */
   event_id: string;
 
@@ -342,6 +536,198 @@ export interface ResponseCreateEvent extends BaseRealtimeEvent {
   response: ResponseCreateBody | object;
 }
 
+/**
+ * Event for cancelling an in-progress response.
+ */
+export interface ResponseCancelEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_CANCEL;
+  /**
+   * The response to cancel, defaults to the in-progress response.
+   */
+  response_id?: string;
+}
+
+/**
+ * Event for truncating an assistant audio item at the position the user heard.
+ */
+export interface ConversationItemTruncateEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_TRUNCATE;
+  item_id: string;
+  content_index: number;
+  /**
+   * Inclusive duration of audio heard, in milliseconds.
+   */
+  audio_end_ms: number;
+}
+
+/**
+ * Event for deleting an item from the conversation.
+ */
+export interface ConversationItemDeleteEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_DELETE;
+  item_id: string;
+}
+
+/**
+ * Event for retrieving the server representation of an item.
+ */
+export interface ConversationItemRetrieveEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_RETRIEVE;
+  item_id: string;
+}
+
+/**
+ * Event for cutting off the response audio being played, only sent over WebRTC.
+ */
+export interface OutputAudioBufferClearEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.OUTPUT_AUDIO_BUFFER_CLEAR;
+}
+
+/**
+ * Event for the start of response audio playback, only sent over WebRTC.
+ */
+export interface OutputAudioStartedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.OUTPUT_AUDIO_STARTED;
+  response_id: string;
+}
+
+/**
+ * Event for the end of response audio playback, only sent over WebRTC.
+ */
+export interface OutputAudioStoppedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.OUTPUT_AUDIO_STOPPED;
+  response_id: string;
+}
+
+/**
+ * Event for the response audio buffer cleared by the client or an interruption,
+ * only sent over WebRTC.
+ */
+export interface OutputAudioClearedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.OUTPUT_AUDIO_CLEARED;
+  response_id: string;
+}
+
+/**
+ * Event for the conversation created with the session.
+ */
+export interface ConversationCreatedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_CREATED;
+  conversation: {
+    id: string;
+    object: 'realtime.conversation';
+  };
+}
+
+/**
+ * Event for an item returned by `conversation.item.retrieve`.
+ */
+export interface ConversationItemRetrievedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_RETRIEVED;
+  item: ConversationItem;
+}
+
+/**
+ * Event for an input transcription that could not be produced.
+ */
+export interface InputAudioTranscriptionFailedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CONVERSATION_ITEM_INPUT_AUDIO_TRANSCRIPTION_FAILED;
+  item_id: string;
+  content_index: number;
+  error: {
+    type: string;
+    code: string | null;
+    message: string;
+    param: string | null;
+  };
+}
+
+/**
+ * Event for the end of user speech detected by server VAD.
+ */
+export interface InputAudioSpeechStoppedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.INPUT_AUDIO_SPEECH_STOPPED;
+  audio_end_ms: number;
+  item_id: string;
+}
+
+/**
+ * Event for the input audio buffer committed into a user message item.
+ */
+export interface InputAudioCommittedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.INPUT_AUDIO_COMMITTED;
+  previous_item_id: string | null;
+  item_id: string;
+}
+
+/**
+ * Event for the input audio buffer cleared by the client.
+ */
+export interface InputAudioClearedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.INPUT_AUDIO_CLEARED;
+}
+
+/**
+ * Event for a content part added to a response item.
+ */
+export interface ResponseContentPartAddedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_CONTENT_PART_ADDED;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  part: ConversationContent;
+}
+
+/**
+ * Event for a content part of a response item done streaming.
+ */
+export interface ResponseContentPartDoneEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_CONTENT_PART_DONE;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+  part: ConversationContent;
+}
+
+/**
+ * Event for the end of the audio of a content part.
+ */
+export interface ResponseAudioDoneEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_AUDIO_DONE;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  content_index: number;
+}
+
+/**
+ * Event for a chunk of function call arguments.
+ */
+export interface ResponseFunctionCallArgumentsDeltaEvent
+  extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_FUNCTION_CALL_ARGUMENTS_DELTA;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  call_id: string;
+  delta: string;
+}
+
+/**
+ * Event for the final arguments of a function call.
+ */
+export interface ResponseFunctionCallArgumentsDoneEvent
+  extends BaseRealtimeEvent {
+  type: RealtimeEventType.RESPONSE_FUNCTION_CALL_ARGUMENTS_DONE;
+  response_id: string;
+  item_id: string;
+  output_index: number;
+  call_id: string;
+  arguments: string;
+}
+
 /**
  * Event for error handling.
  */
@@ -375,8 +761,7 @@ export interface ConversationItemCreateEvent extends BaseRealtimeEvent {
     status?: ConversationItemStatus;
     role?: ConversationRole;
     content?: ConversationContent[];
-    function_call_details?: FunctionCallDetails;
-  };
+  } & Partial<FunctionCallDetails>;
 }
 
 /**
@@ -526,6 +911,14 @@ export interface ResponseDoneEvent extends BaseRealtimeEvent {
          */
         cached_tokens: number;
 
+        /**
+         * Breakdown of the cached tokens.
+         */
+        cached_tokens_details?: {
+          text_tokens: number;
+          audio_tokens: number;
+        };
+
         /**
          * Number of text tokens in the input.
          */
@@ -593,11 +986,61 @@ export interface ResponseDoneEvent extends BaseRealtimeEvent {
 /**
  * Event for updating the session configuration.
  */
-interface UpdateSessionConfigEvent extends BaseRealtimeEvent {
+export interface UpdateSessionConfigEvent extends BaseRealtimeEvent {
   type: RealtimeEventType.SESSION_UPDATE;
   session: Partial<RealtimeSession>;
 }
 
+/**
+ * Event for a session configuration update accepted by the server.
+ */
+export interface SessionUpdatedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.SESSION_UPDATED;
+  session: Partial<RealtimeSession>;
+}
+
+/**
+ * Options of a request awaiting the server reply to a client event.
+ */
+export interface RequestOptions {
+  /**
+   * Milliseconds to wait for the reply before rejecting, 0 to wait forever.
+   * @default 60000 (60 seconds)
+   */
+  timeoutMs?: number;
+
+  /**
+   * Stops waiting for the reply when aborted. Aborting `createResponse` also
+   * cancels the response.
+   */
+  signal?: AbortSignal;
+
+  /**
+   * What to do when the event is held back by exhausted rate limits.
+   * Defaults to `rateLimitPolicy` of the client config.
+   */
+  rateLimitPolicy?: RateLimitPolicy;
+}
+
+/**
+ * What to do with a `response.create` or large `conversation.item.create`
+ * event while the rate limits of the session are exhausted
+ */
+export enum RateLimitPolicy {
+  /**
+   * Hold the event and send it once the limits reset.
+   */
+  QUEUE = 'queue',
+  /**
+   * Discard the event. Awaitable requests reject with a `RateLimitError`.
+   */
+  DROP = 'drop',
+  /**
+   * Throw a `RateLimitError`, or reject with it for awaitable requests.
+   */
+  FAIL = 'fail',
+}
+
 /**
  * Rate limit information for a specific resource
  */
@@ -632,534 +1075,1695 @@ export interface RateLimitsUpdatedEvent extends BaseRealtimeEvent {
 }
 
 /**
- * Union type for all OpenAI WebRTC events.
+ * Local event emitted before each reconnection attempt.
  */
-export type RealtimeEvent =
-  | InputAudioTranscriptionCompletedEvent
-  | ResponseAudioTranscriptDoneEvent
-  | ResponseCreatedEvent
-  | InputAudioBufferAppendEvent
-  | InputAudioBufferCommitEvent
-  | InputAudioBufferClearEvent
-  | ConversationItemCreatedEvent
-  | ResponseCreateEvent
-  | ErrorEvent
-  | ConversationItemCreateEvent
-  | ResponseOutputItemDoneEvent
-  | ResponseDoneEvent
-  | UpdateSessionConfigEvent
-  | RateLimitsUpdatedEvent;
+export interface ReconnectAttemptEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RECONNECT_ATTEMPT;
+  /**
+   * The 1-based number of this attempt.
+   */
+  attempt: number;
+  /**
+   * The maximum number of attempts allowed by the policy.
+   */
+  maxAttempts: number;
+  /**
+   * Delay before this attempt starts, in milliseconds.
+   */
+  delayMs: number;
+}
 
 /**
- * Interface representing a transcript in a session.
+ * Local event emitted when a reconnection attempt restored the connection.
  */
-export interface Transcript {
+export interface ReconnectSucceededEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RECONNECT_SUCCEEDED;
+  attempt: number;
+}
+
+/**
+ * Local event emitted when the client stops trying to reconnect.
+ */
+export interface ReconnectGaveUpEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RECONNECT_GAVE_UP;
   /**
-   * The textual content of the transcript.
+   * Number of attempts made before giving up.
    */
-  content: string;
+  attempts: number;
+  /**
+   * What happened to the session after giving up.
+   */
+  behavior: ReconnectionGiveUpBehavior;
+}
+
+/**
+ * Local event emitted when a lost session was replaced by a brand-new one.
+ */
+export interface SessionReplacedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.SESSION_REPLACED;
+  previousSessionId: string;
+  sessionId: string;
+}
 
+/**
+ * Local event emitted when the ephemeral client secret was replaced.
+ */
+export interface ClientSecretRefreshedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.CLIENT_SECRET_REFRESHED;
   /**
-   * The timestamp when the transcript was created, in milliseconds since Unix epoch.
+   * Expiration of the new secret, in seconds since Unix epoch.
    */
-  timestamp: number;
+  expiresAt: number;
+}
 
+/**
+ * Local event emitted for a server event of a type the client does not know.
+ */
+export interface UnknownEventEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.UNKNOWN_EVENT;
   /**
-   * Indicates whether the transcript is an input from the user or an output from the model.
+   * The `type` of the server event.
    */
-  type: TranscriptType;
+  eventType: string;
+  /**
+   * The raw payload as received.
+   */
+  raw: string;
+}
 
+/**
+ * Local event emitted for a server event that is not valid JSON or does not
+ * match the schema of its type. The event is not processed.
+ */
+export interface InvalidEventEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.INVALID_EVENT;
   /**
-   * The role associated with the transcript, either "user" (input) or "model" (output).
+   * The `type` of the server event, null if it could not be read.
    */
-  role: ConversationRole;
+  eventType: string | null;
+  /**
+   * The raw payload as received.
+   */
+  raw: string;
+  /**
+   * What did not match the schema, e.g. `rate_limits should be array`.
+   */
+  errors: string[];
 }
 
 /**
- * Enums for fixed string values used in the session configuration.
+ * Local event emitted when the microphone switched to another input device,
+ * on request or because the device in use was removed or reconnected.
  */
+export interface InputDeviceChangedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.INPUT_DEVICE_CHANGED;
+  /**
+   * The device now in use, null for the system default.
+   */
+  deviceId: string | null;
+  /**
+   * The device used before.
+   */
+  previousDeviceId: string | null;
+  /**
+   * Whether the switch was requested through `setInputDevice` or followed a `devicechange`.
+   */
+  reason: 'requested' | 'device_change';
+}
 
-// Supported AI voice options.
-export enum Voice {
-  ALLOY = 'alloy',
-  ASH = 'ash',
-  BALLAD = 'ballad',
-  CORAL = 'coral',
-  ECHO = 'echo',
-  SAGE = 'sage',
-  SHIMMER = 'shimmer',
-  VERSE = 'verse',
+/**
+ * Local event emitted when the network quality drops to a worse level.
+ */
+export interface NetworkQualityDegradedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.NETWORK_QUALITY_DEGRADED;
+  quality: NetworkQuality;
+  previousQuality: NetworkQuality;
+  /**
+   * The statistics the quality was derived from.
+   */
+  stats: NetworkStats;
 }
 
 /**
- * Supported input/output audio formats.
+ * Local event emitted when the network quality rises to a better level.
  */
-export enum AudioFormat {
-  PCM16 = 'pcm16',
-  G711_ULAW = 'g711_ulaw',
-  G711_ALAW = 'g711_alaw',
+export interface NetworkQualityRecoveredEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.NETWORK_QUALITY_RECOVERED;
+  quality: NetworkQuality;
+  previousQuality: NetworkQuality;
+  /**
+   * The statistics the quality was derived from.
+   */
+  stats: NetworkStats;
 }
 
 /**
- * Supported turn detection types.
+ * Local event emitted when the usage of a session budget reaches the warning
+ * threshold.
  */
-export enum TurnDetectionType {
-  SERVER_VAD = 'server_vad',
+export interface BudgetWarningEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.BUDGET_WARNING;
+  budget: SessionBudgetType;
+  /**
+   * Usage so far, in the unit of the budget.
+   */
+  used: number;
+  limit: number;
 }
 
 /**
- * Supported tool choice options for the model.
+ * Local event emitted when a session budget is exhausted, right before the
+ * session is disconnected.
  */
-export enum ToolChoice {
-  AUTO = 'auto',
-  NONE = 'none',
-  REQUIRED = 'required',
+export interface BudgetExceededEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.BUDGET_EXCEEDED;
+  budget: SessionBudgetType;
+  /**
+   * Usage so far, in the unit of the budget.
+   */
+  used: number;
+  limit: number;
 }
 
 /**
- * Enum for modalities the model supports.
+ * Local event emitted when a recording stopped, on request or because its
+ * session closed.
  */
-export enum Modality {
-  AUDIO = 'audio',
-  TEXT = 'text',
+export interface RecordingStoppedEvent extends BaseRealtimeEvent {
+  type: RealtimeEventType.RECORDING_STOPPED;
+  recording: Recording;
+  reason: 'requested' | 'session_closed';
 }
 
 /**
- * Configuration for input audio transcription.
+ * Union type for all events sent by the client.
  */
-export interface AudioTranscriptionConfig {
+export type RealtimeClientEvent =
+  | UpdateSessionConfigEvent
+  | InputAudioBufferAppendEvent
+  | InputAudioBufferCommitEvent
+  | InputAudioBufferClearEvent
+  | ConversationItemCreateEvent
+  | ConversationItemTruncateEvent
+  | ConversationItemDeleteEvent
+  | ConversationItemRetrieveEvent
+  | ResponseCreateEvent
+  | ResponseCancelEvent
+  | OutputAudioBufferClearEvent;
+
+/**
+ * Union type for all events sent by the server.
+ */
+export type RealtimeServerEvent =
+  | ErrorEvent
+  | SessionCreatedEvent
+  | SessionUpdatedEvent
+  | ConversationCreatedEvent
+  | ConversationItemCreatedEvent
+  | ConversationItemRetrievedEvent
+  | InputAudioTranscriptionDeltaEvent
+  | InputAudioTranscriptionCompletedEvent
+  | InputAudioTranscriptionFailedEvent
+  | ConversationItemTruncatedEvent
+  | ConversationItemDeletedEvent
+  | InputAudioCommittedEvent
+  | InputAudioClearedEvent
+  | InputAudioSpeechStartedEvent
+  | InputAudioSpeechStoppedEvent
+  | OutputAudioStartedEvent
+  | OutputAudioStoppedEvent
+  | OutputAudioClearedEvent
+  | ResponseCreatedEvent
+  | ResponseDoneEvent
+  | ResponseOutputItemAddedEvent
+  | ResponseOutputItemDoneEvent
+  | ResponseContentPartAddedEvent
+  | ResponseContentPartDoneEvent
+  | ResponseTextDeltaEvent
+  | ResponseTextDoneEvent
+  | ResponseAudioTranscriptDeltaEvent
+  | ResponseAudioTranscriptDoneEvent
+  | ResponseAudioDeltaEvent
+  | ResponseAudioDoneEvent
+  | ResponseFunctionCallArgumentsDeltaEvent
+  | ResponseFunctionCallArgumentsDoneEvent
+  | RateLimitsUpdatedEvent;
+
+/**
+ * Union type for all events emitted by the client itself.
+ */
+export type RealtimeLocalEvent =
+  | ReconnectAttemptEvent
+  | ReconnectSucceededEvent
+  | ReconnectGaveUpEvent
+  | SessionReplacedEvent
+  | ClientSecretRefreshedEvent
+  | UnknownEventEvent
+  | InvalidEventEvent
+  | InputDeviceChangedEvent
+  | NetworkQualityDegradedEvent
+  | NetworkQualityRecoveredEvent
+  | BudgetWarningEvent
+  | BudgetExceededEvent
+  | RecordingStoppedEvent;
+
+/**
+ * Counters of the server events received by a session.
+ */
+export interface EventStats {
   /**
-   * The transcription model to use.
-   * Currently, only `whisper-1` is supported.
+   * Number of server events received.
    */
-  model: 'whisper-1';
+  received: number;
+
+  /**
+   * Number of events of a type the client does not know.
+   */
+  unknown: number;
+
+  /**
+   * Number of events that were not valid JSON or did not match their schema.
+   */
+  invalid: number;
+
+  /**
+   * Number of events received per type.
+   */
+  byType: Record<string, number>;
 }
 
 /**
- * Configuration for turn detection.
+ * Timings of a conversation turn, from the end of the user input to the end of the response.
+ * Timestamps are in milliseconds since the epoch, null when the event did not occur.
  */
-export interface TurnDetectionConfig {
+export interface TurnLatency {
   /**
-   * Type of turn detection (e.g., server VAD).
+   * The response answering the turn.
    */
-  type: TurnDetectionType;
+  responseId: string;
 
   /**
-   * Activation threshold for VAD (0.0 to 1.0).
-   * A higher value requires louder audio to activate the model.
-   * Defaults to 0.5.
+   * Final status of the response.
    */
-  threshold?: number;
+  status: ResponseDoneEvent['response']['status'];
 
   /**
-   * Amount of audio (in milliseconds) to include before the VAD detected speech.
-   * Defaults to 300ms.
+   * When the server detected the end of speech (`input_audio_buffer.speech_stopped`).
    */
-  prefix_padding_ms?: number;
+  speechStoppedAt: number | null;
 
   /**
-   * Duration of silence (in milliseconds) to detect speech stop.
-   * Defaults to 500ms.
+   * When the input audio was committed (`input_audio_buffer.committed`).
    */
-  silence_duration_ms?: number;
+  committedAt: number | null;
+
+  /**
+   * When the response was created (`response.created`).
+   */
+  responseCreatedAt: number;
+
+  /**
+   * When the first text or transcript delta of the response arrived.
+   */
+  firstTokenAt: number | null;
+
+  /**
+   * When the first audio of the response arrived
+   * (`response.audio.delta` or `output_audio_buffer.started`).
+   */
+  firstAudioAt: number | null;
+
+  /**
+   * When the response was done (`response.done`).
+   */
+  responseDoneAt: number;
+
+  /**
+   * Durations from the start of the turn: the end of speech, else the commit,
+   * else the creation of the response.
+   */
+  timeToFirstTokenMs: number | null;
+  timeToFirstAudioMs: number | null;
+  totalResponseMs: number;
 }
 
 /**
- * Definition of a tool (function) available to the model.
+ * Enum for the network quality levels derived from the quality score
  */
-export type Tool = OpenAIFunction;
+export enum NetworkQuality {
+  EXCELLENT = 'excellent',
+  GOOD = 'good',
+  FAIR = 'fair',
+  POOR = 'poor',
+}
 
 /**
- * Main interface for the session object configuration.
+ * The ICE candidate pair carrying the connection.
  */
-export interface RealtimeSession {
+export interface IceCandidatePairInfo {
   /**
-   * Unique identifier for the session.
+   * Candidate types, e.g. `host`, `srflx` or `relay`.
    */
-  id: string;
-
+  localCandidateType: string | null;
+  remoteCandidateType: string | null;
   /**
-   * Object type identifier, always set to "realtime.session".
+   * Transport protocol of the local candidate, `udp` or `tcp`.
    */
-  object: 'realtime.session';
+  protocol: string | null;
+  localAddress: string | null;
+  remoteAddress: string | null;
+}
 
+/**
+ * Network statistics of a WebRTC session, collected with `RTCPeerConnection.getStats()`.
+ * Fields are null when the browser does not report them yet.
+ */
+export interface NetworkStats {
   /**
-   * Model to use for the session (e.g., GPT-4 Realtime Preview).
+   * Time of the collection, in milliseconds since the epoch.
    */
-  model: string;
+  timestamp: number;
 
   /**
-   * Supported modalities for the session (e.g., audio, text).
+   * Round-trip time of the selected candidate pair, in milliseconds.
    */
-  modalities: Modality[];
+  roundTripTimeMs: number | null;
 
   /**
-   * Default system instructions for the model.
-   * Used to guide response content and behavior.
+   * Jitter of the received audio, in milliseconds.
    */
-  instructions?: string;
+  jitterMs: number | null;
 
   /**
-   * AI voice used for audio responses.
-   * Can only be set before the first audio response.
+   * Fraction (0 to 1) of the received audio packets lost since the previous collection.
    */
-  voice?: Voice;
+  packetLoss: number | null;
 
   /**
-   * Format of the input audio (e.g., PCM16, G711_ULAW).
+   * Audio bitrates since the previous collection, in kilobits per second.
    */
-  input_audio_format?: AudioFormat;
+  inboundBitrateKbps: number | null;
+  outboundBitrateKbps: number | null;
 
   /**
-   * Format of the output audio (e.g., PCM16, G711_ALAW).
+   * Audio levels (0 to 1) of the microphone and of the assistant.
    */
-  output_audio_format?: AudioFormat;
+  inputAudioLevel: number | null;
+  outputAudioLevel: number | null;
 
   /**
-   * Configuration for input audio transcription.
-   * Defaults to off and can be set to null to turn off.
+   * The ICE candidate pair in use.
    */
-  input_audio_transcription?: AudioTranscriptionConfig | null;
+  candidatePair: IceCandidatePairInfo | null;
 
   /**
-   * Configuration for turn detection.
-   * Can be set to null to disable turn detection.
+   * Estimated mean opinion score, from 1 (bad) to 5 (excellent).
    */
-  turn_detection?: TurnDetectionConfig | null;
+  qualityScore: number | null;
 
   /**
-   * List of tools (functions) available to the model.
+   * Quality level derived from the score.
    */
-  tools?: Tool[];
+  quality: NetworkQuality | null;
+}
+
+/**
+ * Union type for all OpenAI WebRTC events, discriminated by `type`.
+ */
+export type RealtimeEvent =
+  | RealtimeClientEvent
+  | RealtimeServerEvent
+  | RealtimeLocalEvent;
+
+/**
+ * The event with the given type, e.g. `EventOf<RealtimeEventType.RESPONSE_DONE>`
+ * is `ResponseDoneEvent`.
+ */
+export type EventOf<T extends RealtimeEventType> = Extract<
+  RealtimeEvent,
+  { type: T }
+>;
+
+/**
+ * When the audio of a conversation item was spoken, from the speech events of
+ * user items and the output audio events of assistant items.
+ * Timestamps are in milliseconds since the epoch, null when unknown.
+ */
+export interface ItemTiming {
+  startedAt: number | null;
+  endedAt: number | null;
+}
 
+/**
+ * How the two sides of a conversation are laid out in a recording
+ */
+export enum RecordingMode {
   /**
-   * How the model selects tools (e.g., auto, none, required).
+   * The user on the left channel, the assistant on the right.
    */
-  tool_choice?: ToolChoice;
-
+  STEREO = 'stereo',
   /**
-   * Sampling temperature for response generation.
-   * Controls the randomness of the output (0.6 to 1.2). Defaults to 0.8.
+   * Both sides mixed into one channel.
    */
-  temperature?: number;
+  MIXED = 'mixed',
+}
 
+/**
+ * File formats of recordings
+ */
+export enum RecordingFormat {
   /**
-   * Maximum number of output tokens for a single assistant response.
-   * Can be a number (1 to 4096) or "inf" for the maximum.
+   * Opus in WebM, compressed by the browser with MediaRecorder.
    */
-  max_response_output_tokens?: number | 'inf';
-
+  WEBM = 'webm',
   /**
-   * Ephemeral client secret for authenticating connections.
+   * Uncompressed 16-bit PCM.
    */
-  client_secret?: {
-    /**
-     * The actual ephemeral key value.
-     */
-    value: string;
+  WAV = 'wav',
+}
 
-    /**
-     * Expiration timestamp for the ephemeral key.
-     */
-    expires_at: number;
-  };
+/**
+ * Options of a conversation recording
+ */
+export interface RecordingOptions {
   /**
-   * The WebRTC peer connection associated with this session.
-   * Used for managing the connection lifecycle.
+   * @default RecordingMode.STEREO
    */
-  peer_connection?: RTCPeerConnection | null;
+  mode?: RecordingMode;
 
   /**
-   * The WebRTC data channel associated with this session.
-   * Used for sending and receiving data.
+   * @default RecordingFormat.WEBM
    */
-  dataChannel?: RTCDataChannel | null;
+  format?: RecordingFormat;
+}
 
+/**
+ * A finished conversation recording
+ */
+export interface Recording {
+  blob: Blob;
+  mimeType: string;
+  mode: RecordingMode;
   /**
-   * The local media stream used for audio output.
+   * Length of the recording, in milliseconds.
    */
-  mediaStream?: MediaStream | null;
+  durationMs: number;
+  /**
+   * When the recording started.
+   */
+  startedAt: string;
+  /**
+   * The session that was recorded.
+   */
+  sessionId: string;
+}
+
+/**
+ * File formats transcripts can be exported to
+ */
+export enum TranscriptExportFormat {
+  MARKDOWN = 'markdown',
+  JSON = 'json',
+  WEBVTT = 'webvtt',
+  SRT = 'srt',
+}
+
+/**
+ * Whether a journaled event was received from or sent to the server
+ */
+export enum JournalDirection {
+  INCOMING = 'incoming',
+  OUTGOING = 'outgoing',
+}
+
+/**
+ * An event recorded by the event journal
+ */
+export interface JournalEntry {
+  direction: JournalDirection;
+  /**
+   * When the event was received or sent, in milliseconds since the epoch with
+   * sub-millisecond precision.
+   */
+  timestamp: number;
+  sessionId: string;
+  /**
+   * The event as it went over the wire. Incoming events are recorded before
+   * validation, and messages that are not JSON are kept as text.
+   */
+  event: RealtimeClientEvent | RealtimeServerEvent | string;
+}
+
+/**
+ * Options of the event journal
+ */
+export interface EventJournalOptions {
+  /**
+   * Whether to keep the audio of `input_audio_buffer.append` and
+   * `response.audio.delta` events, which make up most of the traffic of
+   * WebSocket sessions. Without it, the audio is replaced by an empty string.
+   * @default false
+   */
+  includeAudio?: boolean;
+
+  /**
+   * Number of entries kept, the oldest are dropped first.
+   * @default 10000
+   */
+  maxEntries?: number;
+}
+
+/**
+ * Options of a journal replay
+ */
+export interface ReplayOptions {
+  /**
+   * Speed factor, e.g. 2 to replay twice as fast or Infinity to replay
+   * without waiting between events.
+   * @default 1
+   */
+  speed?: number;
+
+  /**
+   * The session to replay, the first session of the journal by default.
+   */
+  sessionId?: string;
+}
+
+/**
+ * Interface representing a transcript in a session.
+ */
+export interface Transcript {
+  /**
+   * The textual content of the transcript.
+   */
+  content: string;
+
+  /**
+   * The timestamp when the transcript was created, in milliseconds since Unix epoch.
+   */
+  timestamp: number;
+
+  /**
+   * Indicates whether the transcript is an input from the user or an output from the model.
+   */
+  type: TranscriptType;
+
+  /**
+   * The role associated with the transcript, either "user" (input) or "model" (output).
+   */
+  role: ConversationRole;
+
+  /**
+   * Whether the transcript is still streaming or final. Transcripts without a
+   * status are final.
+   */
+  status?: TranscriptStatus;
+
+  /**
+   * ID of the conversation item the transcript belongs to.
+   */
+  itemId?: string;
+
+  /**
+   * Index of the content part within the item the transcript belongs to.
+   */
+  contentIndex?: number;
+
+  /**
+   * Whether the user interrupted the audio, so only part of the transcript was heard.
+   */
+  truncated?: boolean;
+}
+
+/**
+ * Enums for fixed string values used in the session configuration.
+ */
+
+// Supported AI voice options.
+export enum Voice {
+  ALLOY = 'alloy',
+  ASH = 'ash',
+  BALLAD = 'ballad',
+  CORAL = 'coral',
+  ECHO = 'echo',
+  SAGE = 'sage',
+  SHIMMER = 'shimmer',
+  VERSE = 'verse',
+}
+
+/**
+ * Supported input/output audio formats.
+ */
+export enum AudioFormat {
+  PCM16 = 'pcm16',
+  G711_ULAW = 'g711_ulaw',
+  G711_ALAW = 'g711_alaw',
+}
+
+/**
+ * Supported turn detection types.
+ */
+export enum TurnDetectionType {
+  SERVER_VAD = 'server_vad',
+}
+
+/**
+ * Supported tool choice options for the model.
+ */
+export enum ToolChoice {
+  AUTO = 'auto',
+  NONE = 'none',
+  REQUIRED = 'required',
+}
+
+/**
+ * Enum for modalities the model supports.
+ */
+export enum Modality {
+  AUDIO = 'audio',
+  TEXT = 'text',
+}
+
+/**
+ * Configuration for input audio transcription.
+ */
+export interface AudioTranscriptionConfig {
+  /**
+   * The transcription model to use.
+   * Currently, only `whisper-1` is supported.
+   */
+  model: 'whisper-1';
+}
+
+/**
+ * Configuration for turn detection.
+ */
+export interface TurnDetectionConfig {
+  /**
+   * Type of turn detection (e.g., server VAD).
+   */
+  type: TurnDetectionType;
+
+  /**
+   * Activation threshold for VAD (0.0 to 1.0).
+   * A higher value requires louder audio to activate the model.
+   * Defaults to 0.5.
+   */
+  threshold?: number;
+
+  /**
+   * Amount of audio (in milliseconds) to include before the VAD detected speech.
+   * Defaults to 300ms.
+   */
+  prefix_padding_ms?: number;
+
+  /**
+   * Duration of silence (in milliseconds) to detect speech stop.
+   * Defaults to 500ms.
+   */
+  silence_duration_ms?: number;
+}
+
+/**
+ * Definition of a tool (function) available to the model.
+ */
+export type Tool = OpenAIFunction;
+
+/**
+ * Ephemeral key issued by the Realtime API for client connections.
+ */
+export interface ClientSecret {
+  /**
+   * The actual ephemeral key value.
+   */
+  value: string;
+
+  /**
+   * Expiration timestamp for the ephemeral key, in seconds since Unix epoch.
+   */
+  expires_at: number;
+}
+
+/**
+ * Main interface for the session object configuration.
+ */
+export interface RealtimeSession {
+  /**
+   * Unique identifier for the session.
+   */
+  id: string;
+
+  /**
+   * Object type identifier, always set to "realtime.session".
+   */
+  object: 'realtime.session';
+
+  /**
+   * Model to use for the session (e.g., GPT-4 Realtime Preview).
+   */
+  model: string;
+
+  /**
+   * Supported modalities for the session (e.g., audio, text).
+   */
+  modalities: Modality[];
+
+  /**
+   * Default system instructions for the model.
+   * Used to guide response content and behavior.
+   */
+  instructions?: string;
+
+  /**
+   * AI voice used for audio responses.
+   * Can only be set before the first audio response.
+   */
+  voice?: Voice;
+
+  /**
+   * Format of the input audio (e.g., PCM16, G711_ULAW).
+   */
+  input_audio_format?: AudioFormat;
+
+  /**
+   * Format of the output audio (e.g., PCM16, G711_ALAW).
+   */
+  output_audio_format?: AudioFormat;
+
+  /**
+   * Configuration for input audio transcription.
+   * Defaults to off and can be set to null to turn off.
+   */
+  input_audio_transcription?: AudioTranscriptionConfig | null;
+
+  /**
+   * Configuration for turn detection.
+   * Can be set to null to disable turn detection.
+   */
+  turn_detection?: TurnDetectionConfig | null;
+
+  /**
+   * List of tools (functions) available to the model.
+   */
+  tools?: Tool[];
+
+  /**
+   * How the model selects tools (e.g., auto, none, required).
+   */
+  tool_choice?: ToolChoice;
+
+  /**
+   * Sampling temperature for response generation.
+   * Controls the randomness of the output (0.6 to 1.2). Defaults to 0.8.
+   */
+  temperature?: number;
+
+  /**
+   * Maximum number of output tokens for a single assistant response.
+   * Can be a number (1 to 4096) or "inf" for the maximum.
+   */
+  max_response_output_tokens?: number | 'inf';
+
+  /**
+   * Ephemeral client secret for authenticating connections.
+   */
+  client_secret?: ClientSecret;
+
+  /**
+   * Seconds until the client secret expires, updated every second while connected.
+   */
+  clientSecretExpiresIn?: number;
+  /**
+   * The WebRTC peer connection associated with this session.
+   * Used for managing the connection lifecycle.
+   */
+  peer_connection?: RTCPeerConnection | null;
+
+  /**
+   * The WebRTC data channel associated with this session.
+   * Used for sending and receiving data.
+   */
+  dataChannel?: RTCDataChannel | null;
+
+  /**
+   * The local media stream used for audio output.
+   */
+  mediaStream?: MediaStream | null;
+
+  /**
+   * List of all transcripts associated with this session.
+   * Each transcript includes details such as content, timestamp, type, and role.
+   */
+  transcripts: Transcript[];
+
+  /**
+   * Conversation items mirrored from server events, keyed by item id.
+   */
+  conversation?: ConversationStore;
+  /**
+   * Tracks token usage statistics for the session, summed over all responses.
+   */
+  tokenUsage?: TokenUsage;
+
+  /**
+   * Token usage of each response, oldest first.
+   */
+  tokenUsageHistory?: ResponseTokenUsage[];
+
+  /**
+   * Estimated cost of the session in USD, null when the model has no price.
+   */
+  estimatedCost?: number | null;
+
+  /**
+   * Why the session was disconnected, set once it is closed.
+   */
+  disconnectReason?: DisconnectReason;
+
+  /**
+   * The budget that was exhausted, when `disconnectReason` is `BUDGET_EXCEEDED`.
+   */
+  exceededBudget?: SessionBudgetType;
+  /**
+   * Indicates whether the session audio is muted.
+   */
+  isMuted?: boolean;
+
+  /**
+   * The microphone device captured by the session, as reported by its track.
+   */
+  inputDeviceId?: string | null;
+
+  /**
+   * The speaker playing the assistant audio, null for the system default.
+   */
+  outputDeviceId?: string | null;
+
+  /**
+   * Volume of the assistant audio, from 0 to 1.
+   */
+  outputVolume?: number;
+
+  /**
+   * Indicates whether the assistant audio output is paused.
+   */
+  isOutputPaused?: boolean;
+
+  /**
+   * Latest network statistics of the session.
+   */
+  networkStats?: NetworkStats;
+
+  /**
+   * Recent network statistics, oldest first.
+   */
+  networkStatsHistory?: NetworkStats[];
+
+  /**
+   * Timings of the completed turns, oldest first.
+   */
+  turnLatencies?: TurnLatency[];
+
+  /**
+   * When the audio of each conversation item was spoken, keyed by item id.
+   */
+  itemTimings?: Record<string, ItemTiming>;
+
+  /**
+   * Whether the conversation is being recorded, see `startRecording`.
+   */
+  isRecording?: boolean;
+
+  /**
+   * Whether the session is rebuilt from an event journal rather than
+   * connected to the server, see `replayEventJournal`.
+   */
+  isReplay?: boolean;
+
+  /**
+   * ISO 8601 timestamp when the session was started
+   */
+  startTime?: string;
+
+  /**
+   * ISO 8601 timestamp when the session was ended
+   */
+  endTime?: string;
+
+  /**
+   * Duration of the session in seconds
+   * Calculated as the difference between endTime and startTime
+   */
+  duration?: number;
+
+  /**
+   * Timeout in milliseconds for ICE connection.
+   * @default 10000
+   */
+  connection_timeout: number;
+
+  /**
+   * Current connection status of the session
+   */
+  connectionStatus?: ConnectionStatus;
+
+  /**
+   * Timestamp of the last connection state change
+   */
+  lastStateChange?: string;
+
+  /**
+   * Number of the current reconnection attempt, 0 when not reconnecting
+   */
+  reconnectAttempts?: number;
+
+  /**
+   * Counters of the server events received, including unknown and invalid ones.
+   */
+  eventStats?: EventStats;
+
+  /**
+   * Number of client events waiting to be sent, because the channel is not
+   * open yet or its send buffer is full.
+   */
+  outgoingQueueDepth?: number;
+
+  /**
+   * Custom audio settings for the session.
+   * Allows developers to specify their own settings for audio input.
+   */
+  audioSettings?: AudioSettings;
+
+  /**
+   * Indicates whether the session currently has an active audio track.
+   */
+  hasAudio?: boolean;
+
+  /**
+   * Current rate limits for the session
+   */
+  rateLimits?: RateLimit[];
+
+  /**
+   * Timestamp when rate limits will reset
+   */
+  rateLimitResetTime?: string;
+
+  /**
+   * Flag indicating if the session is currently rate limited
+   */
+  isRateLimited?: boolean;
+
+  /**
+   * Number of events held until the rate limits reset.
+   */
+  rateLimitWaiting?: number;
+
+  /**
+   * When held events are released, null when none are held.
+   */
+  rateLimitResumeTime?: string | null;
+}
+
+export type OpenAICreateSessionParams = Pick<
+  RealtimeSession,
+  | 'modalities'
+  | 'instructions'
+  | 'tools'
+  | 'turn_detection'
+  | 'input_audio_transcription'
+  | 'voice'
+  | 'output_audio_format'
+  | 'temperature'
+  | 'max_response_output_tokens'
+>;
+
+/**
+ * Type definition for the request body to create a new session in the OpenAI Realtime API.
+ */
+export interface SessionConfig extends OpenAICreateSessionParams {
+  /**
+   * Optional timeout in milliseconds for ICE connection.
+   * Defaults to 10000 (10 seconds) if not specified.
+   */
+  connection_timeout?: number;
+  model?: null;
+}
+
+/**
+ * Type definition for the request body of a session update event in the OpenAI Realtime API.
+ */
+export interface UpdateSessionRequest {
+  /**
+   * Optional client-generated ID to identify this event.
+   */
+  event_id?: string;
+
+  /**
+   * The type of the event, always set to "session.update".
+   */
+  type: 'session.update';
+
+  /**
+   * The updated session configuration object.
+   * Only provided fields will be updated. To clear fields like `instructions`, pass an empty string.
+   */
+  session: Partial<Omit<RealtimeSession, 'id' | 'object' | 'clientSecret'>>;
+}
+
+/**
+ * Type definition for an OpenAI function schema.
+ */
+export interface OpenAIFunction {
+  /**
+   * The type of tool. Always set to "function" for OpenAI function calls.
+   */
+  type: 'function';
+
+  /**
+   * A unique name for the function.
+   */
+  name: string;
+
+  /**
+   * A short, human-readable description of what the function does.
+   */
+  description: string;
+
+  /**
+   * Parameters schema for the function, following JSON Schema standards.
+   */
+  parameters: {
+    /**
+     * The type of the schema. Always "object".
+     */
+    type: 'object';
+
+    /**
+     * Properties (parameters) accepted by the function.
+     */
+    properties: {
+      [key: string]: {
+        /**
+         * The type of the property (e.g., string, number, object, etc.).
+         */
+        type: 'string' | 'number' | 'boolean' | 'object' | 'array';
+
+        /**
+         * Optional description of the parameter.
+         */
+        description?: string;
+
+        /**
+         * Optional enumeration of allowed values (only for string, number, or array types).
+         */
+        enum?: string[] | number[];
+
+        /**
+         * Properties for nested objects (applicable if `type` is "object").
+         */
+        properties?: {
+          [key: string]: unknown;
+        };
+
+        /**
+         * Required parameters for nested objects (applicable if `type` is "object").
+         */
+        required?: string[];
+      };
+    };
+
+    /**
+     * List of required properties for the function.
+     */
+    required: string[];
+
+    /**
+     * Whether additional properties outside of those defined in `properties` are allowed.
+     */
+    additionalProperties: boolean;
+  };
+}
+
+/**
+ * Tracks token usage for the session.
+ */
+export interface TokenUsage {
+  /**
+   * Number of input tokens used by the session.
+   */
+  inputTokens: number;
+
+  /**
+   * Number of output tokens generated by the session.
+   */
+  outputTokens: number;
+
+  /**
+   * Total number of tokens (input + output) used in the session.
+   */
+  totalTokens: number;
+
+  /**
+   * Breakdown of the input tokens. Cached tokens are also counted as text or audio tokens.
+   */
+  inputTextTokens: number;
+  inputAudioTokens: number;
+  cachedTextTokens: number;
+  cachedAudioTokens: number;
+
+  /**
+   * Breakdown of the output tokens.
+   */
+  outputTextTokens: number;
+  outputAudioTokens: number;
+}
+
+/**
+ * Token usage of a single response.
+ */
+export interface ResponseTokenUsage extends TokenUsage {
+  responseId: string;
+
+  /**
+   * When the response was done, in milliseconds since the epoch.
+   */
+  timestamp: number;
+
+  /**
+   * Estimated cost of the response in USD, null when the model has no price.
+   */
+  cost: number | null;
+}
+
+/**
+ * Prices of a model, in USD per million tokens.
+ */
+export interface ModelPricing {
+  textInput: number;
+  cachedTextInput: number;
+  textOutput: number;
+  audioInput: number;
+  cachedAudioInput: number;
+  audioOutput: number;
+}
+
+/**
+ * Legacy catch-all handler for function calls that have no registered tool.
+ * Its return value is sent back to the model as the function call output.
+ */
+export type FunctionCallHandler = (
+  name: string,
+  args: Record<string, unknown>
+) => unknown | Promise<unknown>;
+
+/**
+ * Handler executed when the model calls a registered tool.
+ * The returned (or resolved) value is serialized and sent back to the model.
+ */
+export type ToolHandler = (
+  args: Record<string, unknown>
+) => unknown | Promise<unknown>;
+
+/**
+ * A tool definition paired with the handler that executes it.
+ */
+export interface RegisteredTool {
+  /**
+   * The function schema advertised to the model.
+   */
+  definition: OpenAIFunction;
+
+  /**
+   * The handler invoked with the parsed call arguments.
+   */
+  handler: ToolHandler;
+}
+
+/**
+ * Enum for errors reported back to the model when a tool call cannot be completed
+ */
+export enum ToolErrorType {
+  TOOL_NOT_FOUND = 'tool_not_found',
+  INVALID_ARGUMENTS = 'invalid_arguments',
+  EXECUTION_FAILED = 'execution_failed',
+}
+
+/**
+ * Structured error sent as the function call output when a tool call fails.
+ */
+export interface ToolError {
+  error: {
+    type: ToolErrorType;
+    message: string;
+  };
+}
+
+export type Connect = (
+  realtimeSession: RealtimeSession,
+  functionCallHandler?: FunctionCallHandler
+) => void;
+
+/**
+ * Options for closing a WebRTC session.
+ */
+export interface SessionCloseOptions {
+  /**
+   * Whether to remove the session from state after closing the connection.
+   * Set to false to keep the session data for analytics or other purposes.
+   * @default true
+   */
+  removeAfterConnectionClose?: boolean;
+
+  /**
+   * Why the session is closed, recorded as `disconnectReason` on the session.
+   * @default DisconnectReason.REQUESTED
+   */
+  reason?: DisconnectReason;
+}
+
+/**
+ * Why a session was disconnected
+ */
+export enum DisconnectReason {
+  REQUESTED = 'requested',
+  CONNECTION_CLOSED = 'connection_closed',
+  RECONNECT_GAVE_UP = 'reconnect_gave_up',
+  BUDGET_EXCEEDED = 'budget_exceeded',
+  REPLAY_FINISHED = 'replay_finished',
+}
+
+/**
+ * Limits of a session, see `SessionBudget`
+ */
+export enum SessionBudgetType {
+  TOKENS = 'tokens',
+  COST = 'cost',
+  DURATION = 'duration',
+  IDLE = 'idle',
+}
+
+/**
+ * Limits after which a session is disconnected. Unset limits are not enforced.
+ */
+export interface SessionBudget {
+  /**
+   * Maximum number of tokens used by the session.
+   */
+  maxTokens?: number;
+
+  /**
+   * Maximum estimated cost of the session in USD, see `pricing`.
+   */
+  maxCost?: number;
+
+  /**
+   * Maximum duration of the session in milliseconds.
+   */
+  maxDurationMs?: number;
+
+  /**
+   * Time in milliseconds without speech, text messages or responses after
+   * which the session is closed.
+   */
+  idleTimeoutMs?: number;
+
+  /**
+   * Fraction (0 to 1) of a budget at which `local.budget.warning` is emitted.
+   * @default 0.8
+   */
+  warningThreshold?: number;
+}
+
+/**
+ * Enum representing possible WebRTC connection states
+ */
+export enum ConnectionStatus {
+  INITIALIZING = 'initializing',
+  CONNECTING = 'connecting',
+  CONNECTED = 'connected',
+  DISCONNECTED = 'disconnected',
+  FAILED = 'failed',
+  CLOSED = 'closed',
+  RECONNECTING = 'reconnecting',
+}
+
+/**
+ * Enum for WebRTC error types
+ */
+export enum WebRTCErrorType {
+  CONNECTION_ERROR = 'connection_error',
+  DATA_CHANNEL_ERROR = 'data_channel_error',
+  MEDIA_ERROR = 'media_error',
+  SIGNALING_ERROR = 'signaling_error',
+  UNKNOWN_ERROR = 'unknown_error',
+}
+
+/**
+ * Enum for specific WebRTC error codes
+ */
+export enum WebRTCErrorCode {
+  ICE_CONNECTION_FAILED = 'ice_connection_failed',
+  ICE_CONNECTION_TIMEOUT = 'ice_connection_timeout',
+  DATA_CHANNEL_FAILED = 'data_channel_failed',
+  MEDIA_ACCESS_DENIED = 'media_access_denied',
+  SIGNALING_FAILED = 'signaling_failed',
+  RATE_LIMIT_EXCEEDED = 'rate_limit_exceeded',
+}
+
+/**
+ * Custom audio settings for the session.
+ * Allows developers to specify their own settings for audio input.
+ */
+export interface AudioSettings {
+  echoCancellation?: boolean;
+  noiseSuppression?: boolean;
+  autoGainControl?: boolean;
+  sampleRate?: number;
+}
+
+/**
+ * Enum for the transports that can carry Realtime API events
+ */
+export enum TransportType {
+  WEBRTC = 'webrtc',
+  WEBSOCKET = 'websocket',
+}
+
+/**
+ * Callbacks a transport uses to report back to the client.
+ */
+export interface RealtimeTransportHandlers {
+  /**
+   * Called with every raw server event received by the transport.
+   */
+  onMessage: (data: string) => void;
+
+  /**
+   * Called when the transport changes connection-related session fields
+   * (e.g. connection status, media stream, audio availability).
+   */
+  onSessionUpdate: (update: Partial<RealtimeSession>) => void;
+
+  /**
+   * Called when the underlying channel is closed.
+   */
+  onClose: () => void;
+
+  /**
+   * Called when the connection was lost and may be recovered by reconnecting.
+   */
+  onConnectionLost: () => void;
+
+  /**
+   * Called when the channel opened or its send buffer drained,
+   * so queued client events can be sent.
+   */
+  onDrain: () => void;
+
+  /**
+   * Called with microphone audio captured by the transport, as base64 PCM16,
+   * when the transport streams it through client events.
+   */
+  onInputAudio: (audio: string) => void;
+}
+
+/**
+ * Browser APIs the WebRTC transport connects through. Replacing them, e.g.
+ * with a `FakeRealtimeServer`, runs sessions without a network or a WebRTC
+ * stack, such as under jsdom or Node.
+ */
+export interface WebRTCEnvironment {
+  /**
+   * Creates the peer connection of a session.
+   */
+  createPeerConnection(configuration: RTCConfiguration): RTCPeerConnection;
+
+  /**
+   * Posts the SDP offer to the Realtime API, like the global `fetch`.
+   */
+  fetch(url: string, init: RequestInit): Promise<Response>;
+}
+
+/**
+ * Options resolved by the client when creating a transport for a session.
+ */
+export interface RealtimeTransportOptions {
+  /**
+   * Base URL of the Realtime API (https for WebRTC, ws(s) is derived for WebSocket).
+   */
+  realtimeApiUrl: string;
+
+  /**
+   * The model identifier to connect to.
+   */
+  modelId: string;
+
+  /**
+   * Timeout for establishing the connection, in milliseconds.
+   */
+  connectionTimeout: number;
+
+  /**
+   * Microphone settings, or null when no microphone should be captured.
+   */
+  audioSettings: AudioSettings | null;
+
+  /**
+   * The microphone to capture, null for the system default.
+   */
+  inputDeviceId: string | null;
+
+  /**
+   * Whether the microphone starts muted.
+   */
+  microphoneMuted: boolean;
+
+  /**
+   * Returns a valid ephemeral key, refreshing it first when it is about to expire.
+   * @param forceRefresh - Fetch a new key even if the current one looks valid (e.g. after a 401).
+   */
+  getClientSecret: (forceRefresh?: boolean) => Promise<string>;
+
+  /**
+   * Logger instance for transport events.
+   */
+  logger: Logger;
 
   /**
-   * List of all transcripts associated with this session.
-   * Each transcript includes details such as content, timestamp, type, and role.
+   * Replaces the browser WebRTC APIs, the global ones when unset.
    */
-  transcripts: Transcript[];
+  webRTC?: WebRTCEnvironment;
+}
+
+/**
+ * A bidirectional channel carrying Realtime API events and audio.
+ */
+export interface RealtimeTransport {
   /**
-   * Tracks token usage statistics for the session.
+   * Opens the channel for the given session.
    */
-  tokenUsage?: TokenUsage;
+  connect(
+    session: RealtimeSession,
+    handlers: RealtimeTransportHandlers
+  ): Promise<void>;
+
   /**
-   * Indicates whether the session audio is muted.
+   * Whether client events can currently be sent.
    */
-  isMuted?: boolean;
+  isOpen(): boolean;
 
   /**
-   * ISO 8601 timestamp when the session was started
+   * Sends a client event. Throws if the channel is not open.
    */
-  startTime?: string;
+  send(event: RealtimeClientEvent): void;
 
   /**
-   * ISO 8601 timestamp when the session was ended
+   * Number of bytes passed to `send` that the channel has not transmitted yet.
    */
-  endTime?: string;
+  getBufferedAmount(): number;
 
   /**
-   * Duration of the session in seconds
-   * Calculated as the difference between endTime and startTime
+   * Largest serialized client event the channel accepts, in bytes.
+   * Transports without a message size limit leave this undefined.
    */
-  duration?: number;
+  getMaxMessageSize?(): number;
 
   /**
-   * Timeout in milliseconds for ICE connection.
-   * @default 10000
+   * Restores a lost connection in place (e.g. with an ICE restart), keeping the session.
+   * Resolves once the connection is usable again. Transports that cannot resume
+   * a session leave this undefined.
    */
-  connection_timeout: number;
+  restart?(): Promise<void>;
 
   /**
-   * Current connection status of the session
+   * Collects the statistics of the underlying peer connection.
+   * Transports without one leave this undefined.
    */
-  connectionStatus?: ConnectionStatus;
+  getStats?(): Promise<RTCStatsReport>;
 
   /**
-   * Timestamp of the last connection state change
+   * The captured microphone stream, null when no microphone is captured.
    */
-  lastStateChange?: string;
+  getInputStream?(): MediaStream | null;
 
   /**
-   * Custom audio settings for the session.
-   * Allows developers to specify their own settings for audio input.
+   * Enables or disables the outgoing microphone track without releasing it.
    */
-  audioSettings?: AudioSettings;
+  setMicrophoneEnabled?(enabled: boolean): void;
 
   /**
-   * Indicates whether the session currently has an active audio track.
+   * Captures another microphone and swaps it in without renegotiating.
+   * @param deviceId - The device to capture, null for the system default.
    */
-  hasAudio?: boolean;
+  setInputDevice?(deviceId: string | null): Promise<void>;
 
   /**
-   * Current rate limits for the session
+   * Drops response audio buffered on the client for playback, on barge-in.
+   * Transports whose audio is buffered by the server leave this undefined.
    */
-  rateLimits?: RateLimit[];
+  stopPlayback?(): void;
 
   /**
-   * Timestamp when rate limits will reset
+   * Plays a validated `response.audio.delta` event.
+   * Transports receiving the audio as a media track leave this undefined.
    */
-  rateLimitResetTime?: string;
+  playAudioDelta?(event: ResponseAudioDeltaEvent): void;
 
   /**
-   * Flag indicating if the session is currently rate limited
+   * Releases all resources held by the transport.
    */
-  isRateLimited?: boolean;
+  close(): void;
 }
 
-export type OpenAICreateSessionParams = Pick<
-  RealtimeSession,
-  | 'modalities'
-  | 'instructions'
-  | 'tools'
-  | 'turn_detection'
-  | 'input_audio_transcription'
-  | 'voice'
-  | 'output_audio_format'
-  | 'temperature'
-  | 'max_response_output_tokens'
->;
-
 /**
- * Type definition for the request body to create a new session in the OpenAI Realtime API.
+ * A session as persisted by a `SessionStorageAdapter`, without its live
+ * connection objects and its client secret.
  */
-export interface SessionConfig extends OpenAICreateSessionParams {
+export type StoredSession = Omit<
+  RealtimeSession,
+  'peer_connection' | 'dataChannel' | 'mediaStream' | 'client_secret'
+> & {
   /**
-   * Optional timeout in milliseconds for ICE connection.
-   * Defaults to 10000 (10 seconds) if not specified.
+   * When the session was last saved.
    */
-  connection_timeout?: number;
-  model?: null;
-}
+  savedAt: string;
+};
 
 /**
- * Type definition for the request body of a session update event in the OpenAI Realtime API.
+ * Overview of a stored session, for listing past sessions.
  */
-export interface UpdateSessionRequest {
-  /**
-   * Optional client-generated ID to identify this event.
-   */
-  event_id?: string;
+export type StoredSessionSummary = Pick<
+  StoredSession,
+  | 'id'
+  | 'model'
+  | 'startTime'
+  | 'endTime'
+  | 'duration'
+  | 'connectionStatus'
+  | 'disconnectReason'
+  | 'estimatedCost'
+  | 'savedAt'
+> & {
+  totalTokens: number;
+  transcriptCount: number;
+};
 
+/**
+ * Where past sessions are persisted.
+ */
+export interface SessionStorageAdapter {
   /**
-   * The type of the event, always set to "session.update".
+   * Creates or replaces a stored session.
    */
-  type: 'session.update';
+  save(session: StoredSession): Promise<void>;
 
   /**
-   * The updated session configuration object.
-   * Only provided fields will be updated. To clear fields like `instructions`, pass an empty string.
+   * Loads a stored session, null if there is none with this id.
    */
-  session: Partial<Omit<RealtimeSession, 'id' | 'object' | 'clientSecret'>>;
-}
+  load(sessionId: string): Promise<StoredSession | null>;
 
-/**
- * Type definition for an OpenAI function schema.
- */
-export interface OpenAIFunction {
   /**
-   * The type of tool. Always set to "function" for OpenAI function calls.
+   * Lists the stored sessions, most recently saved first.
    */
-  type: 'function';
+  list(): Promise<StoredSessionSummary[]>;
 
   /**
-   * A unique name for the function.
+   * Deletes a stored session. Deleting a missing session does nothing.
    */
-  name: string;
+  delete(sessionId: string): Promise<void>;
+}
 
+/**
+ * Enum for what happens to the session once reconnection is given up
+ */
+export enum ReconnectionGiveUpBehavior {
   /**
-   * A short, human-readable description of what the function does.
+   * Disconnect and close the session.
    */
-  description: string;
+  DISCONNECT = 'disconnect',
 
   /**
-   * Parameters schema for the function, following JSON Schema standards.
+   * Release the connection but keep the session in the failed state.
    */
-  parameters: {
-    /**
-     * The type of the schema. Always "object".
-     */
-    type: 'object';
-
-    /**
-     * Properties (parameters) accepted by the function.
-     */
-    properties: {
-      [key: string]: {
-        /**
-         * The type of the property (e.g., string, number, object, etc.).
-         */
-        type: 'string' | 'number' | 'boolean' | 'object' | 'array';
-
-        /**
-         * Optional description of the parameter.
-         */
-        description?: string;
-
-        /**
-         * Optional enumeration of allowed values (only for string, number, or array types).
-         */
-        enum?: string[] | number[];
-
-        /**
-         * Properties for nested objects (applicable if `type` is "object").
-         */
-        properties?: {
-          [key: string]: unknown;
-        };
-
-        /**
-         * Required parameters for nested objects (applicable if `type` is "object").
-         */
-        required?: string[];
-      };
-    };
-
-    /**
-     * List of required properties for the function.
-     */
-    required: string[];
-
-    /**
-     * Whether additional properties outside of those defined in `properties` are allowed.
-     */
-    additionalProperties: boolean;
-  };
+  KEEP_FAILED = 'keep_failed',
 }
 
 /**
- * Tracks token usage for the session.
+ * Policy controlling how lost connections are recovered.
  */
-export interface TokenUsage {
+export interface ReconnectionPolicy {
   /**
-   * Number of input tokens used by the session.
+   * Whether to try to reconnect at all.
+   * @default true
    */
-  inputTokens: number;
+  enabled?: boolean;
 
   /**
-   * Number of output tokens generated by the session.
+   * Maximum number of in-place reconnection attempts.
+   * @default 5
    */
-  outputTokens: number;
+  maxAttempts?: number;
 
   /**
-   * Total number of tokens (input + output) used in the session.
+   * Delay before the first attempt, in milliseconds.
+   * @default 2000
    */
-  totalTokens: number;
-}
-
-export type FunctionCallHandler = (
-  name: string,
-  args: Record<string, unknown>
-) => void;
-
-export type Connect = (
-  realtimeSession: RealtimeSession,
-  functionCallHandler?: FunctionCallHandler
-) => void;
+  initialDelayMs?: number;
 
-/**
- * Options for closing a WebRTC session.
- */
-export interface SessionCloseOptions {
   /**
-   * Whether to remove the session from state after closing the connection.
-   * Set to false to keep the session data for analytics or other purposes.
-   * @default true
+   * Upper bound for the delay between attempts, in milliseconds.
+   * @default 30000
    */
-  removeAfterConnectionClose?: boolean;
-}
+  maxDelayMs?: number;
 
-/**
- * Enum representing possible WebRTC connection states
- */
-export enum ConnectionStatus {
-  INITIALIZING = 'initializing',
-  CONNECTING = 'connecting',
-  CONNECTED = 'connected',
-  DISCONNECTED = 'disconnected',
-  FAILED = 'failed',
-  CLOSED = 'closed',
-  RECONNECTING = 'reconnecting',
-}
+  /**
+   * Factor the delay grows by after each attempt.
+   * @default 2
+   */
+  backoffMultiplier?: number;
 
-/**
- * Enum for WebRTC error types
- */
-export enum WebRTCErrorType {
-  CONNECTION_ERROR = 'connection_error',
-  DATA_CHANNEL_ERROR = 'data_channel_error',
-  MEDIA_ERROR = 'media_error',
-  SIGNALING_ERROR = 'signaling_error',
-  UNKNOWN_ERROR = 'unknown_error',
-}
+  /**
+   * Random spread applied to each delay, as a fraction of the delay (0 to 1).
+   * @default 0.3
+   */
+  jitter?: number;
 
-/**
- * Enum for specific WebRTC error codes
- */
-export enum WebRTCErrorCode {
-  ICE_CONNECTION_FAILED = 'ice_connection_failed',
-  ICE_CONNECTION_TIMEOUT = 'ice_connection_timeout',
-  DATA_CHANNEL_FAILED = 'data_channel_failed',
-  MEDIA_ACCESS_DENIED = 'media_access_denied',
-  SIGNALING_FAILED = 'signaling_failed',
-  RATE_LIMIT_EXCEEDED = 'rate_limit_exceeded',
-}
+  /**
+   * What to do with the session once all attempts have failed.
+   * @default ReconnectionGiveUpBehavior.DISCONNECT
+   */
+  giveUpBehavior?: ReconnectionGiveUpBehavior;
 
-/**
- * Custom audio settings for the session.
- * Allows developers to specify their own settings for audio input.
- */
-export interface AudioSettings {
-  echoCancellation?: boolean;
-  noiseSuppression?: boolean;
-  autoGainControl?: boolean;
-  sampleRate?: number;
+  /**
+   * Creates a brand-new session when the connection cannot be restored in place.
+   * When set, the conversation is reseeded from the stored transcripts
+   * before giving up is considered.
+   */
+  createFallbackSession?: (
+    previousSession: RealtimeSession
+  ) => Promise<RealtimeSession>;
 }
 
 /**
@@ -1200,6 +2804,86 @@ export interface OpenAIRealtimeContextConfig {
    * Logger instance for logging session events
    */
   logger?: Logger;
+
+  /**
+   * Policy for recovering lost connections
+   */
+  reconnection?: ReconnectionPolicy;
+
+  /**
+   * Fetches a new ephemeral client secret for the session.
+   * Defaults to POSTing the session parameters to `/api/session`.
+   */
+  fetchClientSecret?: (session: RealtimeSession) => Promise<ClientSecret>;
+
+  /**
+   * How long before expiry the client secret is refreshed, in milliseconds.
+   * @default 10000 (10 seconds)
+   */
+  clientSecretRefreshMargin?: number;
+
+  /**
+   * Transport used to talk to the Realtime API.
+   * @default TransportType.WEBRTC
+   */
+  transport?: TransportType;
+
+  /**
+   * Replaces the browser WebRTC APIs of the WebRTC transport, e.g. with a
+   * `FakeRealtimeServer` to run sessions offline in tests and demos.
+   */
+  webRTC?: WebRTCEnvironment;
+
+  /**
+   * Tools registered when the provider mounts.
+   * More tools can be registered at runtime with `registerTool`.
+   */
+  tools?: RegisteredTool[];
+
+  /**
+   * Whether to call `interrupt()` when the user starts speaking
+   * (`input_audio_buffer.speech_started`).
+   * @default true
+   */
+  interruptOnSpeechStart?: boolean;
+
+  /**
+   * Prices used to estimate the cost of sessions, keyed by model. Models are
+   * matched exactly, then by the longest key they start with, so dated
+   * snapshots use the price of their model. Merged over the built-in prices.
+   */
+  pricing?: Record<string, ModelPricing>;
+
+  /**
+   * Persists every session while it runs, so past sessions can be listed and
+   * loaded after the page is closed. Sessions are not persisted when unset.
+   */
+  storage?: SessionStorageAdapter;
+
+  /**
+   * What to do with responses and large conversation items while the rate
+   * limits of the session are exhausted. Can be overridden per request.
+   * @default RateLimitPolicy.QUEUE
+   */
+  rateLimitPolicy?: RateLimitPolicy;
+
+  /**
+   * Limits of every session. The session is disconnected once one is reached.
+   */
+  budget?: SessionBudget;
+
+  /**
+   * Records every event received and sent, so sessions can be downloaded as
+   * NDJSON and replayed. Events are not recorded when unset.
+   */
+  eventJournal?: EventJournalOptions;
+
+  /**
+   * Interval at which network statistics are collected, in milliseconds.
+   * Set to 0 to disable the collection.
+   * @default 1000 (1 second)
+   */
+  networkStatsInterval?: number;
 }
 
 /**
@@ -1240,4 +2924,6 @@ export interface Logger {
   error(message: string, meta?: { [key: string]: unknown }): void;
 }
 
-export type EventCallback = (event: RealtimeEvent) => void;
+export type EventCallback<T extends RealtimeEventType = RealtimeEventType> = (
+  event: EventOf<T>
+) => void;
@@ -0,0 +1,135 @@
+import { AudioSettings } from '../types';
+
+/**
+ * Sample rate of PCM16 audio exchanged with the Realtime API
+ */
+export const PCM16_SAMPLE_RATE = 24000;
+
+/**
+ * Encodes float samples (-1..1) as Base64 PCM16 (little-endian)
+ */
+export const floatToBase64PCM16 = (samples: Float32Array): string => {
+  const pcm16Data = new Int16Array(samples.length);
+
+  // Convert Float32Array to Int16Array (PCM16)
+  for (let i = 0; i < samples.length; i++) {
+    pcm16Data[i] = Math.max(-1, Math.min(1, samples[i])) * 0x7fff; // Scale to Int16 range
+  }
+
+  // Encode in slices to stay below the argument limit of String.fromCharCode
+  const bytes = new Uint8Array(pcm16Data.buffer);
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+/**
+ * Decodes Base64 PCM16 (little-endian) into float samples (-1..1)
+ */
+export const base64PCM16ToFloat = (base64Audio: string): Float32Array => {
+  const binary = atob(base64Audio);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) {
+    bytes[i] = binary.charCodeAt(i);
+  }
+
+  const pcm16Data = new Int16Array(bytes.buffer, 0, bytes.length >> 1);
+  const samples = new Float32Array(pcm16Data.length);
+  for (let i = 0; i < pcm16Data.length; i++) {
+    samples[i] = pcm16Data[i] / 0x8000;
+  }
+  return samples;
+};
+
+/**
+ * Duration in milliseconds of a Base64 PCM16 chunk, without decoding it
+ */
+export const getBase64PCM16DurationMs = (base64Audio: string): number => {
+  const padding = base64Audio.endsWith('==')
+    ? 2
+    : base64Audio.endsWith('=')
+      ? 1
+      : 0;
+  const byteLength = (base64Audio.length * 3) / 4 - padding;
+  return ((byteLength >> 1) / PCM16_SAMPLE_RATE) * 1000;
+};
+
+/**
+ * Splits a Base64 PCM16 chunk into chunks of at most `maxLength` characters,
+ * cut on whole samples so each chunk decodes on its own
+ */
+export const splitBase64PCM16 = (
+  base64Audio: string,
+  maxLength: number
+): string[] => {
+  // 8 Base64 characters encode 6 bytes, i.e. 3 whole samples
+  const chunkLength = Math.max(8, Math.floor(maxLength / 8) * 8);
+  const chunks: string[] = [];
+  for (let start = 0; start < base64Audio.length; start += chunkLength) {
+    chunks.push(base64Audio.slice(start, start + chunkLength));
+  }
+  return chunks;
+};
+
+/**
+ * Captures a microphone with the given settings
+ * @param deviceId - The device to capture, null for the system default.
+ */
+export const captureMicrophone = (
+  audioSettings: AudioSettings,
+  deviceId: string | null
+): Promise<MediaStream> =>
+  navigator.mediaDevices.getUserMedia({
+    audio: deviceId
+      ? { ...audioSettings, deviceId: { exact: deviceId } }
+      : audioSettings,
+  });
+
+/**
+ * Encodes float samples (-1..1) as a 16-bit PCM WAV file
+ * @param channels - The samples of each channel, all of the same length.
+ */
+export const encodeWav = (
+  channels: Float32Array[],
+  sampleRate: number
+): Blob => {
+  const frameCount = channels[0]?.length ?? 0;
+  const blockAlign = channels.length * 2;
+  const dataSize = frameCount * blockAlign;
+  const view = new DataView(new ArrayBuffer(44 + dataSize));
+  const writeString = (offset: number, value: string) => {
+    for (let i = 0; i < value.length; i++) {
+      view.setUint8(offset + i, value.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataSize, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true); // Size of the format chunk
+  view.setUint16(20, 1, true); // PCM
+  view.setUint16(22, channels.length, true);
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * blockAlign, true);
+  view.setUint16(32, blockAlign, true);
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataSize, true);
+
+  // Interleave the channels frame by frame
+  let offset = 44;
+  for (let frame = 0; frame < frameCount; frame++) {
+    channels.forEach((samples) => {
+      view.setInt16(
+        offset,
+        Math.max(-1, Math.min(1, samples[frame])) * 0x7fff,
+        true
+      );
+      offset += 2;
+    });
+  }
+  return new Blob([view.buffer], { type: 'audio/wav' });
+};
@@ -0,0 +1,31 @@
+/**
+ * Parameters of an exponential backoff with jitter
+ */
+export interface BackoffOptions {
+  initialDelayMs: number;
+  maxDelayMs: number;
+  backoffMultiplier: number;
+  jitter: number;
+}
+
+/**
+ * Computes the delay before a retry attempt.
+ * The delay grows exponentially, is capped at `maxDelayMs` and spread randomly
+ * by `jitter` so that many clients do not retry in lockstep.
+ *
+ * @param attempt - The 1-based number of the attempt.
+ */
+export const computeBackoffDelay = (
+  options: BackoffOptions,
+  attempt: number
+): number => {
+  const baseDelay = Math.min(
+    options.maxDelayMs,
+    options.initialDelayMs * options.backoffMultiplier ** (attempt - 1)
+  );
+  const spread = baseDelay * Math.min(Math.max(options.jitter, 0), 1);
+  return Math.max(
+    0,
+    Math.round(baseDelay - spread + Math.random() * spread * 2)
+  );
+};
@@ -0,0 +1,46 @@
+import {
+  ClientSecret,
+  OpenAICreateSessionParams,
+  RealtimeSession,
+} from '../types';
+import { ClientSecretLifecycle } from './constants';
+
+/**
+ * Default `fetchClientSecret`: creates a session with the same parameters
+ * through the app's session endpoint and returns its client secret.
+ */
+export const fetchClientSecretFromSessionEndpoint = async (
+  session: RealtimeSession
+): Promise<ClientSecret> => {
+  const params: OpenAICreateSessionParams = {
+    modalities: session.modalities,
+    instructions: session.instructions,
+    tools: session.tools,
+    turn_detection: session.turn_detection,
+    input_audio_transcription: session.input_audio_transcription,
+    voice: session.voice,
+    output_audio_format: session.output_audio_format,
+    temperature: session.temperature,
+    max_response_output_tokens: session.max_response_output_tokens,
+  };
+
+  const response = await fetch(ClientSecretLifecycle.SESSION_ENDPOINT, {
+    method: 'POST',
+    body: JSON.stringify(params),
+  });
+  if (!response.ok) {
+    throw new Error(`Failed to fetch client secret: ${response.status}`);
+  }
+
+  const data = (await response.json()) as Partial<RealtimeSession>;
+  if (!data.client_secret) {
+    throw new Error('Session endpoint returned no client secret');
+  }
+  return data.client_secret;
+};
+
+/**
+ * Milliseconds until a client secret expires (negative once expired)
+ */
+export const getClientSecretRemainingMs = (secret: ClientSecret): number =>
+  secret.expires_at * 1000 - Date.now();
@@ -1,3 +1,5 @@
+import { ModelPricing } from '../types';
+
 /**
  * WebRTC Configuration Constants
  */
@@ -8,3 +10,179 @@ export const WebRTC = {
    */
   DEFAULT_CONNECTION_TIMEOUT: 10000, // 10 seconds
 } as const;
+
+/**
+ * Reconnection policy defaults
+ */
+export const Reconnection = {
+  DEFAULT_MAX_ATTEMPTS: 5,
+  DEFAULT_INITIAL_DELAY: 2000, // 2 seconds
+  DEFAULT_MAX_DELAY: 30000, // 30 seconds
+  DEFAULT_BACKOFF_MULTIPLIER: 2,
+  DEFAULT_JITTER: 0.3,
+} as const;
+
+/**
+ * Ephemeral client secret lifecycle defaults
+ */
+export const ClientSecretLifecycle = {
+  /**
+   * Endpoint that creates sessions and returns their client secret.
+   */
+  SESSION_ENDPOINT: '/api/session',
+  DEFAULT_REFRESH_MARGIN: 10000, // 10 seconds
+  /**
+   * Minimum delay between two refreshes, also applied after a failed refresh.
+   */
+  MIN_REFRESH_INTERVAL: 10000, // 10 seconds
+  /**
+   * Interval at which the remaining lifetime is updated.
+   */
+  TICK_INTERVAL: 1000, // 1 second
+} as const;
+
+/**
+ * Defaults of requests awaiting a server reply
+ */
+export const Requests = {
+  DEFAULT_TIMEOUT: 60000, // 60 seconds
+  /**
+   * Response metadata key carrying the `response.create` event id,
+   * used to match `response.created` to its request.
+   */
+  RESPONSE_METADATA_KEY: 'client_event_id',
+} as const;
+
+/**
+ * Defaults of the validation of incoming server events
+ */
+export const EventValidation = {
+  /**
+   * Minimum delay between two updates of the session event counters.
+   */
+  STATS_INTERVAL: 1000, // 1 second
+} as const;
+
+/**
+ * Defaults of the queue of client events waiting to be sent
+ */
+export const OutgoingEvents = {
+  /**
+   * Bytes buffered by the channel above which sending pauses.
+   */
+  BUFFERED_AMOUNT_HIGH: 1024 * 1024, // 1 MiB
+  /**
+   * Bytes buffered by the channel below which sending resumes.
+   */
+  BUFFERED_AMOUNT_LOW: 256 * 1024, // 256 KiB
+  /**
+   * Interval at which a paused queue checks whether the channel drained,
+   * for channels without a `bufferedamountlow` event.
+   */
+  DRAIN_POLL_INTERVAL: 50, // 50 milliseconds
+  /**
+   * Largest data channel message when the SCTP transport does not advertise one.
+   */
+  DEFAULT_MAX_MESSAGE_SIZE: 64 * 1024, // 64 KiB
+} as const;
+
+/**
+ * Defaults of the network statistics collection
+ */
+export const NetworkStatsCollection = {
+  DEFAULT_INTERVAL: 1000, // 1 second
+  /**
+   * Number of collections kept in the session history.
+   */
+  HISTORY_SIZE: 60,
+} as const;
+
+/**
+ * Prices of the Realtime models, in USD per million tokens
+ */
+export const DEFAULT_MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-realtime': {
+    textInput: 4,
+    cachedTextInput: 0.4,
+    textOutput: 16,
+    audioInput: 32,
+    cachedAudioInput: 0.4,
+    audioOutput: 64,
+  },
+  'gpt-realtime-mini': {
+    textInput: 0.6,
+    cachedTextInput: 0.06,
+    textOutput: 2.4,
+    audioInput: 10,
+    cachedAudioInput: 0.3,
+    audioOutput: 20,
+  },
+  'gpt-4o-realtime-preview': {
+    textInput: 5,
+    cachedTextInput: 2.5,
+    textOutput: 20,
+    audioInput: 40,
+    cachedAudioInput: 2.5,
+    audioOutput: 80,
+  },
+  'gpt-4o-mini-realtime-preview': {
+    textInput: 0.6,
+    cachedTextInput: 0.3,
+    textOutput: 2.4,
+    audioInput: 10,
+    cachedAudioInput: 0.3,
+    audioOutput: 20,
+  },
+};
+
+/**
+ * Defaults of the session budget checks
+ */
+export const SessionBudgets = {
+  CHECK_INTERVAL: 1000, // 1 second
+  DEFAULT_WARNING_THRESHOLD: 0.8,
+} as const;
+
+/**
+ * Rate limit scheduling
+ */
+export const RateLimitScheduling = {
+  /**
+   * Size in bytes of the serialized `conversation.item.create` events held
+   * while rate limits are exhausted. Smaller items are sent right away.
+   */
+  LARGE_ITEM_SIZE: 8 * 1024, // 8 KiB
+} as const;
+
+/**
+ * Session persistence
+ */
+export const SessionPersistence = {
+  /**
+   * Time in milliseconds state changes are batched before the session is saved.
+   */
+  SAVE_DELAY: 2000, // 2 seconds
+  DATABASE_NAME: 'openai-realtime-sessions',
+  STORE_NAME: 'sessions',
+} as const;
+
+/**
+ * Event journal
+ */
+export const EventJournaling = {
+  DEFAULT_MAX_ENTRIES: 10000,
+} as const;
+
+/**
+ * Limits of the session endpoint
+ */
+export const SessionEndpointLimits = {
+  MAX_INSTRUCTIONS_LENGTH: 10000,
+  MAX_TOOLS: 128,
+  /**
+   * Largest `max_response_output_tokens` the API accepts.
+   */
+  MAX_RESPONSE_OUTPUT_TOKENS: 4096,
+  MIN_TEMPERATURE: 0.6,
+  MAX_TEMPERATURE: 1.2,
+} as const;
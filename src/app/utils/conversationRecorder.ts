@@ -0,0 +1,199 @@
+import { RecordingFormat, RecordingMode } from '../types';
+import { encodeWav } from './audio';
+
+// Samples per channel processed at once when recording WAV
+const WAV_BUFFER_SIZE = 4096;
+// Interval at which MediaRecorder hands over encoded data
+const WEBM_TIMESLICE_MS = 1000;
+
+const webmMimeTypes = ['audio/webm;codecs=opus', 'audio/webm'];
+
+/**
+ * Audio of a stopped recorder
+ */
+export interface RecordedAudio {
+  blob: Blob;
+  mimeType: string;
+  durationMs: number;
+}
+
+/**
+ * Records the microphone and the assistant audio of a session into one file,
+ * either side by side in stereo or mixed into mono
+ */
+export class ConversationRecorder {
+  private mode: RecordingMode;
+  private format: RecordingFormat;
+  private context: AudioContext;
+  // Node both sides are connected to, with one channel per side in stereo
+  private mix: AudioNode;
+  private inputSource: MediaStreamAudioSourceNode | null = null;
+  private outputSource: MediaStreamAudioSourceNode;
+  private mediaRecorder: MediaRecorder | null = null;
+  private chunks: Blob[] = [];
+  private processor: ScriptProcessorNode | null = null;
+  // Recorded samples of each channel, as received from the processor
+  private samples: Float32Array[][] = [];
+  private startedAt = 0;
+
+  /**
+   * @param inputStream - The microphone, null to record silence on its side.
+   * @param outputStream - The assistant audio.
+   */
+  constructor(
+    inputStream: MediaStream | null,
+    outputStream: MediaStream,
+    mode: RecordingMode,
+    format: RecordingFormat
+  ) {
+    this.mode = mode;
+    this.format = format;
+    this.context = new AudioContext();
+
+    if (mode === RecordingMode.STEREO) {
+      // Merger inputs are mono, so each side is downmixed to its channel
+      this.mix = this.context.createChannelMerger(2);
+    } else {
+      this.mix = new GainNode(this.context, {
+        channelCount: 1,
+        channelCountMode: 'explicit',
+      });
+    }
+    this.outputSource = this.context.createMediaStreamSource(outputStream);
+    this.outputSource.connect(this.mix, 0, this.getChannel('output'));
+    this.setInputStream(inputStream);
+  }
+
+  /**
+   * Starts recording.
+   * @throws When the browser cannot record the format.
+   */
+  async start(): Promise<void> {
+    try {
+      await this.context.resume();
+      this.connectRecorder();
+    } catch (error: unknown) {
+      this.release();
+      throw error;
+    }
+    this.startedAt = Date.now();
+  }
+
+  /**
+   * Records another microphone from now on, e.g. after switching devices.
+   */
+  setInputStream(inputStream: MediaStream | null): void {
+    this.inputSource?.disconnect();
+    this.inputSource = null;
+    if (inputStream && inputStream.getAudioTracks().length > 0) {
+      this.inputSource = this.context.createMediaStreamSource(inputStream);
+      this.inputSource.connect(this.mix, 0, this.getChannel('input'));
+    }
+  }
+
+  /**
+   * Stops recording and releases the audio graph.
+   */
+  async stop(): Promise<RecordedAudio> {
+    let audio: RecordedAudio;
+    if (this.mediaRecorder) {
+      const mediaRecorder = this.mediaRecorder;
+      if (mediaRecorder.state !== 'inactive') {
+        await new Promise<void>((resolve) => {
+          mediaRecorder.onstop = () => resolve();
+          mediaRecorder.stop();
+        });
+      }
+      const mimeType = mediaRecorder.mimeType;
+      audio = {
+        blob: new Blob(this.chunks, { type: mimeType }),
+        mimeType,
+        durationMs: Date.now() - this.startedAt,
+      };
+    } else {
+      const channels = this.samples.map((chunks) => {
+        const channel = new Float32Array(
+          chunks.reduce((length, chunk) => length + chunk.length, 0)
+        );
+        let offset = 0;
+        chunks.forEach((chunk) => {
+          channel.set(chunk, offset);
+          offset += chunk.length;
+        });
+        return channel;
+      });
+      const sampleRate = this.context.sampleRate;
+      audio = {
+        blob: encodeWav(channels, sampleRate),
+        mimeType: 'audio/wav',
+        durationMs: ((channels[0]?.length ?? 0) / sampleRate) * 1000,
+      };
+    }
+
+    this.release();
+    return audio;
+  }
+
+  // Feeds the mix to the processor or MediaRecorder of the format
+  private connectRecorder(): void {
+    const channelCount = this.mode === RecordingMode.STEREO ? 2 : 1;
+
+    if (this.format === RecordingFormat.WAV) {
+      this.samples = Array.from({ length: channelCount }, () => []);
+      this.processor = this.context.createScriptProcessor(
+        WAV_BUFFER_SIZE,
+        channelCount,
+        channelCount
+      );
+      this.processor.onaudioprocess = (event) => {
+        this.samples.forEach((channel, index) => {
+          channel.push(
+            new Float32Array(event.inputBuffer.getChannelData(index))
+          );
+        });
+      };
+      this.mix.connect(this.processor);
+      // Processors only run while connected to the destination, they output silence
+      this.processor.connect(this.context.destination);
+    } else {
+      const mimeType = webmMimeTypes.find((type) =>
+        MediaRecorder.isTypeSupported(type)
+      );
+      if (!mimeType) {
+        throw new Error('WebM audio recording is not supported');
+      }
+      const destination = this.context.createMediaStreamDestination();
+      destination.channelCount = channelCount;
+      this.mix.connect(destination);
+      this.mediaRecorder = new MediaRecorder(destination.stream, { mimeType });
+      this.mediaRecorder.ondataavailable = (event) => {
+        if (event.data.size > 0) {
+          this.chunks.push(event.data);
+        }
+      };
+      this.mediaRecorder.start(WEBM_TIMESLICE_MS);
+    }
+  }
+
+  private release(): void {
+    if (this.processor) {
+      this.processor.onaudioprocess = null;
+      this.processor.disconnect();
+      this.processor = null;
+    }
+    this.mediaRecorder = null;
+    this.inputSource?.disconnect();
+    this.outputSource.disconnect();
+    this.mix.disconnect();
+    this.chunks = [];
+    this.samples = [];
+    this.context.close().catch(() => {
+      // Already closed
+    });
+  }
+
+  // Merger input of a side, both sides share the single input of the mix
+  private getChannel(side: 'input' | 'output'): number {
+    return this.mode === RecordingMode.STEREO && side === 'output' ? 1 : 0;
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * Saves content as a file through a temporary download link
+ * @param content - The file content.
+ * @param filename - The suggested file name.
+ * @param type - The MIME type of the content.
+ */
+export const downloadFile = (
+  content: BlobPart,
+  filename: string,
+  type: string
+): void => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
@@ -11,19 +11,26 @@ export class EventEmitter {
   }
 
   /**
-   * Add an event listener
+   * Add an event listener, receiving events narrowed to the event type
    */
-  on(eventType: RealtimeEventType, callback: EventCallback): void {
+  on<T extends RealtimeEventType>(
+    eventType: T,
+    callback: EventCallback<T>
+  ): void {
     if (!this.listeners.has(eventType)) {
       this.listeners.set(eventType, new Set());
     }
-    this.listeners.get(eventType)?.add(callback);
+    // Listeners are only called with events of their type
+    this.listeners.get(eventType)?.add(callback as unknown as EventCallback);
   }
 
   /**
    * Remove an event listener
    */
-  off(eventType: RealtimeEventType, callback?: EventCallback): void {
+  off<T extends RealtimeEventType>(
+    eventType: T,
+    callback?: EventCallback<T>
+  ): void {
     if (!callback) {
       // If no callback provided, remove all listeners for this event type
       this.listeners.delete(eventType);
@@ -32,7 +39,7 @@ export class EventEmitter {
 
     const callbacks = this.listeners.get(eventType);
     if (callbacks) {
-      callbacks.delete(callback);
+      callbacks.delete(callback as unknown as EventCallback);
       if (callbacks.size === 0) {
         this.listeners.delete(eventType);
       }
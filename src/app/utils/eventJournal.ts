@@ -0,0 +1,139 @@
+import {
+  EventJournalOptions,
+  JournalDirection,
+  JournalEntry,
+  RealtimeClientEvent,
+  RealtimeEventType,
+} from '../types';
+import { EventJournaling } from './constants';
+
+// Field holding the audio of the events that carry audio
+const audioFields: Partial<Record<string, 'audio' | 'delta'>> = {
+  [RealtimeEventType.INPUT_AUDIO_BUFFER_APPEND]: 'audio',
+  [RealtimeEventType.RESPONSE_AUDIO_DELTA]: 'delta',
+};
+
+const journalDirections = new Set<string>(Object.values(JournalDirection));
+
+// Replaces the audio of an event with an empty string
+const withoutAudio = (event: JournalEntry['event']): JournalEntry['event'] => {
+  if (typeof event !== 'object' || event === null) {
+    return event;
+  }
+  const field = audioFields[event.type];
+  return field && field in event ? { ...event, [field]: '' } : event;
+};
+
+/**
+ * Current time in milliseconds since the epoch, with the sub-millisecond
+ * precision of `performance.now()`
+ */
+export const getJournalTimestamp = (): number =>
+  performance.timeOrigin + performance.now();
+
+/**
+ * Records the events received and sent by sessions, in the order they went
+ * over the wire
+ */
+export class EventJournal {
+  private entries: JournalEntry[] = [];
+  private includeAudio: boolean;
+  private maxEntries: number;
+
+  constructor(options: EventJournalOptions = {}) {
+    this.includeAudio = options.includeAudio ?? false;
+    this.maxEntries = options.maxEntries ?? EventJournaling.DEFAULT_MAX_ENTRIES;
+  }
+
+  /**
+   * Records a raw message received from the server.
+   */
+  recordIncoming(sessionId: string, data: string): void {
+    let event: JournalEntry['event'];
+    try {
+      event = JSON.parse(data);
+    } catch {
+      event = data;
+    }
+    this.record(JournalDirection.INCOMING, sessionId, event);
+  }
+
+  /**
+   * Records an event sent to the server.
+   */
+  recordOutgoing(sessionId: string, event: RealtimeClientEvent): void {
+    this.record(JournalDirection.OUTGOING, sessionId, event);
+  }
+
+  /**
+   * Gets the recorded entries, oldest first.
+   * @param sessionId - Only get the entries of this session.
+   */
+  getEntries(sessionId?: string): JournalEntry[] {
+    return sessionId === undefined
+      ? [...this.entries]
+      : this.entries.filter((entry) => entry.sessionId === sessionId);
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+
+  private record(
+    direction: JournalDirection,
+    sessionId: string,
+    event: JournalEntry['event']
+  ): void {
+    this.entries.push({
+      direction,
+      timestamp: getJournalTimestamp(),
+      sessionId,
+      event: this.includeAudio ? event : withoutAudio(event),
+    });
+    if (this.entries.length > this.maxEntries) {
+      this.entries.splice(0, this.entries.length - this.maxEntries);
+    }
+  }
+}
+
+const isJournalEntry = (value: unknown): value is JournalEntry => {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const entry = value as Record<string, unknown>;
+  return (
+    typeof entry.direction === 'string' &&
+    journalDirections.has(entry.direction) &&
+    typeof entry.timestamp === 'number' &&
+    typeof entry.sessionId === 'string' &&
+    (typeof entry.event === 'string' ||
+      (typeof entry.event === 'object' && entry.event !== null))
+  );
+};
+
+/**
+ * Formats journal entries as NDJSON, one entry per line
+ */
+export const eventJournalToNdjson = (entries: JournalEntry[]): string =>
+  entries.map((entry) => `${JSON.stringify(entry)}\n`).join('');
+
+/**
+ * Reads journal entries from NDJSON, ignoring blank lines.
+ * @throws When a line is not a journal entry.
+ */
+export const parseEventJournal = (ndjson: string): JournalEntry[] =>
+  ndjson.split('\n').flatMap((line, index) => {
+    if (!line.trim()) {
+      return [];
+    }
+    let entry: unknown;
+    try {
+      entry = JSON.parse(line);
+    } catch {
+      throw new Error(`Line ${index + 1} of the journal is not valid JSON`);
+    }
+    if (!isJournalEntry(entry)) {
+      throw new Error(`Line ${index + 1} of the journal is not an entry`);
+    }
+    return [entry];
+  });
@@ -0,0 +1,244 @@
+import { RealtimeServerEvent } from '../types';
+
+/**
+ * Expected type of an event field. `string?` also accepts null or a missing
+ * field, `array+` only accepts an array with elements.
+ */
+type FieldType =
+  | 'string'
+  | 'string?'
+  | 'number'
+  | 'object'
+  | 'array'
+  | 'array+';
+
+/**
+ * Required fields of an event, keyed by path. Nested fields are separated by
+ * dots and `[]` checks every element of an array, e.g. `rate_limits[].remaining`.
+ */
+type EventSchema = Record<string, FieldType>;
+
+const contentFields: EventSchema = {
+  response_id: 'string',
+  item_id: 'string',
+  output_index: 'number',
+  content_index: 'number',
+};
+
+const deltaFields: EventSchema = { ...contentFields, delta: 'string' };
+
+const contentPartFields: EventSchema = { ...contentFields, part: 'object' };
+
+const outputItemFields: EventSchema = {
+  response_id: 'string',
+  output_index: 'number',
+  item: 'object',
+  'item.id': 'string',
+  'item.type': 'string',
+};
+
+/**
+ * Schemas of all server events, checking the fields the client relies on
+ */
+const serverEventSchemas: Record<RealtimeServerEvent['type'], EventSchema> = {
+  error: { error: 'object', 'error.type': 'string', 'error.message': 'string' },
+  'session.created': { session: 'object', 'session.id': 'string' },
+  'session.updated': { session: 'object' },
+  'conversation.created': {
+    conversation: 'object',
+    'conversation.id': 'string',
+  },
+  'conversation.item.created': {
+    previous_item_id: 'string?',
+    item: 'object',
+    'item.id': 'string',
+    'item.type': 'string',
+  },
+  'conversation.item.retrieved': { item: 'object', 'item.id': 'string' },
+  'conversation.item.input_audio_transcription.delta': {
+    item_id: 'string',
+    content_index: 'number',
+    delta: 'string',
+  },
+  'conversation.item.input_audio_transcription.completed': {
+    item_id: 'string',
+    content_index: 'number',
+    transcript: 'string',
+  },
+  'conversation.item.input_audio_transcription.failed': {
+    item_id: 'string',
+    content_index: 'number',
+    error: 'object',
+  },
+  'conversation.item.truncated': {
+    item_id: 'string',
+    content_index: 'number',
+    audio_end_ms: 'number',
+  },
+  'conversation.item.deleted': { item_id: 'string' },
+  'input_audio_buffer.committed': {
+    previous_item_id: 'string?',
+    item_id: 'string',
+  },
+  'input_audio_buffer.cleared': {},
+  'input_audio_buffer.speech_started': {
+    audio_start_ms: 'number',
+    item_id: 'string',
+  },
+  'input_audio_buffer.speech_stopped': {
+    audio_end_ms: 'number',
+    item_id: 'string',
+  },
+  'output_audio_buffer.started': { response_id: 'string' },
+  'output_audio_buffer.stopped': { response_id: 'string' },
+  'output_audio_buffer.cleared': { response_id: 'string' },
+  'response.created': { response: 'object', 'response.id': 'string' },
+  'response.done': {
+    response: 'object',
+    'response.id': 'string',
+    'response.status': 'string',
+    'response.output': 'array',
+  },
+  'response.output_item.added': outputItemFields,
+  'response.output_item.done': outputItemFields,
+  'response.content_part.added': contentPartFields,
+  'response.content_part.done': contentPartFields,
+  'response.text.delta': deltaFields,
+  'response.text.done': { ...contentFields, text: 'string' },
+  'response.audio_transcript.delta': deltaFields,
+  'response.audio_transcript.done': {
+    ...contentFields,
+    transcript: 'string',
+  },
+  'response.audio.delta': deltaFields,
+  'response.audio.done': contentFields,
+  'response.function_call_arguments.delta': {
+    response_id: 'string',
+    item_id: 'string',
+    call_id: 'string',
+    delta: 'string',
+  },
+  'response.function_call_arguments.done': {
+    response_id: 'string',
+    item_id: 'string',
+    call_id: 'string',
+    arguments: 'string',
+  },
+  'rate_limits.updated': {
+    rate_limits: 'array+',
+    'rate_limits[].remaining': 'number',
+    'rate_limits[].reset_seconds': 'number',
+  },
+};
+
+/**
+ * Result of validating a raw server event
+ */
+export type EventValidationResult =
+  | { status: 'valid'; event: RealtimeServerEvent }
+  | { status: 'unknown'; eventType: string }
+  | { status: 'invalid'; eventType: string | null; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const matchesFieldType = (value: unknown, fieldType: FieldType): boolean => {
+  switch (fieldType) {
+    case 'string?':
+      return value === undefined || value === null || typeof value === 'string';
+    case 'object':
+      return isObject(value);
+    case 'array':
+      return Array.isArray(value);
+    case 'array+':
+      return Array.isArray(value) && value.length > 0;
+    default:
+      return typeof value === fieldType;
+  }
+};
+
+const joinPath = (path: string, key: string): string =>
+  path ? `${path}.${key}` : key;
+
+// Checks the field at the remaining path segments, collecting mismatches
+const validateField = (
+  value: unknown,
+  segments: string[],
+  fieldType: FieldType,
+  path: string,
+  errors: string[]
+): void => {
+  if (segments.length === 0) {
+    if (!matchesFieldType(value, fieldType)) {
+      errors.push(
+        `${path} should be ${fieldType === 'array+' ? 'non-empty array' : fieldType}`
+      );
+    }
+    return;
+  }
+
+  if (!isObject(value)) {
+    errors.push(`${path || 'event'} should be object`);
+    return;
+  }
+
+  const [segment, ...rest] = segments;
+  if (segment.endsWith('[]')) {
+    const key = segment.slice(0, -2);
+    const items = value[key];
+    if (!Array.isArray(items)) {
+      errors.push(`${joinPath(path, key)} should be array`);
+      return;
+    }
+    items.forEach((item, index) =>
+      validateField(
+        item,
+        rest,
+        fieldType,
+        `${joinPath(path, key)}[${index}]`,
+        errors
+      )
+    );
+    return;
+  }
+
+  validateField(
+    value[segment],
+    rest,
+    fieldType,
+    joinPath(path, segment),
+    errors
+  );
+};
+
+/**
+ * Parses a raw server event and checks it against the schema of its type.
+ * @param data - The raw payload received from the transport.
+ */
+export const validateServerEvent = (data: string): EventValidationResult => {
+  let payload: unknown;
+  try {
+    payload = JSON.parse(data);
+  } catch {
+    return { status: 'invalid', eventType: null, errors: ['not valid JSON'] };
+  }
+
+  if (!isObject(payload) || typeof payload.type !== 'string') {
+    return { status: 'invalid', eventType: null, errors: ['type is missing'] };
+  }
+
+  const eventType = payload.type;
+  if (!Object.prototype.hasOwnProperty.call(serverEventSchemas, eventType)) {
+    return { status: 'unknown', eventType };
+  }
+  const schema = serverEventSchemas[eventType as RealtimeServerEvent['type']];
+
+  const errors: string[] = [];
+  Object.entries(schema).forEach(([path, fieldType]) =>
+    validateField(payload, path.split('.'), fieldType, '', errors)
+  );
+  if (errors.length > 0) {
+    return { status: 'invalid', eventType, errors };
+  }
+  return { status: 'valid', event: payload as unknown as RealtimeServerEvent };
+};
@@ -0,0 +1,154 @@
+import {
+  ConversationRole,
+  ItemTiming,
+  RealtimeEventType,
+  RealtimeServerEvent,
+  TransportType,
+} from '../types';
+import { getBase64PCM16DurationMs } from './audio';
+
+/**
+ * A change to the timing of an item. Fields left undefined are unchanged.
+ */
+export interface ItemTimingUpdate {
+  itemId: string;
+  startedAt?: number;
+  endedAt?: number;
+}
+
+interface PlayingItem {
+  startedAt: number;
+  // Duration of the audio deltas received so far, over WebSocket
+  audioMs: number;
+}
+
+/**
+ * Measures when conversation items were spoken from the server events, for
+ * the cue timings of subtitle exports
+ */
+export class ItemTimingTracker {
+  // Assistant message items of each response
+  private responseItems = new Map<string, string[]>();
+  private playingItems = new Map<string, PlayingItem>();
+  // Responses with audio, over WebRTC forgotten once their output buffer stops
+  private audioResponses = new Set<string>();
+  private transport: TransportType;
+
+  constructor(transport: TransportType) {
+    this.transport = transport;
+  }
+
+  /**
+   * Records the time of a server event.
+   * @param now - When the event was received, in milliseconds since the epoch.
+   * @returns The item timings changed by the event
+   */
+  record(
+    event: RealtimeServerEvent,
+    now: number = Date.now()
+  ): ItemTimingUpdate[] {
+    switch (event.type) {
+      case RealtimeEventType.INPUT_AUDIO_SPEECH_STARTED:
+        return [{ itemId: event.item_id, startedAt: now }];
+      case RealtimeEventType.INPUT_AUDIO_SPEECH_STOPPED:
+        return [{ itemId: event.item_id, endedAt: now }];
+      case RealtimeEventType.RESPONSE_OUTPUT_ITEM_ADDED:
+        if (event.item.id && event.item.role === ConversationRole.ASSISTANT) {
+          this.responseItems.set(event.response_id, [
+            ...(this.responseItems.get(event.response_id) ?? []),
+            event.item.id,
+          ]);
+        }
+        return [];
+      case RealtimeEventType.OUTPUT_AUDIO_STARTED:
+        return (this.responseItems.get(event.response_id) ?? []).flatMap(
+          (itemId) => this.startItem(itemId, now)
+        );
+      case RealtimeEventType.RESPONSE_AUDIO_DELTA: {
+        this.audioResponses.add(event.response_id);
+        const updates = this.startItem(event.item_id, now);
+        const item = this.playingItems.get(event.item_id);
+        if (item) {
+          item.audioMs += getBase64PCM16DurationMs(event.delta);
+        }
+        return updates;
+      }
+      case RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DELTA:
+        this.audioResponses.add(event.response_id);
+        return this.startItem(event.item_id, now);
+      case RealtimeEventType.RESPONSE_AUDIO_DONE: {
+        // Audio streamed over WebSocket is generated faster than it plays
+        const item = this.playingItems.get(event.item_id);
+        return [
+          {
+            itemId: event.item_id,
+            endedAt: item ? Math.max(now, item.startedAt + item.audioMs) : now,
+          },
+        ];
+      }
+      case RealtimeEventType.OUTPUT_AUDIO_STOPPED:
+      case RealtimeEventType.OUTPUT_AUDIO_CLEARED: {
+        // Sent over WebRTC once the audio of the response finished playing
+        const itemIds = this.responseItems.get(event.response_id) ?? [];
+        this.forgetResponse(event.response_id);
+        return itemIds.map((itemId) => ({ itemId, endedAt: now }));
+      }
+      case RealtimeEventType.RESPONSE_DONE:
+        // Only the audio played over WebRTC is followed by output buffer events
+        if (
+          this.transport === TransportType.WEBSOCKET ||
+          !this.audioResponses.has(event.response.id)
+        ) {
+          this.forgetResponse(event.response.id);
+        }
+        return [];
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Forgets the responses in progress, e.g. when the session closes
+   */
+  reset(): void {
+    this.responseItems.clear();
+    this.playingItems.clear();
+    this.audioResponses.clear();
+  }
+
+  private forgetResponse(responseId: string): void {
+    (this.responseItems.get(responseId) ?? []).forEach((itemId) =>
+      this.playingItems.delete(itemId)
+    );
+    this.responseItems.delete(responseId);
+    this.audioResponses.delete(responseId);
+  }
+
+  // Starts an item on its first audio, later events change nothing
+  private startItem(itemId: string, now: number): ItemTimingUpdate[] {
+    if (this.playingItems.has(itemId)) {
+      return [];
+    }
+    this.playingItems.set(itemId, { startedAt: now, audioMs: 0 });
+    return [{ itemId, startedAt: now }];
+  }
+}
+
+/**
+ * Applies timing updates to the timings of a session. Items keep the time
+ * they started first and the time they ended last.
+ */
+export const applyItemTimingUpdates = (
+  timings: Record<string, ItemTiming>,
+  updates: ItemTimingUpdate[]
+): Record<string, ItemTiming> =>
+  updates.reduce((result, { itemId, startedAt, endedAt }) => {
+    const timing = result[itemId] ?? { startedAt: null, endedAt: null };
+    return {
+      ...result,
+      [itemId]: {
+        startedAt: timing.startedAt ?? startedAt ?? null,
+        endedAt: endedAt ?? timing.endedAt,
+      },
+    };
+  }, timings);
@@ -0,0 +1,171 @@
+import { RealtimeEventType, RealtimeServerEvent, TurnLatency } from '../types';
+
+type PendingTurn = Pick<
+  TurnLatency,
+  | 'speechStoppedAt'
+  | 'committedAt'
+  | 'responseCreatedAt'
+  | 'firstTokenAt'
+  | 'firstAudioAt'
+>;
+
+const getElapsedMs = (start: number, end: number | null): number | null =>
+  end === null ? null : end - start;
+
+/**
+ * Measures the timings of conversation turns from the server events
+ */
+export class LatencyTracker {
+  // Input of the next turn, until a response is created for it
+  private speechStoppedAt: number | null = null;
+  private committedAt: number | null = null;
+  private turns = new Map<string, PendingTurn>();
+
+  /**
+   * Records the time of a server event.
+   * @param now - When the event was received, in milliseconds since the epoch.
+   * @returns The timings of the turn completed by the event, if any
+   */
+  record(
+    event: RealtimeServerEvent,
+    now: number = Date.now()
+  ): TurnLatency | null {
+    switch (event.type) {
+      case RealtimeEventType.INPUT_AUDIO_SPEECH_STOPPED:
+        this.speechStoppedAt = now;
+        this.committedAt = null;
+        break;
+      case RealtimeEventType.INPUT_AUDIO_COMMITTED:
+        this.committedAt = now;
+        break;
+      case RealtimeEventType.RESPONSE_CREATED:
+        this.turns.set(event.response.id, {
+          speechStoppedAt: this.speechStoppedAt,
+          committedAt: this.committedAt,
+          responseCreatedAt: now,
+          firstTokenAt: null,
+          firstAudioAt: null,
+        });
+        this.speechStoppedAt = null;
+        this.committedAt = null;
+        break;
+      case RealtimeEventType.RESPONSE_TEXT_DELTA:
+      case RealtimeEventType.RESPONSE_AUDIO_TRANSCRIPT_DELTA: {
+        const turn = this.turns.get(event.response_id);
+        if (turn && turn.firstTokenAt === null) {
+          turn.firstTokenAt = now;
+        }
+        break;
+      }
+      case RealtimeEventType.RESPONSE_AUDIO_DELTA:
+      case RealtimeEventType.OUTPUT_AUDIO_STARTED: {
+        const turn = this.turns.get(event.response_id);
+        if (turn && turn.firstAudioAt === null) {
+          turn.firstAudioAt = now;
+        }
+        break;
+      }
+      case RealtimeEventType.RESPONSE_DONE: {
+        const turn = this.turns.get(event.response.id);
+        if (!turn) {
+          break;
+        }
+        this.turns.delete(event.response.id);
+        const startedAt =
+          turn.speechStoppedAt ?? turn.committedAt ?? turn.responseCreatedAt;
+        return {
+          ...turn,
+          responseId: event.response.id,
+          status: event.response.status,
+          responseDoneAt: now,
+          timeToFirstTokenMs: getElapsedMs(startedAt, turn.firstTokenAt),
+          timeToFirstAudioMs: getElapsedMs(startedAt, turn.firstAudioAt),
+          totalResponseMs: now - startedAt,
+        };
+      }
+      default:
+        break;
+    }
+    return null;
+  }
+
+  /**
+   * Forgets the turns in progress, e.g. when the session closes
+   */
+  reset(): void {
+    this.speechStoppedAt = null;
+    this.committedAt = null;
+    this.turns.clear();
+  }
+}
+
+/**
+ * Percentiles of a latency metric, in milliseconds
+ */
+export interface LatencyPercentiles {
+  count: number;
+  p50: number | null;
+  p90: number | null;
+  p95: number | null;
+  max: number | null;
+}
+
+/**
+ * Nearest-rank percentile of values
+ * @param percentile - The percentile, from 0 to 100.
+ */
+export const getPercentile = (
+  values: number[],
+  percentile: number
+): number | null => {
+  if (values.length === 0) {
+    return null;
+  }
+  const sorted = [...values].sort((a, b) => a - b);
+  const rank = Math.ceil((percentile / 100) * sorted.length);
+  return sorted[Math.min(sorted.length, Math.max(1, rank)) - 1];
+};
+
+/**
+ * Percentiles of a timing over turns, skipping turns without it
+ */
+export const summarizeTurnLatencies = (
+  turns: TurnLatency[],
+  metric: 'timeToFirstTokenMs' | 'timeToFirstAudioMs' | 'totalResponseMs'
+): LatencyPercentiles => {
+  const values = turns
+    .map((turn) => turn[metric])
+    .filter((value): value is number => value !== null);
+  return {
+    count: values.length,
+    p50: getPercentile(values, 50),
+    p90: getPercentile(values, 90),
+    p95: getPercentile(values, 95),
+    max: values.length > 0 ? Math.max(...values) : null,
+  };
+};
+
+const turnLatencyColumns: (keyof TurnLatency)[] = [
+  'responseId',
+  'status',
+  'speechStoppedAt',
+  'committedAt',
+  'responseCreatedAt',
+  'firstTokenAt',
+  'firstAudioAt',
+  'responseDoneAt',
+  'timeToFirstTokenMs',
+  'timeToFirstAudioMs',
+  'totalResponseMs',
+];
+
+/**
+ * Formats turn timings as CSV, one turn per row
+ */
+export const turnLatenciesToCsv = (turns: TurnLatency[]): string =>
+  [
+    turnLatencyColumns.join(','),
+    ...turns.map((turn) =>
+      turnLatencyColumns.map((column) => turn[column] ?? '').join(',')
+    ),
+  ].join('\n');
@@ -0,0 +1,238 @@
+import { IceCandidatePairInfo, NetworkQuality, NetworkStats } from '../types';
+
+/**
+ * Cumulative counters of a stats report, kept to compute rates between collections
+ */
+export interface NetworkCounters {
+  timestamp: number;
+  bytesReceived: number;
+  bytesSent: number;
+  packetsReceived: number;
+  packetsLost: number;
+}
+
+// Stats entries missing from the DOM typings
+interface IceCandidateStats extends RTCStats {
+  candidateType?: string;
+  protocol?: string;
+  address?: string;
+  port?: number;
+}
+
+interface RemoteInboundRtpStreamStats extends RTCStats {
+  kind: string;
+  roundTripTime?: number;
+}
+
+interface MediaSourceStats extends RTCStats {
+  kind: string;
+  audioLevel?: number;
+}
+
+// Lowest quality score of each level, best level first
+const qualityThresholds: [NetworkQuality, number][] = [
+  [NetworkQuality.EXCELLENT, 4.0],
+  [NetworkQuality.GOOD, 3.6],
+  [NetworkQuality.FAIR, 3.1],
+  [NetworkQuality.POOR, 0],
+];
+
+const formatCandidate = (candidate?: IceCandidateStats): string | null =>
+  candidate?.address
+    ? `${candidate.address}${candidate.port ? `:${candidate.port}` : ''}`
+    : null;
+
+const getSelectedCandidatePair = (
+  report: RTCStatsReport
+): RTCIceCandidatePairStats | undefined => {
+  let selectedPairId: string | undefined;
+  let nominatedPair: RTCIceCandidatePairStats | undefined;
+  report.forEach((entry: RTCStats) => {
+    if (entry.type === 'transport') {
+      selectedPairId ??= (entry as RTCTransportStats).selectedCandidatePairId;
+    } else if (entry.type === 'candidate-pair') {
+      const pair = entry as RTCIceCandidatePairStats;
+      if (pair.nominated && pair.state === 'succeeded') {
+        nominatedPair ??= pair;
+      }
+    }
+  });
+  // Firefox does not report the selected pair on the transport
+  return selectedPairId ? report.get(selectedPairId) : nominatedPair;
+};
+
+const getCandidatePairInfo = (
+  report: RTCStatsReport,
+  pair: RTCIceCandidatePairStats
+): IceCandidatePairInfo => {
+  const local = report.get(pair.localCandidateId) as
+    | IceCandidateStats
+    | undefined;
+  const remote = report.get(pair.remoteCandidateId) as
+    | IceCandidateStats
+    | undefined;
+  return {
+    localCandidateType: local?.candidateType ?? null,
+    remoteCandidateType: remote?.candidateType ?? null,
+    protocol: local?.protocol ?? null,
+    localAddress: formatCandidate(local),
+    remoteAddress: formatCandidate(remote),
+  };
+};
+
+// Bitrate in kbps between two byte counters
+const getBitrateKbps = (
+  bytes: number,
+  previousBytes: number,
+  elapsedMs: number
+): number | null =>
+  elapsedMs > 0 && bytes >= previousBytes
+    ? ((bytes - previousBytes) * 8) / elapsedMs
+    : null;
+
+/**
+ * Estimates a mean opinion score from 1 to 5 with a simplified E-model
+ * (ITU-T G.107) for the Opus audio of a session.
+ * @param packetLoss - Fraction (0 to 1) of packets lost.
+ */
+export const computeQualityScore = (
+  roundTripTimeMs: number,
+  jitterMs: number,
+  packetLoss: number
+): number => {
+  // One-way delay including the jitter buffer and codec
+  const delayMs = roundTripTimeMs / 2 + jitterMs * 2 + 10;
+  const delayImpairment = delayMs < 160 ? delayMs / 40 : (delayMs - 120) / 10;
+  const lossImpairment = packetLoss * 100 * 2.5;
+  const rating = Math.min(
+    100,
+    Math.max(0, 93.2 - delayImpairment - lossImpairment)
+  );
+  const score =
+    1 + 0.035 * rating + 7e-6 * rating * (rating - 60) * (100 - rating);
+  return Math.round(Math.min(5, Math.max(1, score)) * 100) / 100;
+};
+
+/**
+ * Quality level of a quality score
+ */
+export const getNetworkQuality = (score: number): NetworkQuality =>
+  (qualityThresholds.find(([, threshold]) => score >= threshold) ??
+    qualityThresholds[qualityThresholds.length - 1])[0];
+
+/**
+ * Reads the network statistics of an audio session from a stats report.
+ * @param previous - Counters of the previous collection, to compute rates since then.
+ */
+export const readNetworkStats = (
+  report: RTCStatsReport,
+  previous: NetworkCounters | null
+): { stats: NetworkStats; counters: NetworkCounters } => {
+  const counters: NetworkCounters = {
+    timestamp: Date.now(),
+    bytesReceived: 0,
+    bytesSent: 0,
+    packetsReceived: 0,
+    packetsLost: 0,
+  };
+  let jitterMs: number | null = null;
+  let remoteRoundTripTimeMs: number | null = null;
+  let inputAudioLevel: number | null = null;
+  let outputAudioLevel: number | null = null;
+
+  report.forEach((entry: RTCStats) => {
+    switch (entry.type) {
+      case 'inbound-rtp': {
+        const inbound = entry as RTCInboundRtpStreamStats;
+        if (inbound.kind !== 'audio') {
+          break;
+        }
+        counters.bytesReceived += inbound.bytesReceived ?? 0;
+        counters.packetsReceived += inbound.packetsReceived ?? 0;
+        counters.packetsLost += inbound.packetsLost ?? 0;
+        if (inbound.jitter !== undefined) {
+          jitterMs = inbound.jitter * 1000;
+        }
+        outputAudioLevel = inbound.audioLevel ?? outputAudioLevel;
+        break;
+      }
+      case 'outbound-rtp': {
+        const outbound = entry as RTCOutboundRtpStreamStats;
+        if (outbound.kind === 'audio') {
+          counters.bytesSent += outbound.bytesSent ?? 0;
+        }
+        break;
+      }
+      case 'remote-inbound-rtp': {
+        const remoteInbound = entry as RemoteInboundRtpStreamStats;
+        if (
+          remoteInbound.kind === 'audio' &&
+          remoteInbound.roundTripTime !== undefined
+        ) {
+          remoteRoundTripTimeMs = remoteInbound.roundTripTime * 1000;
+        }
+        break;
+      }
+      case 'media-source': {
+        const source = entry as MediaSourceStats;
+        if (source.kind === 'audio') {
+          inputAudioLevel = source.audioLevel ?? inputAudioLevel;
+        }
+        break;
+      }
+      default:
+        break;
+    }
+  });
+
+  const pair = getSelectedCandidatePair(report);
+  const roundTripTimeMs =
+    pair?.currentRoundTripTime !== undefined
+      ? pair.currentRoundTripTime * 1000
+      : remoteRoundTripTimeMs;
+
+  let packetLoss: number | null = null;
+  let inboundBitrateKbps: number | null = null;
+  let outboundBitrateKbps: number | null = null;
+  if (previous) {
+    const elapsedMs = counters.timestamp - previous.timestamp;
+    const received = Math.max(
+      0,
+      counters.packetsReceived - previous.packetsReceived
+    );
+    const lost = Math.max(0, counters.packetsLost - previous.packetsLost);
+    packetLoss = received + lost > 0 ? lost / (received + lost) : 0;
+    inboundBitrateKbps = getBitrateKbps(
+      counters.bytesReceived,
+      previous.bytesReceived,
+      elapsedMs
+    );
+    outboundBitrateKbps = getBitrateKbps(
+      counters.bytesSent,
+      previous.bytesSent,
+      elapsedMs
+    );
+  }
+
+  const qualityScore =
+    roundTripTimeMs !== null && packetLoss !== null
+      ? computeQualityScore(roundTripTimeMs, jitterMs ?? 0, packetLoss)
+      : null;
+
+  return {
+    stats: {
+      timestamp: counters.timestamp,
+      roundTripTimeMs,
+      jitterMs,
+      packetLoss,
+      inboundBitrateKbps,
+      outboundBitrateKbps,
+      inputAudioLevel,
+      outputAudioLevel,
+      candidatePair: pair ? getCandidatePairInfo(report, pair) : null,
+      qualityScore,
+      quality: qualityScore !== null ? getNetworkQuality(qualityScore) : null,
+    },
+    counters,
+  };
+};
@@ -0,0 +1,162 @@
+import {
+  RealtimeClientEvent,
+  RealtimeEventType,
+  RealtimeTransport,
+} from '../types';
+import { OutgoingEvents } from './constants';
+import { splitBase64PCM16 } from './audio';
+
+/**
+ * Options of the outgoing event queue
+ */
+export interface OutgoingEventQueueOptions {
+  /**
+   * Returns the transport events are sent over, null while there is none.
+   */
+  getTransport: () => RealtimeTransport | null;
+  /**
+   * Called after an event was passed to the transport.
+   */
+  onSent: (event: RealtimeClientEvent) => void;
+  /**
+   * Called when the transport failed to send an event. The event is dropped.
+   */
+  onSendFailed: (event: RealtimeClientEvent, error: unknown) => void;
+  /**
+   * Called whenever the number of queued events changes.
+   */
+  onDepthChange: (depth: number) => void;
+}
+
+/**
+ * Buffers client events until the transport is open and its send buffer has
+ * room, and sends them in the order they were queued
+ */
+export class OutgoingEventQueue {
+  private events: RealtimeClientEvent[] = [];
+  private options: OutgoingEventQueueOptions;
+  private drainTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: OutgoingEventQueueOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Queues an event and sends as many queued events as the transport accepts.
+   */
+  enqueue(event: RealtimeClientEvent): void {
+    this.events.push(event);
+    this.flush();
+  }
+
+  /**
+   * Sends queued events in order until the queue is empty, the transport is
+   * closed or its send buffer is full. Audio appends larger than the transport
+   * message size are split.
+   */
+  flush(): void {
+    const transport = this.options.getTransport();
+    const depth = this.events.length;
+
+    while (this.events.length > 0 && transport?.isOpen()) {
+      if (transport.getBufferedAmount() > OutgoingEvents.BUFFERED_AMOUNT_HIGH) {
+        this.scheduleFlush();
+        break;
+      }
+
+      const [event, ...remainder] = this.split(
+        this.events.shift() as RealtimeClientEvent,
+        transport
+      );
+      this.events.unshift(...remainder);
+      try {
+        transport.send(event);
+        this.options.onSent(event);
+      } catch (error: unknown) {
+        this.options.onSendFailed(event, error);
+      }
+    }
+
+    if (this.events.length !== depth) {
+      this.options.onDepthChange(this.events.length);
+    }
+  }
+
+  /**
+   * Removes a queued event that has not been sent yet
+   * @returns Whether the event was still queued
+   */
+  remove(eventId: string): boolean {
+    const depth = this.events.length;
+    this.events = this.events.filter((event) => event.event_id !== eventId);
+    if (this.events.length === depth) {
+      return false;
+    }
+    this.options.onDepthChange(this.events.length);
+    return true;
+  }
+
+  /**
+   * Whether an event is queued
+   */
+  has(eventId: string): boolean {
+    return this.events.some((event) => event.event_id === eventId);
+  }
+
+  /**
+   * Drops all queued events, e.g. when the session closes
+   * @returns The dropped events
+   */
+  clear(): RealtimeClientEvent[] {
+    this.cancelScheduledFlush();
+    const events = this.events;
+    this.events = [];
+    if (events.length > 0) {
+      this.options.onDepthChange(0);
+    }
+    return events;
+  }
+
+  // Retries a flush paused by a full send buffer
+  private scheduleFlush(): void {
+    if (this.drainTimeoutId) {
+      return;
+    }
+    this.drainTimeoutId = setTimeout(() => {
+      this.drainTimeoutId = null;
+      this.flush();
+    }, OutgoingEvents.DRAIN_POLL_INTERVAL);
+  }
+
+  private cancelScheduledFlush(): void {
+    if (this.drainTimeoutId) {
+      clearTimeout(this.drainTimeoutId);
+      this.drainTimeoutId = null;
+    }
+  }
+
+  // Splits an audio append that does not fit in a single transport message
+  private split(
+    event: RealtimeClientEvent,
+    transport: RealtimeTransport
+  ): RealtimeClientEvent[] {
+    const maxMessageSize = transport.getMaxMessageSize?.();
+    if (
+      event.type !== RealtimeEventType.INPUT_AUDIO_BUFFER_APPEND ||
+      !maxMessageSize ||
+      JSON.stringify(event).length <= maxMessageSize
+    ) {
+      return [event];
+    }
+
+    const overhead = JSON.stringify({ ...event, audio: '' }).length;
+    return splitBase64PCM16(event.audio, maxMessageSize - overhead).map(
+      (audio, index) => ({
+        ...event,
+        // The first chunk keeps the event id so errors can still be related to it
+        event_id: index === 0 ? event.event_id : crypto.randomUUID(),
+        audio,
+      })
+    );
+  }
+}
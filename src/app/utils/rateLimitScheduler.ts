@@ -0,0 +1,181 @@
+import { RateLimit, RealtimeClientEvent, RealtimeEventType } from '../types';
+import { RateLimitScheduling } from './constants';
+
+/**
+ * Error of an event that was not sent because the rate limits of the session
+ * are exhausted
+ */
+export class RateLimitError extends Error {
+  /**
+   * Milliseconds until the limits reset.
+   */
+  readonly retryAfterMs: number;
+
+  constructor(retryAfterMs: number) {
+    super(`Rate limit exceeded, retry in ${Math.ceil(retryAfterMs / 1000)}s`);
+    this.name = 'RateLimitError';
+    this.retryAfterMs = retryAfterMs;
+  }
+}
+
+/**
+ * Options of the rate limit scheduler
+ */
+export interface RateLimitSchedulerOptions {
+  /**
+   * Called with each held event once the limits reset, in the order they were held.
+   */
+  onRelease: (event: RealtimeClientEvent) => void;
+  /**
+   * Called whenever the number of held events or the release time changes.
+   * @param resumeAt - When held events are released, in milliseconds since
+   * the epoch, null when none are held.
+   */
+  onWaitingChange: (waiting: number, resumeAt: number | null) => void;
+}
+
+/**
+ * Holds responses and large conversation items while the rate limits reported
+ * by `rate_limits.updated` are exhausted, and releases them once they reset
+ */
+export class RateLimitScheduler {
+  private events: RealtimeClientEvent[] = [];
+  private options: RateLimitSchedulerOptions;
+  // When the exhausted limits reset, 0 while none is exhausted
+  private resumeAt = 0;
+  private releaseTimeoutId: ReturnType<typeof setTimeout> | null = null;
+
+  constructor(options: RateLimitSchedulerOptions) {
+    this.options = options;
+  }
+
+  /**
+   * Applies the limits of a `rate_limits.updated` event. Held events are
+   * released right away when no limit is exhausted anymore.
+   */
+  update(rateLimits: RateLimit[], now: number = Date.now()): void {
+    const exhausted = rateLimits.filter((limit) => limit.remaining <= 0);
+    this.resumeAt =
+      exhausted.length > 0
+        ? now +
+          Math.max(...exhausted.map((limit) => limit.reset_seconds)) * 1000
+        : 0;
+
+    if (this.events.length === 0) {
+      return;
+    }
+    if (this.resumeAt > now) {
+      this.scheduleRelease(now);
+      this.notify();
+    } else {
+      this.release();
+    }
+  }
+
+  /**
+   * Whether an event has to wait: responses and large items while a limit is
+   * exhausted, and any item created after a held event to keep their order.
+   */
+  mustWait(event: RealtimeClientEvent, now: number = Date.now()): boolean {
+    if (event.type === RealtimeEventType.RESPONSE_CREATE) {
+      return this.events.length > 0 || this.resumeAt > now;
+    }
+    if (event.type === RealtimeEventType.CONVERSATION_ITEM_CREATE) {
+      return (
+        this.events.length > 0 ||
+        (this.resumeAt > now &&
+          JSON.stringify(event).length > RateLimitScheduling.LARGE_ITEM_SIZE)
+      );
+    }
+    return false;
+  }
+
+  /**
+   * Milliseconds until the exhausted limits reset, 0 if none is exhausted.
+   */
+  getRetryAfterMs(now: number = Date.now()): number {
+    return Math.max(0, this.resumeAt - now);
+  }
+
+  /**
+   * Holds an event until the limits reset.
+   */
+  hold(event: RealtimeClientEvent, now: number = Date.now()): void {
+    this.events.push(event);
+    if (!this.releaseTimeoutId) {
+      this.scheduleRelease(now);
+    }
+    this.notify();
+  }
+
+  /**
+   * Removes a held event
+   * @returns Whether the event was held
+   */
+  remove(eventId: string): boolean {
+    const waiting = this.events.length;
+    this.events = this.events.filter((event) => event.event_id !== eventId);
+    if (this.events.length === waiting) {
+      return false;
+    }
+    if (this.events.length === 0) {
+      this.cancelRelease();
+    }
+    this.notify();
+    return true;
+  }
+
+  /**
+   * Whether an event is held
+   */
+  has(eventId: string): boolean {
+    return this.events.some((event) => event.event_id === eventId);
+  }
+
+  /**
+   * Drops all held events and forgets the limits, e.g. when the session closes
+   * @returns The dropped events
+   */
+  clear(): RealtimeClientEvent[] {
+    this.cancelRelease();
+    this.resumeAt = 0;
+    const events = this.events;
+    this.events = [];
+    if (events.length > 0) {
+      this.notify();
+    }
+    return events;
+  }
+
+  // Releases held events once the limits reset
+  private scheduleRelease(now: number): void {
+    this.cancelRelease();
+    this.releaseTimeoutId = setTimeout(
+      () => this.release(),
+      Math.max(0, this.resumeAt - now)
+    );
+  }
+
+  private cancelRelease(): void {
+    if (this.releaseTimeoutId) {
+      clearTimeout(this.releaseTimeoutId);
+      this.releaseTimeoutId = null;
+    }
+  }
+
+  private release(): void {
+    this.cancelRelease();
+    this.resumeAt = 0;
+    const events = this.events;
+    this.events = [];
+    this.notify();
+    events.forEach((event) => this.options.onRelease(event));
+  }
+
+  private notify(): void {
+    this.options.onWaitingChange(
+      this.events.length,
+      this.events.length > 0 ? this.resumeAt : null
+    );
+  }
+}
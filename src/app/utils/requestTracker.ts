@@ -0,0 +1,156 @@
+import { RealtimeServerEvent, SessionError } from '../types';
+
+/**
+ * Error a request is rejected with when the server answers its client event
+ * with an `error` event. Carries the fields of the `SessionError`.
+ */
+export class RealtimeRequestError extends Error implements SessionError {
+  event_id: string;
+  type: string;
+  code: string | null;
+  param: string | null;
+  related_event_id: string | null;
+  timestamp: number;
+
+  constructor(error: SessionError) {
+    super(error.message);
+    this.name = 'RealtimeRequestError';
+    this.event_id = error.event_id;
+    this.type = error.type;
+    this.code = error.code;
+    this.param = error.param;
+    this.related_event_id = error.related_event_id;
+    this.timestamp = error.timestamp;
+  }
+}
+
+/**
+ * Options of a tracked request
+ */
+export interface TrackOptions {
+  timeoutMs: number;
+  signal?: AbortSignal;
+  /**
+   * Called when the request is aborted through its signal
+   */
+  onAbort?: () => void;
+  /**
+   * Called when the request times out
+   */
+  onTimeout?: () => void;
+}
+
+interface PendingRequest {
+  eventId: string;
+  matches: (event: RealtimeServerEvent) => boolean;
+  resolve: (event: RealtimeServerEvent) => void;
+  reject: (error: unknown) => void;
+}
+
+const getAbortReason = (signal: AbortSignal): unknown =>
+  signal.reason ?? new Error('Request aborted');
+
+/**
+ * Tracks client events awaiting a server reply, in the order they were sent
+ */
+export class RequestTracker {
+  private pending: PendingRequest[] = [];
+
+  /**
+   * Waits for the first server event matching a client event.
+   * @param eventId - The `event_id` of the client event, matched against `event_id` or `related_event_id` of errors.
+   * @param matches - Whether a server event is the reply.
+   */
+  track<T extends RealtimeServerEvent>(
+    eventId: string,
+    matches: (event: RealtimeServerEvent) => event is T,
+    { timeoutMs, signal, onAbort, onTimeout }: TrackOptions
+  ): Promise<T> {
+    return new Promise<T>((resolve, reject) => {
+      if (signal?.aborted) {
+        reject(getAbortReason(signal));
+        return;
+      }
+
+      const settle = () => {
+        if (timeoutId) {
+          clearTimeout(timeoutId);
+        }
+        signal?.removeEventListener('abort', handleAbort);
+        this.pending = this.pending.filter((request) => request !== pending);
+      };
+      const handleAbort = () => {
+        settle();
+        onAbort?.();
+        reject(getAbortReason(signal as AbortSignal));
+      };
+      const timeoutId =
+        timeoutMs > 0
+          ? setTimeout(() => {
+              settle();
+              onTimeout?.();
+              reject(
+                new Error(`Request '${eventId}' timed out after ${timeoutMs}ms`)
+              );
+            }, timeoutMs)
+          : null;
+
+      const pending: PendingRequest = {
+        eventId,
+        matches,
+        resolve: (event) => {
+          settle();
+          resolve(event as T);
+        },
+        reject: (error) => {
+          settle();
+          reject(error);
+        },
+      };
+      signal?.addEventListener('abort', handleAbort);
+      this.pending.push(pending);
+    });
+  }
+
+  /**
+   * Resolves the oldest request the server event replies to
+   * @returns Whether a request was resolved
+   */
+  resolve(event: RealtimeServerEvent): boolean {
+    const request = this.pending.find((pending) => pending.matches(event));
+    request?.resolve(event);
+    return Boolean(request);
+  }
+
+  /**
+   * Rejects the request an error event is related to. The API reports the
+   * failed client event in `event_id`, the fake server in `related_event_id`.
+   * @returns Whether a request was rejected
+   */
+  rejectRelated(error: SessionError): boolean {
+    const request = this.pending.find(
+      (pending) =>
+        pending.eventId === error.event_id ||
+        pending.eventId === error.related_event_id
+    );
+    request?.reject(new RealtimeRequestError(error));
+    return Boolean(request);
+  }
+
+  /**
+   * Rejects a single request, e.g. when its event could not be sent
+   */
+  reject(eventId: string, error: unknown): void {
+    this.pending.find((pending) => pending.eventId === eventId)?.reject(error);
+  }
+
+  /**
+   * Rejects all pending requests, e.g. when the session closes
+   * @param keep - Whether a request should stay pending, e.g. because its event has not been sent yet.
+   */
+  rejectAll(error: Error, keep?: (eventId: string) => boolean): void {
+    this.pending
+      .filter((pending) => !keep?.(pending.eventId))
+      .forEach((pending) => pending.reject(error));
+  }
+}
@@ -0,0 +1,194 @@
+import {
+  AudioFormat,
+  Modality,
+  OpenAICreateSessionParams,
+  TurnDetectionType,
+  Voice,
+} from '../types';
+import { SessionEndpointLimits } from './constants';
+
+/**
+ * Checks a field, collecting mismatches as `<path> should be ...`
+ */
+type FieldValidator = (value: unknown, path: string, errors: string[]) => void;
+
+export type SessionParamsValidationResult =
+  | { status: 'valid'; params: Partial<OpenAICreateSessionParams> }
+  | { status: 'invalid'; errors: string[] };
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const oneOf =
+  (values: readonly unknown[]): FieldValidator =>
+  (value, path, errors) => {
+    if (!values.includes(value)) {
+      errors.push(`${path} should be one of ${values.join(', ')}`);
+    }
+  };
+
+const stringUpTo =
+  (maxLength: number): FieldValidator =>
+  (value, path, errors) => {
+    if (typeof value !== 'string') {
+      errors.push(`${path} should be string`);
+    } else if (value.length > maxLength) {
+      errors.push(`${path} should be at most ${maxLength} characters`);
+    }
+  };
+
+const numberBetween =
+  (min: number, max: number): FieldValidator =>
+  (value, path, errors) => {
+    if (typeof value !== 'number' || !(value >= min && value <= max)) {
+      errors.push(`${path} should be a number between ${min} and ${max}`);
+    }
+  };
+
+const boolean: FieldValidator = (value, path, errors) => {
+  if (typeof value !== 'boolean') {
+    errors.push(`${path} should be boolean`);
+  }
+};
+
+const anyObject: FieldValidator = (value, path, errors) => {
+  if (!isObject(value)) {
+    errors.push(`${path} should be object`);
+  }
+};
+
+const nullable =
+  (validator: FieldValidator): FieldValidator =>
+  (value, path, errors) => {
+    if (value !== null) {
+      validator(value, path, errors);
+    }
+  };
+
+const arrayOf =
+  (item: FieldValidator, maxItems: number): FieldValidator =>
+  (value, path, errors) => {
+    if (!Array.isArray(value)) {
+      errors.push(`${path} should be array`);
+    } else if (value.length > maxItems) {
+      errors.push(`${path} should have at most ${maxItems} items`);
+    } else {
+      value.forEach((element, index) =>
+        item(element, `${path}[${index}]`, errors)
+      );
+    }
+  };
+
+// Checks the fields of an object, rejecting the ones it does not know, or
+// dropping them when `dropUnknown` is set
+const objectOf =
+  (
+    fields: Record<string, FieldValidator>,
+    required: string[] = [],
+    dropUnknown = false
+  ): FieldValidator =>
+  (value, path, errors) => {
+    if (!isObject(value)) {
+      errors.push(`${path} should be object`);
+      return;
+    }
+    required
+      .filter((key) => value[key] === undefined)
+      .forEach((key) => errors.push(`${path}.${key} is required`));
+    Object.entries(value).forEach(([key, fieldValue]) => {
+      if (!Object.prototype.hasOwnProperty.call(fields, key)) {
+        if (dropUnknown) {
+          delete value[key];
+        } else {
+          errors.push(`${path}.${key} is not allowed`);
+        }
+      } else if (fieldValue !== undefined) {
+        fields[key](fieldValue, `${path}.${key}`, errors);
+      }
+    });
+  };
+
+const maxResponseOutputTokens: FieldValidator = (value, path, errors) => {
+  const max = SessionEndpointLimits.MAX_RESPONSE_OUTPUT_TOKENS;
+  if (
+    value !== 'inf' &&
+    !(
+      Number.isInteger(value) &&
+      (value as number) >= 1 &&
+      (value as number) <= max
+    )
+  ) {
+    errors.push(`${path} should be 'inf' or an integer between 1 and ${max}`);
+  }
+};
+
+/**
+ * Schemas of the session parameters clients may send. The client secret
+ * refresh sends back the session the API returned, so nested objects drop the
+ * fields the API adds instead of rejecting them.
+ */
+const sessionParamsSchema: Record<
+  keyof OpenAICreateSessionParams,
+  FieldValidator
+> = {
+  modalities: arrayOf(oneOf(Object.values(Modality)), 2),
+  instructions: stringUpTo(SessionEndpointLimits.MAX_INSTRUCTIONS_LENGTH),
+  tools: arrayOf(
+    objectOf(
+      {
+        type: oneOf(['function']),
+        name: stringUpTo(64),
+        description: stringUpTo(1024),
+        parameters: anyObject,
+      },
+      ['type', 'name'],
+      true
+    ),
+    SessionEndpointLimits.MAX_TOOLS
+  ),
+  turn_detection: nullable(
+    objectOf(
+      {
+        type: oneOf(Object.values(TurnDetectionType)),
+        threshold: numberBetween(0, 1),
+        prefix_padding_ms: numberBetween(0, 10000),
+        silence_duration_ms: numberBetween(0, 10000),
+        // Returned by the API, sent back when refreshing the client secret
+        create_response: boolean,
+        interrupt_response: boolean,
+      },
+      ['type'],
+      true
+    )
+  ),
+  input_audio_transcription: nullable(
+    objectOf({ model: stringUpTo(64) }, ['model'], true)
+  ),
+  voice: oneOf(Object.values(Voice)),
+  output_audio_format: oneOf(Object.values(AudioFormat)),
+  temperature: numberBetween(
+    SessionEndpointLimits.MIN_TEMPERATURE,
+    SessionEndpointLimits.MAX_TEMPERATURE
+  ),
+  max_response_output_tokens: maxResponseOutputTokens,
+};
+
+/**
+ * Checks a request body against `OpenAICreateSessionParams`. Fields that are
+ * not session parameters, like `model`, are rejected. Unknown fields of nested
+ * objects are removed from the body.
+ * @param body - The parsed request body.
+ */
+export const validateSessionParams = (
+  body: unknown
+): SessionParamsValidationResult => {
+  const errors: string[] = [];
+  objectOf(sessionParamsSchema)(body, 'body', errors);
+  if (errors.length > 0) {
+    return { status: 'invalid', errors };
+  }
+  return {
+    status: 'valid',
+    params: body as Partial<OpenAICreateSessionParams>,
+  };
+};
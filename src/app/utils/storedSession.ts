@@ -0,0 +1,39 @@
+import { RealtimeSession, StoredSession, StoredSessionSummary } from '../types';
+
+/**
+ * Copies a session without the live objects that cannot be persisted
+ * (peer connection, data channel, media stream) and without its client secret
+ */
+export const toStoredSession = (
+  session: RealtimeSession,
+  savedAt: string = new Date().toISOString()
+): StoredSession => {
+  const stored: StoredSession & Partial<RealtimeSession> = {
+    ...session,
+    savedAt,
+  };
+  delete stored.peer_connection;
+  delete stored.dataChannel;
+  delete stored.mediaStream;
+  delete stored.client_secret;
+  return stored;
+};
+
+/**
+ * Overview of a stored session
+ */
+export const summarizeStoredSession = (
+  session: StoredSession
+): StoredSessionSummary => ({
+  id: session.id,
+  model: session.model,
+  startTime: session.startTime,
+  endTime: session.endTime,
+  duration: session.duration,
+  connectionStatus: session.connectionStatus,
+  disconnectReason: session.disconnectReason,
+  estimatedCost: session.estimatedCost,
+  savedAt: session.savedAt,
+  totalTokens: session.tokenUsage?.totalTokens ?? 0,
+  transcriptCount: session.transcripts.length,
+});
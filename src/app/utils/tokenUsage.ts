@@ -0,0 +1,139 @@
+import {
+  ModelPricing,
+  ResponseDoneEvent,
+  ResponseTokenUsage,
+  TokenUsage,
+} from '../types';
+
+type ResponseUsage = NonNullable<ResponseDoneEvent['response']['usage']>;
+
+const TOKENS_PER_PRICE_UNIT = 1_000_000;
+
+const tokenUsageKeys: (keyof TokenUsage)[] = [
+  'inputTokens',
+  'outputTokens',
+  'totalTokens',
+  'inputTextTokens',
+  'inputAudioTokens',
+  'cachedTextTokens',
+  'cachedAudioTokens',
+  'outputTextTokens',
+  'outputAudioTokens',
+];
+
+/**
+ * Token usage with every count at zero
+ */
+export const createTokenUsage = (): TokenUsage => ({
+  inputTokens: 0,
+  outputTokens: 0,
+  totalTokens: 0,
+  inputTextTokens: 0,
+  inputAudioTokens: 0,
+  cachedTextTokens: 0,
+  cachedAudioTokens: 0,
+  outputTextTokens: 0,
+  outputAudioTokens: 0,
+});
+
+/**
+ * Reads the token usage reported in a response.done event
+ */
+export const getResponseTokenUsage = (usage: ResponseUsage): TokenUsage => {
+  const input = usage.input_token_details;
+  const output = usage.output_token_details;
+  // Older models only report the total of cached tokens, which are then
+  // counted as text since text makes up most of a cached prefix
+  const cachedAudioTokens = input?.cached_tokens_details?.audio_tokens ?? 0;
+  const cachedTextTokens =
+    input?.cached_tokens_details?.text_tokens ??
+    Math.max(0, (input?.cached_tokens ?? 0) - cachedAudioTokens);
+  return {
+    inputTokens: usage.input_tokens,
+    outputTokens: usage.output_tokens,
+    totalTokens: usage.total_tokens,
+    inputTextTokens: input?.text_tokens ?? 0,
+    inputAudioTokens: input?.audio_tokens ?? 0,
+    cachedTextTokens,
+    cachedAudioTokens,
+    outputTextTokens: output?.text_tokens ?? 0,
+    outputAudioTokens: output?.audio_tokens ?? 0,
+  };
+};
+
+/**
+ * Sums two token usages
+ */
+export const addTokenUsage = (
+  total: TokenUsage,
+  usage: TokenUsage
+): TokenUsage =>
+  tokenUsageKeys.reduce(
+    (sum, key) => ({ ...sum, [key]: total[key] + usage[key] }),
+    createTokenUsage()
+  );
+
+/**
+ * Finds the prices of a model. Dated snapshots such as
+ * `gpt-4o-realtime-preview-2024-12-17` fall back to the longest key they
+ * start with.
+ */
+export const findModelPricing = (
+  pricing: Record<string, ModelPricing>,
+  model: string
+): ModelPricing | null => {
+  if (Object.prototype.hasOwnProperty.call(pricing, model)) {
+    return pricing[model];
+  }
+  const prefix = Object.keys(pricing)
+    .filter((key) => model.startsWith(`${key}-`))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? pricing[prefix] : null;
+};
+
+/**
+ * Estimated cost of a token usage in USD. Cached tokens are billed at the
+ * cached price instead of the input price.
+ */
+export const estimateCost = (
+  usage: TokenUsage,
+  pricing: ModelPricing
+): number => {
+  const uncachedTextTokens = Math.max(
+    0,
+    usage.inputTextTokens - usage.cachedTextTokens
+  );
+  const uncachedAudioTokens = Math.max(
+    0,
+    usage.inputAudioTokens - usage.cachedAudioTokens
+  );
+  return (
+    (uncachedTextTokens * pricing.textInput +
+      usage.cachedTextTokens * pricing.cachedTextInput +
+      uncachedAudioTokens * pricing.audioInput +
+      usage.cachedAudioTokens * pricing.cachedAudioInput +
+      usage.outputTextTokens * pricing.textOutput +
+      usage.outputAudioTokens * pricing.audioOutput) /
+    TOKENS_PER_PRICE_UNIT
+  );
+};
+
+const responseTokenUsageColumns: (keyof ResponseTokenUsage)[] = [
+  'responseId',
+  'timestamp',
+  ...tokenUsageKeys,
+  'cost',
+];
+
+/**
+ * Formats the token usage of responses as CSV, one response per row
+ */
+export const tokenUsageToCsv = (responses: ResponseTokenUsage[]): string =>
+  [
+    responseTokenUsageColumns.join(','),
+    ...responses.map((response) =>
+      responseTokenUsageColumns
+        .map((column) => response[column] ?? '')
+        .join(',')
+    ),
+  ].join('\n');
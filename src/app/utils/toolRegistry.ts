@@ -0,0 +1,105 @@
+import {
+  FunctionCallHandler,
+  OpenAIFunction,
+  RegisteredTool,
+  ToolError,
+  ToolErrorType,
+  ToolHandler,
+} from '../types';
+
+/**
+ * Registry of tools the model can call, keyed by function name
+ */
+export class ToolRegistry {
+  private tools: Map<string, RegisteredTool>;
+
+  constructor(tools: RegisteredTool[] = []) {
+    this.tools = new Map();
+    tools.forEach(({ definition, handler }) =>
+      this.register(definition, handler)
+    );
+  }
+
+  /**
+   * Register a tool, replacing any existing tool with the same name
+   */
+  register(definition: OpenAIFunction, handler: ToolHandler): void {
+    this.tools.set(definition.name, { definition, handler });
+  }
+
+  /**
+   * Remove a tool from the registry
+   */
+  unregister(name: string): void {
+    this.tools.delete(name);
+  }
+
+  /**
+   * Check whether a tool is registered
+   */
+  has(name: string): boolean {
+    return this.tools.has(name);
+  }
+
+  /**
+   * Get the definitions of all registered tools, e.g. for `session.update`
+   */
+  getDefinitions(): OpenAIFunction[] {
+    return Array.from(this.tools.values()).map(({ definition }) => definition);
+  }
+
+  /**
+   * Execute a function call and serialize its result for `function_call_output`.
+   * Failures are returned as a serialized `ToolError` instead of being thrown,
+   * so the model is always told what happened.
+   *
+   * @param name - The name of the called function.
+   * @param rawArguments - The JSON-encoded arguments from the model.
+   * @param fallback - Handler used when no tool with this name is registered.
+   */
+  async execute(
+    name: string,
+    rawArguments: string | undefined,
+    fallback?: FunctionCallHandler
+  ): Promise<string> {
+    let args: Record<string, unknown>;
+    try {
+      args = JSON.parse(rawArguments || '{}');
+    } catch (error) {
+      return serializeToolError(
+        ToolErrorType.INVALID_ARGUMENTS,
+        `Arguments for '${name}' are not valid JSON: ${getErrorMessage(error)}`
+      );
+    }
+
+    const tool = this.tools.get(name);
+    if (!tool && !fallback) {
+      return serializeToolError(
+        ToolErrorType.TOOL_NOT_FOUND,
+        `No tool named '${name}' is registered`
+      );
+    }
+
+    try {
+      const result = tool
+        ? await tool.handler(args)
+        : await fallback?.(name, args);
+      return typeof result === 'string'
+        ? result
+        : JSON.stringify(result ?? null);
+    } catch (error) {
+      return serializeToolError(
+        ToolErrorType.EXECUTION_FAILED,
+        getErrorMessage(error)
+      );
+    }
+  }
+}
+
+const serializeToolError = (type: ToolErrorType, message: string): string => {
+  const toolError: ToolError = { error: { type, message } };
+  return JSON.stringify(toolError);
+};
+
+const getErrorMessage = (error: unknown): string =>
+  error instanceof Error ? error.message : String(error);
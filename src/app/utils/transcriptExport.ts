@@ -0,0 +1,272 @@
+import {
+  ConversationRole,
+  RealtimeSession,
+  Transcript,
+  TranscriptExportFormat,
+} from '../types';
+
+/**
+ * The parts of a live or stored session a transcript export reads
+ */
+export type TranscriptExportSource = Pick<
+  RealtimeSession,
+  | 'id'
+  | 'model'
+  | 'transcripts'
+  | 'itemTimings'
+  | 'startTime'
+  | 'endTime'
+  | 'duration'
+  | 'tokenUsage'
+  | 'estimatedCost'
+  | 'turnLatencies'
+>;
+
+/**
+ * A transcript placed on the timeline of its session
+ */
+export interface TranscriptCue {
+  role: ConversationRole;
+  text: string;
+  /**
+   * Offsets from the start of the session, in milliseconds.
+   */
+  startMs: number;
+  endMs: number;
+  /**
+   * Whether the timing comes from speech or audio events rather than being
+   * estimated from the completion time.
+   */
+  measured: boolean;
+  truncated: boolean;
+  transcript: Transcript;
+}
+
+/**
+ * An export ready to be downloaded
+ */
+export interface TranscriptExport {
+  content: string;
+  mimeType: string;
+  fileExtension: string;
+}
+
+// Speaking rate used to estimate cues without speech or audio timings
+const ESTIMATED_MS_PER_WORD = 400;
+const MIN_CUE_MS = 1000;
+
+const roleLabels: Record<ConversationRole, string> = {
+  [ConversationRole.USER]: 'User',
+  [ConversationRole.ASSISTANT]: 'Assistant',
+  [ConversationRole.SYSTEM]: 'System',
+};
+
+const getSessionStartMs = (session: TranscriptExportSource): number =>
+  session.startTime
+    ? new Date(session.startTime).getTime()
+    : Math.min(
+        ...session.transcripts.map((transcript) => transcript.timestamp)
+      );
+
+/**
+ * Places the transcripts of a session on its timeline, in the order they
+ * were spoken. Transcripts without speech or audio timings end when they
+ * were completed and last as long as their words take to say.
+ */
+export const getTranscriptCues = (
+  session: TranscriptExportSource
+): TranscriptCue[] => {
+  const transcripts = session.transcripts.filter((transcript) =>
+    transcript.content.trim()
+  );
+  if (transcripts.length === 0) {
+    return [];
+  }
+  const sessionStartMs = getSessionStartMs(session);
+
+  return transcripts
+    .map((transcript): TranscriptCue => {
+      const text = transcript.content.trim();
+      const timing =
+        transcript.itemId !== undefined
+          ? session.itemTimings?.[transcript.itemId]
+          : undefined;
+      const endedAt = timing?.endedAt ?? transcript.timestamp;
+      const estimatedMs = Math.max(
+        MIN_CUE_MS,
+        text.split(/\s+/).length * ESTIMATED_MS_PER_WORD
+      );
+      const startedAt = timing?.startedAt ?? endedAt - estimatedMs;
+      const startMs = Math.max(0, startedAt - sessionStartMs);
+      return {
+        role: transcript.role,
+        text,
+        startMs,
+        // Cues need a duration even when the audio was cut off right away
+        endMs: Math.max(startMs + 1, endedAt - sessionStartMs),
+        measured: Boolean(timing?.startedAt && timing.endedAt),
+        truncated: Boolean(transcript.truncated),
+        transcript,
+      };
+    })
+    .sort((a, b) => a.startMs - b.startMs);
+};
+
+const pad = (value: number, length = 2) =>
+  String(Math.floor(value)).padStart(length, '0');
+
+/**
+ * Formats an offset as `HH:MM:SS` followed by the milliseconds, e.g.
+ * `00:01:02.345` for WebVTT or `00:01:02,345` for SRT
+ */
+export const formatCueTime = (ms: number, separator: '.' | ',' = '.') =>
+  `${pad(ms / 3_600_000)}:${pad((ms / 60_000) % 60)}:${pad(
+    (ms / 1000) % 60
+  )}${separator}${pad(ms % 1000, 3)}`;
+
+// Offset shown in Markdown, e.g. `01:02`, or `1:01:02` past an hour
+const formatOffset = (ms: number) => {
+  const time = `${pad((ms / 60_000) % 60)}:${pad((ms / 1000) % 60)}`;
+  return ms >= 3_600_000 ? `${Math.floor(ms / 3_600_000)}:${time}` : time;
+};
+
+/**
+ * Formats the transcripts of a session as a Markdown document
+ */
+export const transcriptsToMarkdown = (
+  session: TranscriptExportSource
+): string => {
+  const lines = [
+    `# Conversation ${session.id}`,
+    '',
+    `- Model: ${session.model}`,
+  ];
+  if (session.startTime) {
+    lines.push(`- Started: ${session.startTime}`);
+  }
+  if (session.duration !== undefined) {
+    lines.push(`- Duration: ${Math.round(session.duration)}s`);
+  }
+  if (session.tokenUsage) {
+    lines.push(`- Tokens: ${session.tokenUsage.totalTokens}`);
+  }
+  lines.push('');
+
+  getTranscriptCues(session).forEach((cue) => {
+    lines.push(
+      `**[${formatOffset(cue.startMs)}] ${roleLabels[cue.role]}:** ${cue.text}${
+        cue.truncated ? ' _(interrupted)_' : ''
+      }`,
+      ''
+    );
+  });
+  return lines.join('\n');
+};
+
+/**
+ * Formats the transcripts of a session, with its usage and turn latencies,
+ * as a JSON document
+ */
+export const transcriptsToJson = (session: TranscriptExportSource): string =>
+  JSON.stringify(
+    {
+      sessionId: session.id,
+      model: session.model,
+      startTime: session.startTime ?? null,
+      endTime: session.endTime ?? null,
+      duration: session.duration ?? null,
+      transcripts: getTranscriptCues(session).map((cue) => ({
+        role: cue.role,
+        type: cue.transcript.type,
+        text: cue.text,
+        itemId: cue.transcript.itemId ?? null,
+        status: cue.transcript.status ?? null,
+        truncated: cue.truncated,
+        completedAt: new Date(cue.transcript.timestamp).toISOString(),
+        startMs: cue.startMs,
+        endMs: cue.endMs,
+        measured: cue.measured,
+      })),
+      tokenUsage: session.tokenUsage ?? null,
+      estimatedCost: session.estimatedCost ?? null,
+      turnLatencies: session.turnLatencies ?? [],
+    },
+    null,
+    2
+  );
+
+// WebVTT cue text is markup, and a blank line would end the cue
+const escapeCueText = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/\n\s*\n/g, '\n');
+
+/**
+ * Formats the transcripts of a session as WebVTT subtitles, with the speaker
+ * as voice span
+ */
+export const transcriptsToWebVTT = (session: TranscriptExportSource): string =>
+  [
+    'WEBVTT',
+    '',
+    ...getTranscriptCues(session).flatMap((cue) => [
+      `${formatCueTime(cue.startMs)} --> ${formatCueTime(cue.endMs)}`,
+      `<v ${roleLabels[cue.role]}>${escapeCueText(cue.text)}`,
+      '',
+    ]),
+  ].join('\n');
+
+/**
+ * Formats the transcripts of a session as SRT subtitles, prefixed with the speaker
+ */
+export const transcriptsToSrt = (session: TranscriptExportSource): string =>
+  getTranscriptCues(session)
+    .map((cue, index) =>
+      [
+        String(index + 1),
+        `${formatCueTime(cue.startMs, ',')} --> ${formatCueTime(
+          cue.endMs,
+          ','
+        )}`,
+        `${roleLabels[cue.role]}: ${cue.text.replace(/\n\s*\n/g, '\n')}`,
+        '',
+      ].join('\n')
+    )
+    .join('\n');
+
+/**
+ * Exports the transcripts of a session to a file format
+ */
+export const exportTranscripts = (
+  session: TranscriptExportSource,
+  format: TranscriptExportFormat
+): TranscriptExport => {
+  switch (format) {
+    case TranscriptExportFormat.MARKDOWN:
+      return {
+        content: transcriptsToMarkdown(session),
+        mimeType: 'text/markdown',
+        fileExtension: 'md',
+      };
+    case TranscriptExportFormat.JSON:
+      return {
+        content: transcriptsToJson(session),
+        mimeType: 'application/json',
+        fileExtension: 'json',
+      };
+    case TranscriptExportFormat.WEBVTT:
+      return {
+        content: transcriptsToWebVTT(session),
+        mimeType: 'text/vtt',
+        fileExtension: 'vtt',
+      };
+    case TranscriptExportFormat.SRT:
+      return {
+        content: transcriptsToSrt(session),
+        mimeType: 'application/x-subrip',
+        fileExtension: 'srt',
+      };
+  }
+};